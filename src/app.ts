@@ -1,14 +1,28 @@
+import assert from "assert/strict";
+import Cache from "./cache/cache.js";
 import Logger, {LogLevel} from "./core/logger.js";
 import Tr from "./core/tr.js";
 import {Typings} from "./core/typings.js";
+import Exporter from "./exporter/exporter.js";
 import GameLoop from "./game-loop/game-loop.js";
 import Task from "./game-loop/task.js";
+import {Vec2i, Vector2i} from "./math/vector.js";
 import ProtobufLoader from "./net/protobuf-loader.js";
 import Protobuf from "./net/protobuf.js";
 import Service from "./net/service.js";
 import Session from "./net/session.js";
 import UDP from "./net/udp.js";
 import WS from "./net/ws.js";
+import DB from "./orm/db.js";
+import EntityLoader from "./orm/entity-loader.js";
+import MigrationLoader from "./orm/migration-loader.js";
+import MigrationRunner from "./orm/migration-runner.js";
+import ORM from "./orm/orm.js";
+import QueryStats from "./orm/query-stats.js";
+import SchemaSynchronizer from "./orm/schema-synchronizer.js";
+import Seeder from "./orm/seeder.js";
+import Synchronizer from "./sync/synchronizer.js";
+import Zone from "./sync/zone.js";
 import ClassLoader from "./type-analyzer/class-loader.js";
 import TypeAnalyzer from "./type-analyzer/type-analyzer.js";
 
@@ -30,8 +44,51 @@ export interface AppConfig {
 	loggerFlushFrequency: number;
 	/** Flush all updates to the database every `dbFlushFrequency` ms */
 	dbFlushFrequency: number;
-	/** Sync all updates with clients every `syncFrequency` ms */
+	/** If `true`, all pending migrations will be executed on start (see {@link MigrationRunner}) */
+	dbMigrate: boolean;
+	/**
+	 * If `true`, the database schema will be synchronized with the entities on start (see {@link SchemaSynchronizer}).
+	 * The columns are never dropped automatically, you should do it yourself
+	 */
+	dbSyncSchema: boolean;
+	/**
+	 * The fixture sets (e.g. `["dev"]`) that will be upserted on start after the migrations and the schema sync,
+	 * see {@link Seeder}. The fixtures should specify the ids (see {@link SeedOptions.upsert}). Empty by default
+	 */
+	dbSeed: string[];
+	/**
+	 * If `true`, the cached entities are invalidated when other processes that share the database change them,
+	 * see {@link ORM.enableInvalidation}
+	 */
+	dbInvalidation: boolean;
+	/** The maximum number of connections to the database (and to each replica), see {@link ConnectionOptions} */
+	dbPoolSize: number;
+	/** The database connections that are idle for `dbIdleTimeout` ms are closed, 0 disables it */
+	dbIdleTimeout: number;
+	/** The queries that take longer than `dbStatementTimeout` ms are cancelled, 0 disables it */
+	dbStatementTimeout: number;
+	/** The database connections are reopened after `dbMaxLifetime` ms, 0 means the default (30-60 minutes) */
+	dbMaxLifetime: number;
+	/** The queries that take longer than `dbSlowQueryThreshold` ms are logged as slow, 0 disables it */
+	dbSlowQueryThreshold: number;
+	/** If `true`, the plans of slow `SELECT`-queries are logged, see {@link DB.options} */
+	dbExplainSlowQueries: boolean;
+	/**
+	 * Log the query statistics (see {@link QueryStats}) and the usage of the connection pools
+	 * (see {@link DB.getPoolStats}) every `dbStatsFrequency` ms, 0 disables it
+	 */
+	dbStatsFrequency: number;
+	/** Sync all updates with clients every `syncFrequency` ms, see {@link Synchronizer} */
 	syncFrequency: number;
+	/** The size of the zones in the world units, see {@link Zone} */
+	zoneSize: Vector2i;
+	/** The sessions observe the entities that are not farther than `zoneInterestRadius` zones from them */
+	zoneInterestRadius: number;
+	/**
+	 * If specified, the `.proto` file and the client bindings are generated in this directory on start,
+	 * see {@link Exporter}
+	 */
+	clientExportDir: string;
 	/**
 	 * The opcode size in bytes.
 	 * The larger, the more message and service classes can be created, but more bytes are sent per message.
@@ -58,7 +115,21 @@ export default class App {
 		tickFrequency: 16,
 		loggerFlushFrequency: 100,
 		dbFlushFrequency: 100,
+		dbMigrate: false,
+		dbSyncSchema: false,
+		dbSeed: [],
+		dbInvalidation: false,
+		dbPoolSize: DB.DEFAULT_POOL_SIZE,
+		dbIdleTimeout: 0,
+		dbStatementTimeout: 0,
+		dbMaxLifetime: 0,
+		dbSlowQueryThreshold: 100,
+		dbExplainSlowQueries: false,
+		dbStatsFrequency: 60000,
 		syncFrequency: 100,
+		zoneSize: Vec2i(32, 32),
+		zoneInterestRadius: 1,
+		clientExportDir: "",
 		opcodeSize: 2,
 		waitForReconnection: 3000,
 		wsMaxPayloadLength: 16384,
@@ -70,6 +141,7 @@ export default class App {
 		alwaysCorrectOrder: false,
 	};
 	private static started = false;
+	private static db?: DB;
 
 	/** Initializes all core components (ORM, WS, GameLoop, etc.) */
 	public static async init(userConfig: Partial<AppConfig> = {}): Promise<void> {
@@ -91,14 +163,46 @@ export default class App {
 		const typings = await ClassLoader.findOrThrow(Typings);
 		const {types, messages, services} = await ProtobufLoader.loadAllProtoClasses();
 		Protobuf.init(types, messages, services, config.opcodeSize, typings);
+		assert(process.env.DB_URL, "You should specify the environment variable DB_URL.");
+		DB.options.slowQueryThreshold = config.dbSlowQueryThreshold;
+		DB.options.explainSlowQueries = config.dbExplainSlowQueries;
+		App.db = new DB(process.env.DB_URL, {
+			replicaUrls: (process.env.DB_REPLICA_URLS ? process.env.DB_REPLICA_URLS.split(",") : []),
+			poolSize: config.dbPoolSize,
+			idleTimeout: config.dbIdleTimeout,
+			statementTimeout: config.dbStatementTimeout,
+			maxLifetime: config.dbMaxLifetime,
+		});
+		const entities = await EntityLoader.loadAllEntities();
+		await ORM.init(App.db, entities, typings, await EntityLoader.loadAllEntityTasks());
+		Synchronizer.init(entities, typings);
+		if (config.clientExportDir) {
+			await Exporter.export(config.clientExportDir);
+		}
+		if (config.dbMigrate) {
+			await MigrationRunner.migrate(App.db, await MigrationLoader.loadAllMigrations());
+		}
+		if (config.dbSyncSchema) {
+			await SchemaSynchronizer.sync(App.db, ORM.getTableDefinitions());
+		}
+		if (config.dbSeed.length > 0) {
+			await Seeder.seed(App.db, config.dbSeed, {upsert: true});
+		}
+		if (config.dbInvalidation) {
+			await ORM.enableInvalidation();
+		}
 		// We don't need megabytes of collected data anymore
 		TypeAnalyzer.stop();
 
 		// Then we can start other modules
 		Tr.init();
-		//DB.init();
 		//ORM.enableSync();
-		//Task.create(ORM.flush, {frequency: config.dbFlushFrequency});
+		Task.create(ORM.flush, {frequency: config.dbFlushFrequency});
+		if (config.dbStatsFrequency > 0) {
+			Task.create(() => QueryStats.log(App.db?.getPoolStats()), {
+				name: "QueryStats.log", frequency: config.dbStatsFrequency,
+			});
+		}
 		Session.waitForReconnection = config.waitForReconnection;
 		Service.options.correctOrder = config.alwaysCorrectOrder;
 		UDP.maxOptimalPacketCount = config.udpMaxOptimalPacketCount;
@@ -107,10 +211,12 @@ export default class App {
 		UDP.receiveMaxBytesPerSecond = config.udpReceiveMaxBytesPerSecond;
 		WS.init(config.wsMaxPayloadLength);
 		UDP.init();
-		//Task.create(Cache.clean, {frequency: Cache.CLEAN_FREQUENCY});
+		Task.create(Cache.clean, {frequency: Cache.CLEAN_FREQUENCY});
+		Zone.size = config.zoneSize;
+		Zone.interestRadius = config.zoneInterestRadius;
 		// With priority 1, so that users get changes immediately rather than on the next game loop iteration
-		//Task.create(Synchronizer.synchronize, {frequency: config.syncFrequency, priority: 1});
-		//Task.create(Synchronizer.syncNewZones);
+		Task.create(Synchronizer.syncNewZones, {frequency: config.syncFrequency, priority: 1});
+		Task.create(Synchronizer.synchronize, {frequency: config.syncFrequency, priority: 1});
 
 		App.started = true;
 		App.logger.info("Started.");
@@ -126,13 +232,25 @@ export default class App {
 		UDP.close();
 		WS.close();
 		//ORM.disableSync();
-		//await DB.close();
-		Tr.stop();
+		try {
+			// It also waits for the periodic flush if it is in progress
+			await ORM.flush();
+			await ORM.disableInvalidation();
+		} finally {
+			ORM.stop();
+			Synchronizer.stop();
+			Zone.stop();
+			Cache.clear();
+			QueryStats.clear();
+			await App.db?.close();
+			delete App.db;
+			Tr.stop();
 
-		process.off("uncaughtException", App.logger.error);
-		process.off("unhandledRejection", App.logger.error);
-		App.started = false;
-		App.logger.info("Stopped.");
+			process.off("uncaughtException", App.logger.error);
+			process.off("unhandledRejection", App.logger.error);
+			App.started = false;
+			App.logger.info("Stopped.");
+		}
 	}
 
 	/** Returns whether the application is started */
@@ -0,0 +1,34 @@
+import assert from "assert/strict";
+import {afterEach, test} from "node:test";
+import Cache from "./cache.js";
+
+afterEach(() => {
+	Cache.clear();
+});
+
+test("get and set", () => {
+	const value = {name: "Luka"};
+	assert.equal(Cache.get("user/1"), undefined);
+	Cache.set("user/1", value);
+	assert.equal(Cache.get("user/1"), value);
+	assert.equal(Cache.get("user/1"), value);
+	assert(Cache.has("user/1"));
+	assert.equal(Cache.peek("user/1"), value);
+	assert.equal(Cache.peek("user/2"), undefined);
+	Cache.delete("user/1");
+	assert(!Cache.has("user/1"));
+	assert.equal(Cache.get("user/1"), undefined);
+	assert.deepEqual(Cache.getStats(), {hits: 2, misses: 2, hitRate: 0.5, size: 0, weakSize: 0});
+});
+
+test("clean", () => {
+	const value = {name: "Luka"};
+	Cache.set("user/1", value, {ttl: 0});
+	Cache.set("user/2", {name: "Sama"});
+	Cache.clean();
+	assert.deepEqual(Cache.getStats(), {hits: 0, misses: 0, hitRate: 0, size: 2, weakSize: 1});
+
+	// The value is still referenced, so it is still cached and is held strongly again after access
+	assert.equal(Cache.get("user/1"), value);
+	assert.equal(Cache.getStats().weakSize, 0);
+});
\ No newline at end of file
@@ -0,0 +1,133 @@
+/** Cache options, see {@link Cache.set} */
+export interface CacheOptions {
+	/**
+	 * How many milliseconds the value is strongly held since the last access.
+	 * After that, it is only held as long as it is referenced somewhere else (e.g. by a session or a task)
+	 */
+	ttl: number;
+}
+
+/** Cache statistics, see {@link Cache.getStats} */
+export interface CacheStats {
+	hits: number;
+	misses: number;
+	/** The share of hits among all lookups, from 0 to 1 */
+	hitRate: number;
+	/** The number of entries (both strongly and weakly held) */
+	size: number;
+	/** The number of entries that are only weakly held */
+	weakSize: number;
+}
+
+/** A cache entry. It holds the value either strongly or weakly */
+interface CacheEntry {
+	value?: object;
+	ref: WeakRef<object>;
+	ttl: number;
+	/** The time of the last access as a unix timestamp, in milliseconds */
+	lastAccess: number;
+}
+
+/**
+ * Cache class. It is used e.g. by {@link ORM} as an identity map,
+ * so that each database row exists as at most one entity instance per process.
+ *
+ * A value is strongly held for `ttl` milliseconds since the last access (see {@link CacheOptions}).
+ * After that, it is only weakly held, so it is evicted as soon as it is not referenced anywhere else.
+ * It means that the cache never returns a different object for the same key while the old one is still in use.
+ * The eviction is done in {@link Cache.clean} that should be called periodically.
+ *
+ * Example of use:
+ * ```ts
+ * Cache.set("user/1", user, {ttl: 5000});
+ * const cachedUser = Cache.get<User>("user/1");
+ * ```
+ */
+export default class Cache {
+	/** How often {@link Cache.clean} should be called, in milliseconds */
+	public static readonly CLEAN_FREQUENCY = 1000;
+	/** The default value of {@link CacheOptions.ttl} */
+	public static readonly DEFAULT_TTL = 60000;
+	private static readonly entries = new Map<string, CacheEntry>;
+	private static hits = 0;
+	private static misses = 0;
+
+	/** Returns the value for the given key or `undefined` if it is not cached. Each call counts as a hit or a miss */
+	public static get<T extends object>(key: string): T | undefined {
+		const entry = Cache.entries.get(key);
+		const value = entry?.value ?? entry?.ref.deref();
+		if (!entry || !value) {
+			Cache.misses++;
+			return undefined;
+		}
+		Cache.hits++;
+		entry.value = value;
+		entry.lastAccess = Date.now();
+		return value as T;
+	}
+
+	/** Returns whether the given key is cached. It doesn't count as a hit or a miss and doesn't prolong the ttl */
+	public static has(key: string): boolean {
+		const entry = Cache.entries.get(key);
+		return !!(entry?.value ?? entry?.ref.deref());
+	}
+
+	/**
+	 * Returns the value for the given key or `undefined` if it is not cached, like {@link Cache.get},
+	 * but it doesn't count as a hit or a miss and doesn't prolong the ttl
+	 */
+	public static peek<T extends object>(key: string): T | undefined {
+		const entry = Cache.entries.get(key);
+		return (entry?.value ?? entry?.ref.deref()) as T | undefined;
+	}
+
+	/** Caches the given value with the given key using the given options */
+	public static set(key: string, value: object, options?: Partial<CacheOptions>): void {
+		Cache.entries.set(key, {
+			value, ref: new WeakRef(value), ttl: options?.ttl ?? Cache.DEFAULT_TTL, lastAccess: Date.now()
+		});
+	}
+
+	/** Deletes the value with the given key from the cache */
+	public static delete(key: string): void {
+		Cache.entries.delete(key);
+	}
+
+	/**
+	 * Releases the strong references to the values whose ttl has expired,
+	 * and deletes the entries whose values were garbage collected
+	 */
+	public static clean(): void {
+		const now = Date.now();
+		for (const [key, entry] of Cache.entries) {
+			if (entry.value && now - entry.lastAccess >= entry.ttl) {
+				delete entry.value;
+			} else if (!entry.value && !entry.ref.deref()) {
+				Cache.entries.delete(key);
+			}
+		}
+	}
+
+	/** Returns the cache statistics */
+	public static getStats(): CacheStats {
+		const lookups = Cache.hits + Cache.misses;
+		let weakSize = 0;
+		for (const entry of Cache.entries.values()) {
+			weakSize += (entry.value ? 0 : 1);
+		}
+		return {
+			hits: Cache.hits,
+			misses: Cache.misses,
+			hitRate: (lookups > 0 ? Cache.hits / lookups : 0),
+			size: Cache.entries.size,
+			weakSize,
+		};
+	}
+
+	/** Deletes all entries and resets the statistics */
+	public static clear(): void {
+		Cache.entries.clear();
+		Cache.hits = 0;
+		Cache.misses = 0;
+	}
+}
\ No newline at end of file
@@ -2,6 +2,8 @@
 export type Float = number;
 /** A floating-point number between approximately ±5.0e-324 and ±1.7e308 (IEEE 754 double-precision) */
 export type Double = number;
+/** An integer between -32.768 and 32.767 */
+export type Int16 = number;
 /** An integer between -2.147.483.648 and 2.147.483.647 */
 export type Int32 = number;
 /** An integer between -9.223.372.036.854.775.808 and 9.223.372.036.854.775.807 */
@@ -40,6 +42,8 @@ export type Exact<T, U extends T> = T & {[K in Exclude<keyof U, keyof T>]: never
  * It also provides constants with integer ranges.
  */
 export class Typings {
+	public static readonly INT16_MIN_VALUE = -32_768;
+	public static readonly INT16_MAX_VALUE = 32_767;
 	public static readonly INT32_MIN_VALUE = -2_147_483_648;
 	public static readonly INT32_MAX_VALUE = 2_147_483_647;
 	public static readonly UINT32_MIN_VALUE = 0;
@@ -0,0 +1,170 @@
+import assert from "assert/strict";
+import fs from "fs/promises";
+import {before, test} from "node:test";
+import os from "os";
+import path from "path";
+import ts from "typescript";
+import {fileURLToPath, pathToFileURL} from "url";
+import {Int32, Int64, Typings} from "../core/typings.js";
+import {Vec2i, Vector2i} from "../math/vector.js";
+import Message from "../net/message.js";
+import Protobuf, {ProtoClassType} from "../net/protobuf.js";
+import Service from "../net/service.js";
+import ClassLoader from "../type-analyzer/class-loader.js";
+import TypeAnalyzer from "../type-analyzer/type-analyzer.js";
+import Exporter from "./exporter.js";
+import {SchemaType} from "./exporter.typings.js";
+import ProtoTarget from "./proto-target.js";
+import TypeScriptTarget from "./typescript-target.js";
+
+enum ExportTestEnum {
+	First,
+	Second,
+}
+
+export class ExportTestMessage extends Message {
+	public text!: string;
+	public ids!: Int64[];
+	public kind!: ExportTestEnum;
+	public position?: Vector2i;
+}
+
+export class ExportTestService extends Service {
+	public count!: Int32;
+}
+
+/** The functions of the generated TypeScript module, see {@link TypeScriptTarget} */
+interface GeneratedModule {
+	encodeService(name: string, service: object): Uint8Array;
+	decodeMessage(buffer: Uint8Array): {name: string, message: object} | null;
+}
+
+before(async () => {
+	TypeAnalyzer.init(["**/exporter/*.d.ts", "**/net/*.d.ts", "**/typings.d.ts", "**/vector.d.ts"]);
+	const typings = await ClassLoader.findOrThrow(Typings);
+	Protobuf.init(
+		[await ClassLoader.findOrThrowWithInfo(Vector2i)],
+		[await ClassLoader.findOrThrowWithInfo(ExportTestMessage)],
+		[await ClassLoader.findOrThrowWithInfo(ExportTestService)],
+		2, typings
+	);
+});
+
+test("getSchema", () => {
+	const schema = Exporter.getSchema();
+	assert.equal(schema.opcodeSize, 2);
+	assert.deepEqual(schema.types.map(type => [type.name, type.opcode, type.kind]), [
+		["Vector2i", 0, ProtoClassType.Type],
+		["ExportTestMessage", 1, ProtoClassType.Message],
+		["ExportTestService", 65535, ProtoClassType.Service],
+	]);
+	assert.deepEqual(schema.types[1].fields, [
+		{id: 1, name: "text", type: "string", repeated: false},
+		{id: 2, name: "ids", type: "int64", repeated: true},
+		{id: 3, name: "kind", type: "ExportTestEnum", repeated: false},
+		{id: 4, name: "position", type: "Vector2i", repeated: false},
+	]);
+	assert.deepEqual(schema.types[1].enums, [{name: "ExportTestEnum", values: {First: 0, Second: 1}}]);
+});
+
+test("targets", () => {
+	const schema = Exporter.getSchema();
+	const proto = ProtoTarget.generate(schema);
+	assert(proto.includes(`syntax = "proto3";`));
+	assert(proto.includes([
+		"// @opcode 1",
+		"message ExportTestMessage {",
+		"\tenum ExportTestEnum {",
+		"\t\tFirst = 0;",
+		"\t\tSecond = 1;",
+		"\t}",
+		"\tstring text = 1;",
+		"\trepeated int64 ids = 2;",
+		"\tExportTestEnum kind = 3;",
+		"\tVector2i position = 4;",
+		"}",
+	].join("\n")));
+	assert(proto.includes("// @opcode 65535\nmessage ExportTestService {\n\tint32 count = 1;\n}"));
+
+	const typescript = TypeScriptTarget.generate(schema);
+	assert(typescript.includes("export const OPCODE_SIZE = 2;"));
+	assert(typescript.includes("export const Opcodes = {\n\tExportTestMessage: 1,\n\tExportTestService: 65535,\n}"));
+	assert(typescript.includes("export enum ExportTestEnum {\n\tFirst = 0,\n\tSecond = 1,\n}"));
+	assert(typescript.includes([
+		"export interface ExportTestMessage {",
+		"\ttext: string;",
+		"\tids: string[];",
+		"\tkind: ExportTestEnum;",
+		"\tposition?: Vector2i | null;",
+		"}",
+	].join("\n")));
+	assert(typescript.includes("export interface Services {\n\tExportTestService: ExportTestService;\n}"));
+	assert(typescript.includes("export function decodeMessage("));
+});
+
+test("enum names", () => {
+	const getType = (name: string, enumName: string, values: {[name: string]: number}): SchemaType => ({
+		name, opcode: 0, kind: ProtoClassType.Type,
+		fields: [{id: 1, name: "kind", type: enumName, repeated: false}], enums: [{name: enumName, values}],
+	});
+	const typescript = TypeScriptTarget.generate({opcodeSize: 2, types: [
+		getType("Item", "Kind", {Weapon: 0, Armor: 1}),
+		getType("Skill", "Kind", {Active: 0, Passive: 1}),
+		getType("Weapon", "Rarity", {Common: 0, Rare: 1}),
+		getType("Armor", "Rarity", {Common: 0, Rare: 1}),
+	]});
+	assert(typescript.includes("export enum ItemKind {\n\tWeapon = 0,\n\tArmor = 1,\n}"));
+	assert(typescript.includes("export enum SkillKind {\n\tActive = 0,\n\tPassive = 1,\n}"));
+	assert(!typescript.includes("export enum Kind "));
+	assert.equal(typescript.split("export enum Rarity {").length, 2);
+	assert(typescript.includes("export interface Item {\n\tkind: ItemKind;\n}"));
+	assert(typescript.includes("export interface Skill {\n\tkind: SkillKind;\n}"));
+	assert(typescript.includes("export interface Armor {\n\tkind: Rarity;\n}"));
+});
+
+test("typescript module", async () => {
+	// The module is generated next to the test, so that it can import protobufjs from node_modules
+	const directory = await fs.mkdtemp(path.join(path.dirname(fileURLToPath(import.meta.url)), "export-"));
+	try {
+		const [file] = await Exporter.export(directory, ["typescript"]);
+		const program = ts.createProgram([file], {
+			strict: true, noEmit: true, skipLibCheck: true, target: ts.ScriptTarget.ES2022,
+			module: ts.ModuleKind.NodeNext, moduleResolution: ts.ModuleResolutionKind.NodeNext,
+		});
+		const errors = ts.getPreEmitDiagnostics(program)
+			.map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+		assert.deepEqual(errors, []);
+
+		const {outputText} = ts.transpileModule(await fs.readFile(file, "utf8"), {
+			compilerOptions: {target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ES2022},
+		});
+		const jsFile = file.replace(/\.ts$/, ".js");
+		await fs.writeFile(jsFile, outputText);
+		const generated = await import(pathToFileURL(jsFile).href) as GeneratedModule;
+
+		const service = Protobuf.decode(Buffer.from(generated.encodeService("ExportTestService", {count: 42})));
+		assert(service instanceof ExportTestService);
+		assert.equal(service.count, 42);
+		const message = ExportTestMessage.create({
+			text: "hello", ids: [1n, 9_007_199_254_740_993n], kind: ExportTestEnum.Second, position: Vec2i(3, -4),
+		});
+		assert.deepEqual(generated.decodeMessage(Protobuf.encode(message)), {name: "ExportTestMessage", message: {
+			text: "hello", ids: ["1", "9007199254740993"], kind: ExportTestEnum.Second, position: {x: 3, y: -4},
+		}});
+		assert.equal(generated.decodeMessage(new Uint8Array([0, 7])), null);
+	} finally {
+		await fs.rm(directory, {recursive: true});
+	}
+});
+
+test("export", async () => {
+	const directory = await fs.mkdtemp(path.join(os.tmpdir(), "export-"));
+	try {
+		const files = await Exporter.export(directory);
+		assert.deepEqual(files, [path.join(directory, "messages.proto"), path.join(directory, "messages.ts")]);
+		assert.equal(await fs.readFile(files[0], "utf8"), ProtoTarget.generate(Exporter.getSchema()));
+		await assert.rejects(Exporter.export(directory, ["gdscript"]), /gdscript was not found/);
+	} finally {
+		await fs.rm(directory, {recursive: true});
+	}
+});
\ No newline at end of file
@@ -0,0 +1,68 @@
+import assert from "assert/strict";
+import fs from "fs/promises";
+import path from "path";
+import protobuf from "protobufjs/light.js";
+import Logger from "../core/logger.js";
+import Protobuf from "../net/protobuf.js";
+import {ExportTarget, Schema, SchemaEnum, SchemaType} from "./exporter.typings.js";
+import ProtoTarget from "./proto-target.js";
+import TypeScriptTarget from "./typescript-target.js";
+
+/**
+ * This class exports the messages, services and types (see {@link Protobuf}) for the client,
+ * so that it doesn't need to mirror them manually. The schema is passed to the export targets,
+ * each of them generates a file. By default, there are the targets `proto` (see {@link ProtoTarget})
+ * and `typescript` (see {@link TypeScriptTarget}). You can add your own targets (e.g. for GDScript or C#):
+ * ```ts
+ * Exporter.targets.set("csharp", CSharpTarget);
+ * await Exporter.export("../client/generated", ["proto", "csharp"]);
+ * ```
+ */
+export default class Exporter {
+	/** A map whose keys are the target names and values are the targets */
+	public static readonly targets = new Map<string, ExportTarget>([
+		["proto", ProtoTarget],
+		["typescript", TypeScriptTarget],
+	]);
+	private static readonly logger = new Logger(Exporter);
+
+	/** Returns the schema of all messages, services and types. {@link Protobuf} should be initialized */
+	public static getSchema(): Schema {
+		const types = Protobuf.typeInfos.map((typeInfo): SchemaType => {
+			const protobufType = Protobuf.getType(typeInfo.name);
+			assert(protobufType, `The protobuf type ${typeInfo.name} was not found.`);
+			const enums = protobufType.nestedArray
+				.filter(nested => nested instanceof protobuf.Enum)
+				.map((enumType): SchemaEnum => ({name: enumType.name, values: {...(enumType as protobuf.Enum).values}}));
+			return {
+				name: typeInfo.name,
+				opcode: typeInfo.opcode,
+				kind: typeInfo.type,
+				fields: protobufType.fieldsArray.map(({id, name, type, repeated}) => ({id, name, type, repeated})),
+				enums,
+			};
+		});
+		return {opcodeSize: Protobuf.getOpcodeSize(), types};
+	}
+
+	/**
+	 * Generates the files of the given targets (all targets by default) in the given directory.
+	 * Returns the paths of the generated files
+	 */
+	public static async export(
+		directory: string, targetNames: string[] = Array.from(Exporter.targets.keys())
+	): Promise<string[]> {
+		const schema = Exporter.getSchema();
+		await fs.mkdir(directory, {recursive: true});
+		const files: string[] = [];
+		for (const targetName of targetNames) {
+			const target = Exporter.targets.get(targetName);
+			assert(target, `The export target ${targetName} was not found.`);
+			const file = path.join(directory, target.fileName);
+			await fs.writeFile(file, target.generate(schema));
+			files.push(file);
+		}
+		Exporter.logger.info(`Exported ${files.join(", ")}.`);
+		return files;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import {ProtoClassType} from "../net/protobuf.js";
+
+/** The description of the messages, services and types that the client needs, see {@link Exporter.getSchema} */
+export interface Schema {
+	/** The opcode size in bytes, see {@link AppConfig.opcodeSize} */
+	opcodeSize: number;
+	types: SchemaType[];
+}
+
+/** A message, a service or a type that can be used in them */
+export interface SchemaType {
+	name: string;
+	/** The opcode of a message or a service, 0 for the types */
+	opcode: number;
+	kind: ProtoClassType;
+	fields: SchemaField[];
+	/** The enums that are used in the fields of this type */
+	enums: SchemaEnum[];
+}
+
+/** A field of {@link SchemaType} */
+export interface SchemaField {
+	/** The protobuf field id */
+	id: number;
+	name: string;
+	/** The protobuf type (e.g. `int32` or `string`), the name of an enum or the name of a type */
+	type: string;
+	repeated: boolean;
+}
+
+/** An enum that is used in {@link SchemaType} */
+export interface SchemaEnum {
+	name: string;
+	values: {[name: string]: number};
+}
+
+/**
+ * An export target generates a file for the client from the schema, e.g. a `.proto` file or the bindings
+ * for some language. The static classes can be used as targets, see {@link ProtoTarget} for an example
+ */
+export interface ExportTarget {
+	/** The name of the generated file */
+	fileName: string;
+	/** Returns the content of the generated file */
+	generate(schema: Schema): string;
+}
\ No newline at end of file
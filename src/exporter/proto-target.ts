@@ -0,0 +1,46 @@
+import _ from "lodash";
+import {ProtoClassType} from "../net/protobuf.js";
+import {Schema, SchemaType} from "./exporter.typings.js";
+
+/**
+ * Generates a `.proto` file (proto3) with all messages, services and types.
+ * The opcodes are specified in the comments `// @opcode 1` before the messages and the services
+ */
+export default class ProtoTarget {
+	public static readonly fileName = "messages.proto";
+
+	/** Returns the content of the `.proto` file */
+	public static generate(schema: Schema): string {
+		const lines = [
+			"// Generated by the server, do not edit.",
+			`// Messages and services are sent as the opcode (${schema.opcodeSize} bytes, big-endian) and the encoded data.`,
+			`syntax = "proto3";`,
+		];
+		for (const type of schema.types) {
+			lines.push("", ...ProtoTarget.getComments(type), `message ${type.name} {`);
+			for (const {name, values} of type.enums) {
+				lines.push(`\tenum ${name} {`);
+				// The first value should be zero in proto3
+				for (const [valueName, value] of _.sortBy(Object.entries(values), ([, value]) => value)) {
+					lines.push(`\t\t${valueName} = ${value};`);
+				}
+				lines.push("\t}");
+			}
+			for (const field of type.fields) {
+				lines.push(`\t${field.repeated ? "repeated " : ""}${field.type} ${field.name} = ${field.id};`);
+			}
+			lines.push("}");
+		}
+		return lines.join("\n") + "\n";
+	}
+
+	/** Returns the comments that describe the given type */
+	private static getComments(type: SchemaType): string[] {
+		if (type.kind == ProtoClassType.Message) {
+			return ["// A message that is sent by the server", `// @opcode ${type.opcode}`];
+		} else if (type.kind == ProtoClassType.Service) {
+			return ["// A service that is sent by the client", `// @opcode ${type.opcode}`];
+		}
+		return ["// A type that is used in messages and services"];
+	}
+}
\ No newline at end of file
@@ -0,0 +1,198 @@
+import _ from "lodash";
+import MapUtil from "../collection-utils/map-util.js";
+import {ProtoClassType} from "../net/protobuf.js";
+import {Schema, SchemaEnum, SchemaField, SchemaType} from "./exporter.typings.js";
+
+/**
+ * Generates a TypeScript module for the client. It contains the opcode constants, the enums,
+ * the interfaces of the messages, services and types and the functions `encodeService` and `decodeMessage`
+ * (they use `protobufjs`, so the client should have it installed). 64-bit integers are represented as strings,
+ * the unset fields with other types are `null` in the decoded messages.
+ * The enums are declared at the top level. If different types use different enums with the same name,
+ * these enums are prefixed with the type names (e.g. `CharacterMessageKind`).
+ * Example of use on the client side:
+ * ```ts
+ * socket.send(encodeService("MoveService", {direction: {x: 1, y: 0}}));
+ * const decoded = decodeMessage(data);
+ * if (decoded?.name == "ChatMessage") {
+ *   console.log(decoded.message.text);
+ * }
+ * ```
+ */
+export default class TypeScriptTarget {
+	public static readonly fileName = "messages.ts";
+	/** A map whose keys are the protobuf types and values are the corresponding TypeScript types */
+	private static readonly typeMap: {[protobufType: string]: string} = {
+		int32: "number", uint32: "number", float: "number", double: "number",
+		int64: "string", uint64: "string", bool: "boolean", string: "string",
+	};
+	/** The functions that don't depend on the schema */
+	private static readonly functions = `
+/** Encodes the given service with its opcode, so that it can be sent to the server */
+export function encodeService<K extends keyof Services>(name: K, service: Services[K]): Uint8Array {
+	const type = root.lookupType(name);
+	const data = type.encode(type.fromObject(service as unknown as {[key: string]: unknown})).finish();
+	const buffer = new Uint8Array(OPCODE_SIZE + data.length);
+	let opcode: number = Opcodes[name];
+	for (let i = OPCODE_SIZE - 1; i >= 0; i--) {
+		buffer[i] = opcode % 256;
+		opcode = Math.floor(opcode / 256);
+	}
+	buffer.set(data, OPCODE_SIZE);
+	return buffer;
+}
+
+/** A decoded message with its name, see {@link decodeMessage} */
+export type DecodedMessage = {[K in keyof Messages]: {name: K, message: Messages[K]}}[keyof Messages];
+
+/** Decodes the message received from the server. Returns \`null\` if the opcode is unknown */
+export function decodeMessage(buffer: Uint8Array): DecodedMessage | null {
+	let opcode = 0;
+	for (let i = 0; i < OPCODE_SIZE; i++) {
+		opcode = opcode * 256 + buffer[i];
+	}
+	const name = messageNames[opcode];
+	if (!name) {
+		return null;
+	}
+	const type = root.lookupType(name);
+	const message = type.toObject(type.decode(buffer.subarray(OPCODE_SIZE)), {defaults: true, longs: String});
+	return {name, message} as DecodedMessage;
+}
+`;
+
+	/** Returns the content of the TypeScript module */
+	public static generate(schema: Schema): string {
+		const messages = schema.types.filter(type => type.kind == ProtoClassType.Message);
+		const services = schema.types.filter(type => type.kind == ProtoClassType.Service);
+		const descriptor = JSON.stringify(TypeScriptTarget.getDescriptor(schema), null, "\t");
+		const enumNames = TypeScriptTarget.getEnumNames(schema.types);
+		const lines = [
+			"// Generated by the server, do not edit.",
+			`import protobuf from "protobufjs/light.js";`,
+			"",
+			"/** The opcode size in bytes */",
+			`export const OPCODE_SIZE = ${schema.opcodeSize};`,
+			"",
+			"/** The opcodes of the messages (sent by the server) and the services (sent by the client) */",
+			"export const Opcodes = {",
+			...[...messages, ...services].map(type => `\t${type.name}: ${type.opcode},`),
+			"} as const;",
+			"",
+			...TypeScriptTarget.generateEnums(enumNames),
+		];
+		for (const type of schema.types) {
+			lines.push(...TypeScriptTarget.generateInterface(type, enumNames), "");
+		}
+		lines.push(
+			"/** The messages that are sent by the server */",
+			"export interface Messages {",
+			...messages.map(type => `\t${type.name}: ${type.name};`),
+			"}",
+			"",
+			"/** The services that are sent by the client */",
+			"export interface Services {",
+			...services.map(type => `\t${type.name}: ${type.name};`),
+			"}",
+			"",
+			"const messageNames: {[opcode: number]: keyof Messages} = {",
+			...messages.map(type => `\t${type.opcode}: "${type.name}",`),
+			"};",
+			"",
+			`const root = protobuf.Root.fromJSON(${descriptor});`,
+			TypeScriptTarget.functions,
+		);
+		return lines.join("\n");
+	}
+
+	/**
+	 * Returns a map whose keys are the enums that are used in the given types and values are their TypeScript names.
+	 * The enums with the same name and the same values share the name,
+	 * the enums with the same name but different values are prefixed with the names of the types that use them
+	 */
+	private static getEnumNames(types: SchemaType[]): Map<SchemaEnum, string> {
+		const enumsByName = new Map<string, [SchemaType, SchemaEnum][]>;
+		for (const type of types) {
+			for (const enumType of type.enums) {
+				MapUtil.getArray(enumsByName, enumType.name).push([type, enumType]);
+			}
+		}
+		const enumNames = new Map<SchemaEnum, string>;
+		for (const [name, enums] of enumsByName) {
+			const isConflict = enums.some(([, {values}]) => !_.isEqual(values, enums[0][1].values));
+			for (const [type, enumType] of enums) {
+				enumNames.set(enumType, (isConflict ? `${type.name}${name}` : name));
+			}
+		}
+		return enumNames;
+	}
+
+	/** Returns the declarations of the given enums (see {@link TypeScriptTarget.getEnumNames}), each name only once */
+	private static generateEnums(enumNames: Map<SchemaEnum, string>): string[] {
+		const generated = new Set<string>;
+		const lines: string[] = [];
+		for (const [{values}, name] of enumNames) {
+			if (generated.has(name)) {
+				continue;
+			}
+			generated.add(name);
+			lines.push(`export enum ${name} {`);
+			for (const [valueName, value] of Object.entries(values)) {
+				lines.push(`\t${valueName} = ${value},`);
+			}
+			lines.push("}", "");
+		}
+		return lines;
+	}
+
+	/** Returns the interface of the given type. The fields with other types are optional, as they can be unset */
+	private static generateInterface(type: SchemaType, enumNames: Map<SchemaEnum, string>): string[] {
+		return [
+			`/** ${TypeScriptTarget.getDescription(type)} */`,
+			`export interface ${type.name} {`,
+			...type.fields.map(field => {
+				const enumType = type.enums.find(enumType => enumType.name == field.type);
+				const fieldType = TypeScriptTarget.typeMap[field.type] ?? (enumType && enumNames.get(enumType)) ?? field.type;
+				if (field.repeated) {
+					return `\t${field.name}: ${fieldType}[];`;
+				} else if (TypeScriptTarget.isEnumOrScalar(type, field)) {
+					return `\t${field.name}: ${fieldType};`;
+				}
+				return `\t${field.name}?: ${fieldType} | null;`;
+			}),
+			"}",
+		];
+	}
+
+	/** Returns the description of the given type */
+	private static getDescription(type: SchemaType): string {
+		if (type.kind == ProtoClassType.Message) {
+			return "A message that is sent by the server";
+		} else if (type.kind == ProtoClassType.Service) {
+			return "A service that is sent by the client";
+		}
+		return "A type that is used in messages and services";
+	}
+
+	/** Returns `true` if the given field of the given type is a scalar or an enum (i.e. it has a default value) */
+	private static isEnumOrScalar(type: SchemaType, field: SchemaField): boolean {
+		return field.type in TypeScriptTarget.typeMap || type.enums.some(enumType => enumType.name == field.type);
+	}
+
+	/** Returns the protobufjs JSON descriptor of the given schema */
+	private static getDescriptor(schema: Schema): object {
+		const nested: {[name: string]: object} = {};
+		for (const type of schema.types) {
+			const fields: {[name: string]: object} = {};
+			for (const {id, name, type: fieldType, repeated} of type.fields) {
+				fields[name] = {type: fieldType, id, ...(repeated ? {rule: "repeated"} : {})};
+			}
+			const enums: {[name: string]: object} = {};
+			for (const {name, values} of type.enums) {
+				enums[name] = {values};
+			}
+			nested[type.name] = {fields, ...(type.enums.length > 0 ? {nested: enums} : {})};
+		}
+		return {nested};
+	}
+}
\ No newline at end of file
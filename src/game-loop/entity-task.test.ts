@@ -0,0 +1,65 @@
+import assert from "assert/strict";
+import {after, before, mock, test} from "node:test";
+import {Int32, Typings} from "../core/typings.js";
+import DB from "../orm/db.js";
+import Entity from "../orm/entity.js";
+import ORM from "../orm/orm.js";
+import ClassLoader from "../type-analyzer/class-loader.js";
+import TypeAnalyzer from "../type-analyzer/type-analyzer.js";
+import EntityTask from "./entity-task.js";
+import GameLoop from "./game-loop.js";
+import {TaskParameters} from "./task.js";
+
+const frequency = 16;
+const executions: number[] = [];
+
+export class TestBot extends Entity {
+	public hp!: Int32;
+}
+
+export class TestBotTask extends EntityTask<TestBot> {
+	public static params: TaskParameters = {frequency: frequency * 2};
+
+	protected run(_delta: number, bot: TestBot): void {
+		executions.push(bot.id);
+	}
+}
+
+async function advanceTimers(ms: number): Promise<void> {
+	for (let i = 0; i < ms; i++) {
+		mock.timers.tick(1);
+		await new Promise(process.nextTick);
+	}
+}
+
+const db = new DB("postgres://localhost/test-draco-ts");
+mock.timers.enable();
+before(async () => {
+	GameLoop.init(frequency);
+	TypeAnalyzer.init(["**/game-loop/*.d.ts", "**/orm/*.d.ts", "**/typings.d.ts", "**/vector.d.ts"]);
+	const entities = [await ClassLoader.findOrThrowWithInfo(TestBot)];
+	const entityTasks = [await ClassLoader.findOrThrowWithInfo(TestBotTask)];
+	await ORM.init(db, entities, await ClassLoader.findOrThrow(Typings), entityTasks);
+});
+
+after(async () => {
+	GameLoop.stop();
+	ORM.stop();
+	await db.close();
+});
+
+test("EntityTask", async ctx => {
+	assert.deepEqual(ORM.getMetadata(TestBot).tasks, [TestBotTask]);
+	ctx.mock.method(db, "select", () => Promise.resolve([{id: 1, hp: 100}]));
+
+	const bot = await TestBot.get(1);
+	assert(bot);
+	await advanceTimers(frequency);
+	assert.deepEqual(executions, []);
+	await advanceTimers(frequency);
+	assert.deepEqual(executions, [1]);
+
+	bot.remove();
+	await advanceTimers(frequency * 4);
+	assert.deepEqual(executions, [1]);
+});
\ No newline at end of file
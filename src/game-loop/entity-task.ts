@@ -1,4 +1,5 @@
 import Entity from "../orm/entity.js";
+import {TaskParameters} from "./task.js";
 import WeakTask from "./weak-task.js";
 
 /**
@@ -6,6 +7,20 @@ import WeakTask from "./weak-task.js";
  *
  * The only difference to WeakTask is that this class is integrated with ORM.
  * That means that if your class extends `EntityTask<SomeEntity>`,
- * the ORM will automatically use this task for `SomeEntity` whenever an entity is loaded.
+ * the ORM will automatically use this task for `SomeEntity` whenever an entity is loaded
+ * (or created), and the task will be stopped when the entity is removed.
+ * The task parameters can be specified in the static field {@link EntityTask.params}, e.g.:
+ * ```ts
+ * export default class BotTask extends EntityTask<Bot> {
+ *   public static params: TaskParameters = {frequency: 1000};
+ *
+ *   protected run(delta: number, bot: Bot) {
+ *     // do something
+ *   }
+ * }
+ * ```
  */
-export default abstract class EntityTask<T extends Entity> extends WeakTask<T> {}
\ No newline at end of file
+export default abstract class EntityTask<T extends Entity> extends WeakTask<T> {
+	/** The parameters of the tasks that are started automatically, see {@link TaskParameters} */
+	public static params: TaskParameters = {};
+}
\ No newline at end of file
@@ -0,0 +1,56 @@
+import _ from "lodash";
+import {performance} from "perf_hooks";
+import SpatialHash from "./spatial-hash.js";
+import {Vec2i, Vector2i} from "./vector.js";
+
+/**
+ * Compares the spatial hash with the linear scan over all entities. Run it with `npm run bench` after building.
+ * The entity and query counts can be changed with the arguments, e.g. `npm run bench -- 100000 1000`
+ */
+const entityCount = Number(process.argv[2] || 10000);
+const queryCount = Number(process.argv[3] || 1000);
+const mapSize = Math.ceil(Math.sqrt(entityCount) * 10);
+const randomPosition = (): Vector2i => Vec2i(_.random(mapSize), _.random(mapSize));
+const positions = _.range(entityCount).map(randomPosition);
+const centers = _.range(queryCount).map(randomPosition);
+const hash = new SpatialHash<number, Vector2i>(8);
+
+/** Runs the given function and returns the elapsed time per run in microseconds */
+function measure(runCount: number, run: (i: number) => unknown): number {
+	const start = performance.now();
+	for (let i = 0; i < runCount; i++) {
+		run(i);
+	}
+	return _.round((performance.now() - start) * 1000 / runCount, 2);
+}
+
+const results = [
+	{
+		operation: "insert",
+		spatialHash: measure(entityCount, i => hash.insert(i, positions[i])),
+	},
+	{
+		operation: "move",
+		spatialHash: measure(entityCount, i => hash.move(i, positions[i].add(Vec2i(1, 0)))),
+	},
+	{
+		operation: "findInRadius (r = 2)",
+		spatialHash: measure(queryCount, i => hash.findInRadius(centers[i], 2)),
+		linearScan: measure(queryCount, i => positions.filter(position => centers[i].distanceTo(position) <= 2)),
+	},
+	{
+		operation: "findInRectangle (16x16)",
+		spatialHash: measure(queryCount, i => hash.findInRectangle(centers[i], centers[i].add(Vec2i(16, 16)))),
+		linearScan: measure(queryCount, i => positions.filter(position => (
+			position.x >= centers[i].x && position.x <= centers[i].x + 16 &&
+			position.y >= centers[i].y && position.y <= centers[i].y + 16
+		))),
+	},
+	{
+		operation: "findNearest (k = 5)",
+		spatialHash: measure(queryCount, i => hash.findNearest(centers[i], 5)),
+		linearScan: measure(queryCount, i => _.sortBy(positions, position => centers[i].distanceTo(position)).slice(0, 5)),
+	},
+];
+console.log(`${entityCount} entities on the map ${mapSize}x${mapSize}, time per operation in microseconds:`);
+console.table(results);
\ No newline at end of file
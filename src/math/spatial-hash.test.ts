@@ -0,0 +1,94 @@
+import assert from "assert/strict";
+import _ from "lodash";
+import {test} from "node:test";
+import SpatialHash, {SpatialVector} from "./spatial-hash.js";
+import {Vec2f, Vec2i, Vec3f, Vector2f, Vector2i, Vector3f} from "./vector.js";
+
+/** Returns a pseudo-random number generator with the given seed, so that the tests are reproducible */
+function createRandom(seed: number): (min: number, max: number) => number {
+	return (min: number, max: number): number => {
+		seed = (seed * 16807) % 2147483647;
+		return min + (seed / 2147483647) * (max - min);
+	};
+}
+
+/** Returns `true` if the given position is in the box with the given corners (inclusive) */
+function isInBox(position: SpatialVector, min: SpatialVector, max: SpatialVector): boolean {
+	const getComponents = (v: SpatialVector): number[] => ("z" in v ? [v.x, v.y, v.z] : [v.x, v.y]);
+	const [components, minComponents, maxComponents] = [position, min, max].map(getComponents);
+	return components.every((component, i) => component >= minComponents[i] && component <= maxComponents[i]);
+}
+
+/** Inserts the given positions and compares the results of the queries with the results of the brute force search */
+function check<V extends SpatialVector>(positions: V[], center: V, min: V, max: V, staggeredMap = false): void {
+	const hash = new SpatialHash<number, V>(4, staggeredMap);
+	positions.forEach((position, i) => hash.insert(i, position));
+	const distances = positions.map(position => center.distanceTo(position, staggeredMap));
+
+	for (const radius of [0, 1, 2.5, 7, 100]) {
+		const expected = _.range(positions.length).filter(i => distances[i] <= radius);
+		assert.deepEqual(_.sortBy(hash.findInRadius(center, radius)), expected);
+	}
+
+	const expectedInBox = _.range(positions.length).filter(i => isInBox(positions[i], min, max));
+	assert(expectedInBox.length > 0);
+	assert.deepEqual(_.sortBy(hash.findInRectangle(max, min)), expectedInBox);
+
+	for (const [count, maxDistance] of [[1, Infinity], [5, Infinity], [5, 3], [positions.length + 1, Infinity]]) {
+		const nearest = hash.findNearest(center, count, maxDistance);
+		const expected = _.sortBy(distances.filter(distance => distance <= maxDistance)).slice(0, count);
+		assert.deepEqual(nearest.map(i => distances[i]), expected);
+	}
+}
+
+test("insert, move and remove", () => {
+	const hash = new SpatialHash<string, Vector2i>(4);
+	hash.insert("a", Vec2i(1, 1));
+	hash.insert("b", Vec2i(-1, 1));
+	hash.insert("c", Vec2i(10, 10));
+	assert.equal(hash.getSize(), 3);
+	assert.deepEqual(hash.findInRadius(Vec2i(0, 0), 2), ["a", "b"]);
+	assert.deepEqual(hash.findNearest(Vec2i(9, 9), 2), ["c", "a"]);
+
+	hash.move("a", Vec2i(3, 3));
+	assert.deepEqual(hash.getPosition("a"), Vec2i(3, 3));
+	hash.move("a", Vec2i(20, 20));
+	assert.deepEqual(hash.findInRadius(Vec2i(0, 0), 2), ["b"]);
+	assert.deepEqual(hash.findInRectangle(Vec2i(10, 10), Vec2i(30, 20)), ["c", "a"]);
+	assert.throws(() => hash.move("d", Vec2i(0, 0)), /not inserted/);
+
+	assert(hash.remove("a"));
+	assert(!hash.remove("a"));
+	assert(!hash.has("a"));
+	assert.equal(hash.getPosition("a"), undefined);
+	assert.deepEqual(hash.findNearest(Vec2i(1000, -1000), 5), ["c", "b"]);
+	hash.clear();
+	assert.equal(hash.getSize(), 0);
+	assert.deepEqual(hash.findNearest(Vec2i(0, 0)), []);
+});
+
+test("staggered map", () => {
+	const hash = new SpatialHash<string, Vector2i>(4, true);
+	hash.insert("a", Vec2i(0, 3));
+	hash.insert("b", Vec2i(2, 0));
+	// The distance to "a" is 1.5 and to "b" is 2 on a staggered map
+	assert.deepEqual(hash.findInRadius(Vec2i(0, 0), 1.5), ["a"]);
+	assert.deepEqual(hash.findNearest(Vec2i(0, 0), 2), ["a", "b"]);
+
+	const random = createRandom(1);
+	const positions = _.range(300).map(() => Vec2i(Math.round(random(-50, 50)), Math.round(random(-50, 50))));
+	check(positions, Vec2i(3, -7), Vec2i(-10, -20), Vec2i(10, 5), true);
+});
+
+test("Vector2f", () => {
+	const random = createRandom(2);
+	const positions: Vector2f[] = _.range(300).map(() => Vec2f(random(-50, 50), random(-50, 50)));
+	check(positions, Vec2f(0.5, -2.25), Vec2f(-10.5, -20), Vec2f(10, 5.5));
+	check(positions, Vec2f(500, 500), Vec2f(-50, -50), Vec2f(50, 50));
+});
+
+test("Vector3f", () => {
+	const random = createRandom(3);
+	const positions: Vector3f[] = _.range(500).map(() => Vec3f(random(-20, 20), random(-20, 20), random(-20, 20)));
+	check(positions, Vec3f(1, 2, 3), Vec3f(-10, -10, -10), Vec3f(10, 5, 0));
+});
\ No newline at end of file
@@ -0,0 +1,245 @@
+import assert from "assert/strict";
+import {Vector2f, Vector2i, Vector3f, Vector3i} from "./vector.js";
+
+/** The vectors that can be used as positions in {@link SpatialHash} */
+export type SpatialVector = Vector2f | Vector2i | Vector3f | Vector3i;
+
+/** A cell of {@link SpatialHash} */
+interface Cell<T> {
+	/** The coordinates of the cell, i.e. the components of the positions divided by the cell size and floored */
+	coordinates: number[];
+	items: Set<T>;
+}
+
+/** The position of an item of {@link SpatialHash} */
+interface Entry<V> {
+	position: V;
+	/** The key of the cell of the item */
+	key: string;
+}
+
+/**
+ * A spatial index that stores items (e.g. entities) with their positions and quickly finds the items
+ * near a given position. The space is divided into cubic cells of the size `cellSize`, the items are stored
+ * in the cells that contain their positions, so that a query only checks the cells in its range.
+ * The cell size should be about the typical query radius, e.g. several tiles.
+ *
+ * If `staggeredMap` is true, the distances are calculated as in {@link Vector.distanceTo} for staggered maps,
+ * i.e. the distance in Y-component is divided by 2.
+ *
+ * Example of use:
+ * ```ts
+ * const items = new SpatialHash<Item, Vector2i>(8);
+ * items.insert(item, item.position);
+ * items.move(item, Vec2i(5, 3));
+ * const nearbyItems = items.findInRadius(character.position, 2);
+ * const [nearestEnemy] = enemies.findNearest(character.position);
+ * items.remove(item);
+ * ```
+ */
+export default class SpatialHash<T, V extends SpatialVector = Vector2f> {
+	private readonly cells = new Map<string, Cell<T>>;
+	private readonly entries = new Map<T, Entry<V>>;
+
+	/** Creates a spatial hash with the given cell size (in the position units) */
+	public constructor(private readonly cellSize = 8, private readonly staggeredMap = false) {
+		assert(cellSize > 0, "The cell size should be positive.");
+	}
+
+	/** Returns the components of the given vector */
+	private static getComponents(v: SpatialVector): number[] {
+		return ("z" in v ? [v.x, v.y, v.z] : [v.x, v.y]);
+	}
+
+	/** Returns the number of the items */
+	public getSize(): number {
+		return this.entries.size;
+	}
+
+	/** Returns `true` if the given item was inserted */
+	public has(item: T): boolean {
+		return this.entries.has(item);
+	}
+
+	/** Returns the position of the given item or `undefined` if it was not inserted */
+	public getPosition(item: T): V | undefined {
+		return this.entries.get(item)?.position;
+	}
+
+	/** Inserts the given item with the given position. If the item was already inserted, it is moved */
+	public insert(item: T, position: V): void {
+		const coordinates = this.getCellCoordinates(SpatialHash.getComponents(position));
+		const key = coordinates.join(",");
+		const entry = this.entries.get(item);
+		if (entry) {
+			entry.position = position;
+			if (entry.key == key) {
+				return;
+			}
+			this.removeFromCell(item, entry.key);
+			entry.key = key;
+		} else {
+			this.entries.set(item, {position, key});
+		}
+		let cell = this.cells.get(key);
+		if (!cell) {
+			cell = {coordinates, items: new Set};
+			this.cells.set(key, cell);
+		}
+		cell.items.add(item);
+	}
+
+	/** Moves the given item to the given position. The item should be already inserted */
+	public move(item: T, position: V): void {
+		assert(this.entries.has(item), "The item to move was not inserted.");
+		this.insert(item, position);
+	}
+
+	/** Removes the given item. Returns `false` if it was not inserted */
+	public remove(item: T): boolean {
+		const entry = this.entries.get(item);
+		if (!entry) {
+			return false;
+		}
+		this.entries.delete(item);
+		this.removeFromCell(item, entry.key);
+		return true;
+	}
+
+	/** Removes all items */
+	public clear(): void {
+		this.cells.clear();
+		this.entries.clear();
+	}
+
+	/** Returns the items whose distance to the given position is not greater than the given radius */
+	public findInRadius(center: V, radius: number): T[] {
+		const components = SpatialHash.getComponents(center);
+		const min = components.map((component, i) => component - radius * this.getAxisScale(i));
+		const max = components.map((component, i) => component + radius * this.getAxisScale(i));
+		const radiusSquared = radius ** 2;
+		const result: T[] = [];
+		for (const cell of this.getCells(this.getCellCoordinates(min), this.getCellCoordinates(max))) {
+			for (const item of cell.items) {
+				if (center.distanceSquaredTo(this.entries.get(item)!.position, this.staggeredMap) <= radiusSquared) {
+					result.push(item);
+				}
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Returns the items in the rectangle (or in the box for 3D vectors) with the given opposite corners.
+	 * The borders are included. It doesn't depend on `staggeredMap`
+	 */
+	public findInRectangle(from: V, to: V): T[] {
+		const fromComponents = SpatialHash.getComponents(from);
+		const toComponents = SpatialHash.getComponents(to);
+		const min = fromComponents.map((component, i) => Math.min(component, toComponents[i]));
+		const max = fromComponents.map((component, i) => Math.max(component, toComponents[i]));
+		const result: T[] = [];
+		for (const cell of this.getCells(this.getCellCoordinates(min), this.getCellCoordinates(max))) {
+			for (const item of cell.items) {
+				const components = SpatialHash.getComponents(this.entries.get(item)!.position);
+				if (components.every((component, i) => component >= min[i] && component <= max[i])) {
+					result.push(item);
+				}
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Returns up to `count` items that are nearest to the given position, sorted by the distance.
+	 * The items that are farther than `maxDistance` are ignored.
+	 * The cells are checked in the rings around the cell of the position, until no closer items can be found
+	 */
+	public findNearest(center: V, count = 1, maxDistance = Infinity): T[] {
+		const components = SpatialHash.getComponents(center);
+		const centerCell = this.getCellCoordinates(components);
+		const maxDistanceSquared = maxDistance ** 2;
+		const candidates: {item: T, distanceSquared: number}[] = [];
+		let checkedCount = 0;
+		for (let ring = 0; count > 0 && checkedCount < this.entries.size; ring++) {
+			// If the ring is too large (e.g. the items are far away), the rest of the cells are checked at once
+			const lastRing = ((2 * ring + 1) ** centerCell.length > this.cells.size ? Infinity : ring);
+			const min = centerCell.map(coordinate => coordinate - lastRing);
+			const max = centerCell.map(coordinate => coordinate + lastRing);
+			for (const cell of this.getCells(min, max)) {
+				if (cell.coordinates.every((coordinate, i) => Math.abs(coordinate - centerCell[i]) < ring)) {
+					continue;
+				}
+				for (const item of cell.items) {
+					const position = this.entries.get(item)!.position;
+					const distanceSquared = center.distanceSquaredTo(position, this.staggeredMap);
+					if (distanceSquared <= maxDistanceSquared) {
+						candidates.push({item, distanceSquared});
+					}
+				}
+				checkedCount += cell.items.size;
+			}
+			candidates.sort((a, b) => a.distanceSquared - b.distanceSquared);
+			candidates.length = Math.min(candidates.length, count);
+
+			// The items outside of the checked cells are not closer than the distance to the border of these cells
+			const uncheckedDistance = Math.min(...components.map((component, i) => Math.min(
+				component - (centerCell[i] - ring) * this.cellSize,
+				(centerCell[i] + ring + 1) * this.cellSize - component
+			) / this.getAxisScale(i)));
+			const bestDistanceSquared = candidates[count - 1]?.distanceSquared ?? Infinity;
+			if (uncheckedDistance ** 2 >= bestDistanceSquared || uncheckedDistance > maxDistance) {
+				break;
+			}
+		}
+		return candidates.map(candidate => candidate.item);
+	}
+
+	/** Returns the factor by which the distance in the given axis is multiplied (2 for Y on staggered maps) */
+	private getAxisScale(axis: number): number {
+		return (axis == 1 && this.staggeredMap ? 2 : 1);
+	}
+
+	/** Returns the coordinates of the cell that contains the position with the given components */
+	private getCellCoordinates(components: number[]): number[] {
+		return components.map(component => Math.floor(component / this.cellSize));
+	}
+
+	/**
+	 * Returns the non-empty cells whose coordinates are between the given ones (inclusive).
+	 * If the range is larger than the number of the non-empty cells, these cells are filtered instead
+	 */
+	private getCells(min: number[], max: number[]): Cell<T>[] {
+		const rangeSize = min.reduce((product, coordinate, i) => product * (max[i] - coordinate + 1), 1);
+		if (rangeSize > this.cells.size) {
+			return Array.from(this.cells.values()).filter(cell => cell.coordinates.every((coordinate, i) => (
+				coordinate >= min[i] && coordinate <= max[i]
+			)));
+		}
+		const cells: Cell<T>[] = [];
+		for (let index = 0; index < rangeSize; index++) {
+			// The index is split into the offsets in each axis like a number with mixed radices
+			let rest = index;
+			const coordinates = min.map((coordinate, i) => {
+				const axisSize = max[i] - coordinate + 1;
+				const offset = rest % axisSize;
+				rest = Math.floor(rest / axisSize);
+				return coordinate + offset;
+			});
+			const cell = this.cells.get(coordinates.join(","));
+			if (cell) {
+				cells.push(cell);
+			}
+		}
+		return cells;
+	}
+
+	/** Removes the given item from the cell with the given key, the cell is removed if it becomes empty */
+	private removeFromCell(item: T, key: string): void {
+		const cell = this.cells.get(key);
+		cell?.items.delete(item);
+		if (cell && cell.items.size < 1) {
+			this.cells.delete(key);
+		}
+	}
+}
\ No newline at end of file
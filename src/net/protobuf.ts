@@ -4,7 +4,7 @@ import {Class, Constructor, PropertiesOf, Typings} from "../core/typings.js";
 import {Vector2f, Vector2i, Vector3f, Vector3i} from "../math/vector.js";
 import ClassInfo, {ClassWithInfo} from "../type-analyzer/class-info.js";
 import TypeAnalyzer from "../type-analyzer/type-analyzer.js";
-import {Kind, PropertyType} from "../type-analyzer/type-analyzer.typings.js";
+import {Kind, PropertyInfo, PropertyType} from "../type-analyzer/type-analyzer.typings.js";
 import BaseProtoClass from "./base-proto-class.js";
 import Message from "./message.js";
 import Service from "./service.js";
@@ -17,7 +17,7 @@ interface ProtobufFieldInfo {
 }
 
 /** Type of proto class */
-enum ProtoClassType {
+export enum ProtoClassType {
 	/** A message can be sent to a user */
 	Message,
 	/** A service is a message received from a user */
@@ -44,6 +44,8 @@ export default class Protobuf {
 	private static readonly logger = new Logger(Protobuf);
 	/** See {@link AppConfig.opcodeSize} */
 	private static opcodeSize = 0;
+	/** The opcode of the next message, see {@link Protobuf.addMessage} */
+	private static nextMessageOpcode = 1;
 	/** A map whose keys are opcodes and values are proto classes */
 	private static readonly classByOpcodeMap = new Map<number, typeof BaseProtoClass>;
 	/** A map whose keys are proto classes and values are opcodes */
@@ -65,6 +67,35 @@ export default class Protobuf {
 		Protobuf.initClasses(services, Service, typings);
 	}
 
+	/**
+	 * Adds a message class that has no class info, e.g. a class generated at runtime (see {@link Synchronizer}).
+	 * The fields are created from the given properties. The message gets the next opcode after other messages,
+	 * so all messages should be added before the users are connected
+	 */
+	public static addMessage(MessageClass: typeof Message, properties: PropertyInfo[], typings: ClassInfo): void {
+		const opcode = Protobuf.nextMessageOpcode;
+		if (Protobuf.classByOpcodeMap.has(opcode) || opcode > 2 ** (Protobuf.opcodeSize * 8) - 1) {
+			Protobuf.logger.error(`Too many message and service classes, ${MessageClass.name} was skipped.`);
+			return;
+		}
+		const protobufType = Protobuf.createType(MessageClass.name, properties, typings);
+		Protobuf.addToJSONInfo(protobufType, opcode, ProtoClassType.Message);
+		Protobuf.classesByNameMap.set(MessageClass.name, MessageClass);
+		Protobuf.classByOpcodeMap.set(opcode, MessageClass);
+		Protobuf.opcodeByClassMap.set(MessageClass, opcode);
+		Protobuf.nextMessageOpcode++;
+	}
+
+	/** Returns the opcode size in bytes, see {@link AppConfig.opcodeSize} */
+	public static getOpcodeSize(): number {
+		return Protobuf.opcodeSize;
+	}
+
+	/** Returns the protobuf type of the proto class with the given name (e.g. to export it, see {@link Exporter}) */
+	public static getType(name: string): protobuf.Type | undefined {
+		return Protobuf.protobufByNameMap.get(name);
+	}
+
 	/**
 	 * Encodes the given message as a buffer with opcode so that it can be then sent to the user.
 	 * Returns an empty buffer in case of failure
@@ -166,6 +197,9 @@ export default class Protobuf {
 				Protobuf.logger.error(`Too many message and service classes: limit of ${opcodeLimit} reached.`);
 				return;
 			}
+			if (!isService) {
+				Protobuf.nextMessageOpcode = opcode;
+			}
 		}
 	}
 
@@ -199,12 +233,17 @@ export default class Protobuf {
 			return null;
 		}
 
+		return Protobuf.createType(name, classInfo.getAllProperties(), typings);
+	}
+
+	/** Creates a protobuf type with the given name and the fields for the given (non-static) properties */
+	private static createType(name: string, properties: PropertyInfo[], typings: ClassInfo): protobuf.Type {
 		const protobufType = new protobuf.Type(name);
 		Protobuf.root.add(protobufType);
 		Protobuf.protobufByNameMap.set(name, protobufType);
 		let id = 1;
 		const enums = new Set<string>;
-		for (const property of classInfo.getAllProperties()) {
+		for (const property of properties) {
 			if (property.static) {
 				continue;
 			}
@@ -1,6 +1,7 @@
 import assert from "assert/strict";
 import {AsyncLocalStorage} from "node:async_hooks";
 import Logger from "../core/logger.js";
+import ConcurrencyConflictError from "../orm/concurrency-conflict-error.js";
 import BaseProtoClass from "./base-proto-class.js";
 import Session from "./session.js";
 
@@ -34,6 +35,12 @@ export interface ServiceOptions {
 	 * of the same service finishes running.
 	 */
 	allowSimultaneously?: boolean;
+	/**
+	 * If set to `true`, {@link DB.select} reads from the primary database in this service
+	 * rather than from the read replicas (see {@link ConnectionOptions.replicaUrls}), so that the service
+	 * always sees its own writes. See also {@link Service.pinToPrimary}
+	 */
+	readFromPrimary?: boolean;
 }
 
 /**
@@ -66,6 +73,8 @@ export interface ServiceOptions {
  */
 export default abstract class Service extends BaseProtoClass {
 	public static readonly logger = new Logger(Service);
+	/** How many times the service can be run again after {@link ConcurrencyConflictError}, see {@link Service.onConflict} */
+	public static readonly MAX_CONFLICT_RETRIES = 3;
 	/** See {@link ServiceOptions} for details */
 	public static options: ServiceOptions = {};
 	protected session!: Session;
@@ -73,6 +82,8 @@ export default abstract class Service extends BaseProtoClass {
 	private static asyncLocalStorage = new AsyncLocalStorage();
 	/** Saves whether some entities were modified with this service */
 	private hasModifiedEntities = false;
+	/** Whether this service reads from the primary database, see {@link Service.pinToPrimary} */
+	private pinnedToPrimary = false;
 
 	/**
 	 * Executes a service. Includes all steps (rate limiting, preparing, validating, running etc.).
@@ -105,13 +116,14 @@ export default abstract class Service extends BaseProtoClass {
 		if (!options.allowSimultaneously && !session.lockService(ServiceClass)) {
 			return;
 		}
+		this.pinnedToPrimary = !!options.readFromPrimary;
 		try {
 			await Service.asyncLocalStorage.run(this, async () => {
 				await this.prepare?.(this);
 				if (this.validate && !(await this.validate(this))) {
 					Service.logger.warn(`User input for ${ServiceClass.name} failed validation.`);
 				} else {
-					await this.run!(this);
+					await this.runWithRetries();
 				}
 			});
 		} catch(e) {
@@ -130,12 +142,37 @@ export default abstract class Service extends BaseProtoClass {
 	 * See also {@link ServiceOptions.limitAlways}
 	 */
 	public static trackChange(): void {
+		const service = Service.getCurrent();
+		if (service) {
+			service.hasModifiedEntities = true;
+		}
+	}
+
+	/**
+	 * Pins the service that is running the current code to the primary database: the rest of this service
+	 * reads from the primary (see {@link ServiceOptions.readFromPrimary}). Call it after a write
+	 * if the service should read its result ("read your writes"), as the replicas may lag behind
+	 */
+	public static pinToPrimary(): void {
+		const service = Service.getCurrent();
+		if (service) {
+			service.pinnedToPrimary = true;
+		}
+	}
+
+	/** Returns whether the current code should read from the primary database, see {@link Service.pinToPrimary} */
+	public static isPinnedToPrimary(): boolean {
+		return Service.getCurrent()?.pinnedToPrimary ?? false;
+	}
+
+	/** Returns the service that is running the current code, or `undefined` if the code is not run by a service */
+	public static getCurrent(): Service | undefined {
 		const service = Service.asyncLocalStorage.getStore();
 		if (service === undefined) {
-			return;
+			return undefined;
 		}
 		assert(service instanceof Service);
-		service.hasModifiedEntities = true;
+		return service;
 	}
 
 	/** Prepares data before other steps */
@@ -163,9 +200,38 @@ export default abstract class Service extends BaseProtoClass {
 	 */
 	public getSpeed?(service: this): number | Promise<number>;
 
+	/**
+	 * Called if {@link Service.run} failed with {@link ConcurrencyConflictError}, i.e. some entities were changed
+	 * concurrently by another server or service (this error can be thrown by {@link ORM.flush} or {@link DB.update}
+	 * called in the service, see {@link EntityOptions.versioned}). The stale entities are already reloaded
+	 * (see {@link ConcurrencyConflictError.entities}), and other data can be reloaded here if necessary.
+	 * Return `true` to run the service again (at most {@link Service.MAX_CONFLICT_RETRIES} times)
+	 */
+	public onConflict?(service: this, error: ConcurrencyConflictError): boolean | Promise<boolean>;
+
 	/**
 	 * If specified, the request sent too early will be rejected (instead of being delaying)
 	 * and this method will be called
 	 */
 	public errorOnLimit?(service: this): void | Promise<void>;
+
+	/** Runs the service. If it fails with {@link ConcurrencyConflictError}, it is run again if allowed by onConflict */
+	private async runWithRetries(): Promise<void> {
+		for (let attempt = 1; ; attempt++) {
+			try {
+				await this.run!(this);
+				return;
+			} catch (e) {
+				if (
+					!(e instanceof ConcurrencyConflictError) || !this.onConflict ||
+					attempt > Service.MAX_CONFLICT_RETRIES || !(await this.onConflict(this, e))
+				) {
+					throw e;
+				}
+				Service.logger.warn(
+					`${this.constructor.name} had a concurrency conflict, retrying (${attempt}/${Service.MAX_CONFLICT_RETRIES})...`
+				);
+			}
+		}
+	}
 }
\ No newline at end of file
@@ -5,6 +5,7 @@ import {setTimeout} from "timers/promises";
 import {promisify} from "util";
 import Timeout from "../game-loop/timeout.js";
 import {AuthorizableEntity} from "../orm/authorizable-entity.js";
+import Synchronizer from "../sync/synchronizer.js";
 import Message from "./message.js";
 import Protobuf from "./protobuf.js";
 import Service from "./service.js";
@@ -164,6 +165,7 @@ export default class Session {
 	public close(): void {
 		assert(!this.closed);
 		this.logOut();
+		Synchronizer.forgetSession(this);
 		this.udpSocket?.close();
 		this.webSocket?.end();
 		Session.sessionByToken.delete(this.token.toString("base64"));
@@ -0,0 +1,49 @@
+/**
+ * Some aggregate function that can be used in the selected fields (see {@link SelectOptions.aggregates}).
+ * For example, this query selects the number of items and the total weight for each owner:
+ * ```ts
+ * await db.select("item", {}, {
+ *   fields: ["owner_id"], aggregates: {count: count(), weight: sum("weight")}, groupBy: ["owner_id"]
+ * });
+ * ```
+ * This is a shortcut for:
+ * ```ts
+ * await db.select("item", {}, {
+ *   fields: ["owner_id"], aggregates: {count: new Aggregate("count"), weight: new Aggregate("sum", "weight")},
+ *   groupBy: ["owner_id"]
+ * });
+ * ```
+ */
+export default class Aggregate {
+	/**
+	 * Creates an instance of some aggregate function over the given field (or over all rows if there is no field).
+	 * If `distinct` is `true`, only distinct values are aggregated
+	 */
+	public constructor(public func: string, public field?: string, public distinct = false) {
+	}
+}
+
+/** The number of rows or (if the field is given) the number of non-null values. See {@link Aggregate} */
+export function count(field?: string, distinct = false): Aggregate {
+	return new Aggregate("count", field, distinct);
+}
+
+/** The sum of the values of the given field. See {@link Aggregate} */
+export function sum(field: string): Aggregate {
+	return new Aggregate("sum", field);
+}
+
+/** The average of the values of the given field. See {@link Aggregate} */
+export function avg(field: string): Aggregate {
+	return new Aggregate("avg", field);
+}
+
+/** The minimum of the values of the given field. See {@link Aggregate} */
+export function min(field: string): Aggregate {
+	return new Aggregate("min", field);
+}
+
+/** The maximum of the values of the given field. See {@link Aggregate} */
+export function max(field: string): Aggregate {
+	return new Aggregate("max", field);
+}
\ No newline at end of file
@@ -3,7 +3,7 @@ import Session from "../net/session.js";
 import WS from "../net/ws.js";
 import Entity, {InMemory} from "./entity.js";
 
-export class AuthorizableEntity extends Entity {
+export abstract class AuthorizableEntity extends Entity {
 	public session?: InMemory<Session>;
 
 	public send(message: Message): void {
@@ -0,0 +1,14 @@
+import Entity from "./entity.js";
+
+/**
+ * This error is thrown if a row was changed concurrently (e.g. by another server or another service)
+ * since it was read, so the write would overwrite these changes (see {@link EntityOptions.versioned}).
+ * The stale entities (if any) are already reloaded from the database when the error is thrown,
+ * so the operation can be retried (see {@link Service.onConflict})
+ */
+export default class ConcurrencyConflictError extends Error {
+	public constructor(message: string, public readonly entities: Entity[] = []) {
+		super(message);
+		this.name = "ConcurrencyConflictError";
+	}
+}
\ No newline at end of file
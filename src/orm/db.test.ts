@@ -1,14 +1,58 @@
 import assert from "assert/strict";
-import {after, before, beforeEach, test} from "node:test";
+import {after, afterEach, before, beforeEach, test} from "node:test";
+import Service from "../net/service.js";
+import {count, max, sum} from "./aggregate.js";
+import ConcurrencyConflictError from "./concurrency-conflict-error.js";
 import DB from "./db.js";
-import {FieldType, IndexType} from "./db.typings.js";
-import {and, between, gt, or} from "./operator.js";
+import {
+	Condition,
+	Database,
+	FieldType,
+	IndexMethod,
+	IndexType,
+	IsolationLevel,
+	JoinType,
+	OrderDirection,
+	ReferentialAction,
+	Row
+} from "./db.typings.js";
+import MemoryDB from "./memory-db.js";
+import {
+	and,
+	arrayContains,
+	arrayIncludes,
+	arrayOverlaps,
+	between,
+	gt,
+	ilike,
+	isNotNull,
+	jsonContains,
+	jsonHasKey,
+	jsonPathExists,
+	like,
+	ne,
+	not,
+	notIn,
+	or,
+	textSearch
+} from "./operator.js";
+import QueryStats from "./query-stats.js";
+import Seeder from "./seeder.js";
 
 let db: DB;
-before(() => {
+/** Drops everything that the tests create, so that a failed test doesn't break the next ones */
+const dropAll = async (): Promise<void> => {
+	for (const table of ["item", "loot", "parity", "record", "user"]) {
+		await db.dropTable(table, {ifExists: true});
+	}
+	await db.dropEnum("rarity", {ifExists: true});
+};
+
+before(async () => {
 	assert.equal(process.env.NODE_ENV, "test");
 	assert(process.env.DB_URL);
 	db = new DB(process.env.DB_URL);
+	await dropAll();
 });
 
 after(async () => {
@@ -16,7 +60,6 @@ after(async () => {
 });
 
 beforeEach(async () => {
-	await db.dropTable("user", {ifExists: true});
 	await db.createTable("user", [
 		{name: "id", type: FieldType.Serial},
 		{name: "name", type: FieldType.Varchar, limit: 10},
@@ -27,6 +70,8 @@ beforeEach(async () => {
 	]);
 });
 
+afterEach(dropAll);
+
 test("CRUD-queries", async () => {
 	assert.deepEqual(
 		await db.select("user"),
@@ -105,5 +150,458 @@ test("CRUD-queries", async () => {
 		[{id: 4, name: "Test-sama"}]
 	);
 
-	// TODO: transactions, columns, indexes, bigints, field types
+	// TODO: columns, indexes, bigints
+});
+
+test("select options", async () => {
+	await db.insert("user", [
+		{name: "Luka", points: 300},
+		{name: "Sama", points: 200},
+		{name: "Test", points: 200},
+		{name: "New user", points: 100},
+	]);
+	await db.createTable("item", [
+		{name: "id", type: FieldType.Serial},
+		{name: "owner_id", type: FieldType.Int},
+		{name: "weight", type: FieldType.Int},
+	], [{field: "id", type: IndexType.Primary}]);
+	await db.insert("item", [{"owner_id": 1, weight: 5}, {"owner_id": 1, weight: 10}, {"owner_id": 2, weight: 1}]);
+
+	const orderBy = [{field: "points", direction: OrderDirection.Desc}, {field: "id"}];
+	assert.deepEqual(
+		await db.select("user", {}, {fields: ["id"], orderBy, limit: 2}),
+		[{id: 1}, {id: 2}]
+	);
+	assert.deepEqual(
+		await db.select("user", {}, {fields: ["id"], orderBy, limit: 2, offset: 2}),
+		[{id: 3}, {id: 4}]
+	);
+	assert.deepEqual(
+		await db.select("user", {}, {fields: ["id"], orderBy, limit: 2, after: [200, 2]}),
+		[{id: 3}, {id: 4}]
+	);
+	assert.deepEqual(
+		await db.select("user", {id: gt(1)}, {fields: ["points"], distinct: true, orderBy: [{field: "points"}]}),
+		[{points: 100}, {points: 200}]
+	);
+	assert.deepEqual(
+		await db.select("user", {}, {
+			fields: ["points"], aggregates: {count: count(), last: max("id")},
+			groupBy: ["points"], having: {count: gt(1)},
+		}),
+		[{points: 200, count: 2n, last: 3}]
+	);
+	assert.deepEqual(
+		await db.select("item", {"user.points": 300}, {
+			fields: ["user.name"], aggregates: {weight: sum("item.weight")},
+			joins: [{table: "user", on: {"user.id": "item.owner_id"}}], groupBy: ["user.name"],
+		}),
+		[{name: "Luka", weight: 15n}]
+	);
+	assert.deepEqual(
+		await db.select("user", {}, {
+			fields: ["user.id"], aggregates: {items: count("item.id")},
+			joins: [{table: "item", type: JoinType.Left, on: {"item.owner_id": "user.id"}}],
+			groupBy: ["user.id"], orderBy: [{field: "user.id"}],
+		}),
+		[{id: 1, items: 2n}, {id: 2, items: 1n}, {id: 3, items: 0n}, {id: 4, items: 0n}]
+	);
+});
+
+test("operators", async () => {
+	await db.insert("user", [{name: "Luka", points: 300}, {name: "luka-sama", points: 200}, {name: "Test", points: 100}]);
+	await db.createColumn("user", {name: "info", type: FieldType.Jsonb, nullable: true});
+	await db.queryUnsafe(`ALTER TABLE "user" ADD COLUMN "tags" text[] NOT NULL DEFAULT '{}'`);
+	await db.update("user", {info: {level: 10, items: [{type: "sword"}]}}, {id: 1});
+	await db.queryUnsafe(`UPDATE "user" SET "tags" = '{pvp,guild}' WHERE "id" = 2`);
+	const selectIds = async (conditions: Condition): Promise<unknown[]> => (
+		(await db.select("user", conditions, {fields: ["id"], orderBy: [{field: "id"}]})).map(row => row.id)
+	);
+
+	assert.deepEqual(await selectIds({name: like("Luka%")}), [1]);
+	assert.deepEqual(await selectIds({name: ilike("luka%")}), [1, 2]);
+	assert.deepEqual(await selectIds({name: not(ilike("luka%"))}), [3]);
+	assert.deepEqual(await selectIds({points: not(between(150, 250))}), [1, 3]);
+	assert.deepEqual(await selectIds(not({name: "Luka", points: 300})), [2, 3]);
+	assert.deepEqual(await selectIds({points: gt(100), ...not({[or]: [{name: "Luka"}, {points: 100}]})}), [2]);
+	assert.deepEqual(await selectIds({id: notIn([1, 2])}), [3]);
+	assert.deepEqual(await selectIds({info: null}), [2, 3]);
+	assert.deepEqual(await selectIds({info: isNotNull()}), [1]);
+	assert.deepEqual(await selectIds({info: ne(null)}), [1]);
+	assert.deepEqual(await selectIds({info: jsonContains({level: 10})}), [1]);
+	assert.deepEqual(await selectIds({info: jsonContains({items: [{type: "sword"}]})}), [1]);
+	assert.deepEqual(await selectIds({info: jsonContains({level: 11})}), []);
+	assert.deepEqual(
+		await db.select("user", {id: 1}, {fields: ["info"]}), [{info: {level: 10, items: [{type: "sword"}]}}]
+	);
+	assert.deepEqual(await selectIds({info: jsonHasKey("items")}), [1]);
+	assert.deepEqual(await selectIds({info: jsonPathExists(`$.items[*] ? (@.type == "sword")`)}), [1]);
+	assert.deepEqual(await selectIds({tags: arrayContains(["pvp", "guild"])}), [2]);
+	assert.deepEqual(await selectIds({tags: arrayOverlaps(["pve", "guild"])}), [2]);
+	assert.deepEqual(await selectIds({tags: arrayIncludes("pvp")}), [2]);
+	assert.deepEqual(await selectIds({name: textSearch("sama")}), [2]);
+	assert.deepEqual(await selectIds({name: textSearch("tests", "english")}), [3]);
+});
+
+test("returning, upsert and chunks", async () => {
+	assert.deepEqual(
+		await db.insert("user", [{name: "Luka", points: 1}, {name: "Sama", points: 2}], {returning: ["id"]}),
+		[{id: 1}, {id: 2}]
+	);
+	assert.deepEqual(
+		await db.update("user", {points: 3}, {id: 2}, {returning: ["*"]}),
+		[{id: 2, name: "Sama", points: 3}]
+	);
+	assert.deepEqual(
+		await db.upsert("user", [{name: "Luka", points: 1}, {name: "Test", points: 5}], ["name", "points"], ["name"], {
+			returning: ["id", "name"],
+		}),
+		[{id: 1, name: "Luka"}, {id: 4, name: "Test"}]
+	);
+	assert.equal(
+		await db.upsert("user", {name: "Test", points: 5}, ["name", "points"], []),
+		0
+	);
+	assert.deepEqual(
+		await db.delete("user", {points: [3, 5]}, {returning: ["name"]}),
+		[{name: "Sama"}, {name: "Test"}]
+	);
+
+	const rows = Array.from({length: DB.MAX_PARAMETERS}, (_, i) => ({name: "Bulk", points: i}));
+	assert.equal(await db.insert("user", rows), DB.MAX_PARAMETERS);
+	assert.equal(await db.delete("user", {name: "Bulk"}), DB.MAX_PARAMETERS);
+	// Exactly MAX_PARAMETERS parameters fit in one query, one more parameter needs another chunk
+	for (const length of [DB.MAX_PARAMETERS, DB.MAX_PARAMETERS + 1]) {
+		const nameRows = Array.from({length}, (_, i) => ({name: `C${i}`}));
+		assert.equal(await db.insert("user", nameRows), length);
+		assert.equal(await db.delete("user", {name: like("C%")}), length);
+	}
+});
+
+test("update many", async () => {
+	await db.insert("user", [{name: "Luka", points: 1}, {name: "Sama", points: 2}, {name: "Test", points: 3}]);
+	assert.equal(await db.updateMany("user", [{id: 1, points: 7}]), 1);
+	assert.equal(await db.updateMany("user", [{id: 2, name: "Sama-sama", points: 8}, {id: 3, name: "Test", points: 9}]), 2);
+	assert.equal(await db.updateMany("user", [{name: "Luka", points: 10}], "name"), 1);
+	assert.deepEqual(await db.select("user", {}, {orderBy: [{field: "id"}]}), [
+		{id: 1, name: "Luka", points: 10},
+		{id: 2, name: "Sama-sama", points: 8},
+		{id: 3, name: "Test", points: 9},
+	]);
+});
+
+test("seeding", async () => {
+	const fixtures = {user: {luka: {id: 5, name: "Luka", points: 1}, sama: {id: 6, name: "Sama"}}};
+	await Seeder.seedData(db, fixtures, {upsert: true});
+	fixtures.user.luka.points = 2;
+	const result = await Seeder.seedData(db, fixtures, {upsert: true});
+	assert.deepEqual(result.get("luka"), {id: 5, name: "Luka", points: 2});
+	assert.equal((await db.select("user")).length, 2);
+
+	// The sequence is synchronized, so the next id doesn't conflict with the seeded rows
+	assert.deepEqual(await db.insert("user", {name: "Test"}, {returning: ["id"]}), [{id: 7}]);
+});
+
+test("version column", async () => {
+	await db.insert("user", {name: "Luka", points: 1});
+	assert.equal(await db.update("user", {name: "Luka-sama", points: 1}, {id: 1}, {versionColumn: "points"}), 1);
+	await assert.rejects(
+		db.update("user", {name: "Stale", points: 1}, {id: 1}, {versionColumn: "points"}),
+		ConcurrencyConflictError
+	);
+	assert.deepEqual(await db.select("user"), [{id: 1, name: "Luka-sama", points: 2}]);
+	assert.deepEqual(
+		await db.update("user", {points: 2}, {id: 1}, {versionColumn: "points", returning: ["name", "points"]}),
+		[{name: "Luka-sama", points: 3}]
+	);
+});
+
+test("cursor", async () => {
+	await db.insert("user", Array.from({length: 5}, (_, i) => ({name: `User ${i}`, points: i})));
+	const batches: unknown[][] = [];
+	const options = {fields: ["points"], orderBy: [{field: "id"}], batchSize: 2};
+	QueryStats.clear();
+	for await (const rows of db.cursor("user", {points: gt(0)}, options)) {
+		batches.push(rows.map(row => row.points));
+	}
+	assert.deepEqual(batches, [[1, 2], [3, 4]]);
+	const [stats] = QueryStats.getStats();
+	assert(stats.count == 1 && stats.statement.startsWith(`SELECT "points" FROM "user"`));
+	assert.equal(db.getPoolStats()[0].active, 0);
+
+	const points: unknown[] = [];
+	const controller = new AbortController();
+	await assert.rejects(async () => {
+		for await (const row of db.selectStream("user", {}, {orderBy: [{field: "id"}], signal: controller.signal})) {
+			points.push(row.points);
+			if (points.length == 3) {
+				controller.abort();
+			}
+		}
+	}, {name: "AbortError"});
+	assert.deepEqual(points, [0, 1, 2]);
+});
+
+test("transactions", async () => {
+	let attempts = 0;
+	const result = await db.runTransaction(async db => {
+		attempts++;
+		await db.insert("user", {name: "Luka", points: 1});
+		await assert.rejects(db.runTransaction(async db => {
+			await db.insert("user", {name: "Sama", points: 2});
+			throw new Error("Rollback to savepoint");
+		}));
+		assert.equal((await db.select("user")).length, 1);
+		if (attempts == 1) {
+			await db.queryUnsafe(`DO $$ BEGIN RAISE EXCEPTION 'Test' USING ERRCODE = 'serialization_failure'; END $$`);
+		}
+		return attempts;
+	}, {isolationLevel: IsolationLevel.Serializable});
+	assert.equal(result, 2);
+	assert.deepEqual(await db.select("user", {}, {fields: ["name"]}), [{name: "Luka"}]);
+
+	await assert.rejects(db.runTransaction(() => (
+		db.queryUnsafe(`DO $$ BEGIN RAISE EXCEPTION 'Test' USING ERRCODE = 'serialization_failure'; END $$`)
+	), {retries: 0}));
+	await assert.rejects(db.runTransaction(db => db.runTransaction(() => Promise.resolve(), {readOnly: true})));
+});
+
+test("schema", async () => {
+	assert((await db.getTables()).includes("user"));
+	assert.deepEqual(await db.getFields("user"), [
+		{name: "id", type: FieldType.Serial, nullable: false},
+		{name: "name", type: FieldType.Varchar, limit: 10, nullable: false},
+		{name: "points", type: FieldType.Int, nullable: false, default: 100},
+	]);
+	assert.deepEqual(await db.getIndexes("user"), [
+		{name: "user_name_points_key", fields: ["name", "points"], type: IndexType.Unique, constraint: true},
+		{name: "user_pkey", fields: ["id"], type: IndexType.Primary, constraint: true},
+	]);
+
+	await db.dropConstraint("user", "user_name_points_key");
+	await db.createIndex("user", {field: "points", name: "user_points"});
+	assert.deepEqual(await db.getIndexes("user"), [
+		{name: "user_pkey", fields: ["id"], type: IndexType.Primary, constraint: true},
+		{name: "user_points", fields: ["points"], type: IndexType.Index, constraint: false},
+	]);
+});
+
+test("constraints and index types", async () => {
+	await db.createTable("loot", [
+		{name: "id", type: FieldType.Serial},
+		{name: "name", type: FieldType.Varchar, limit: 20},
+		{name: "owner_id", type: FieldType.Int, nullable: true},
+		{name: "tags", type: FieldType.Jsonb, default: "'[]'"},
+		{name: "deleted_at", type: FieldType.TimestampTz, nullable: true},
+	], [
+		{field: "id", type: IndexType.Primary, include: ["name"]},
+		{expression: "lower(name)", type: IndexType.Unique, name: "loot_name", where: "deleted_at IS NULL"},
+		{field: "tags", method: IndexMethod.GIN, name: "loot_tags"},
+	], {
+		foreignKeys: [{fields: ["owner_id"], references: "user", onDelete: ReferentialAction.SetNull}],
+		checks: [{expression: "char_length(name) > 2", name: "loot_name_length"}],
+	});
+	await db.createIndex("loot", {field: "owner_id", method: IndexMethod.Hash, name: "loot_owner"});
+	assert.deepEqual(await db.getIndexes("loot"), [
+		{
+			name: "loot_name", fields: ["lower((name)::text)"], type: IndexType.Unique, constraint: false,
+			where: "(deleted_at IS NULL)",
+		},
+		{name: "loot_owner", fields: ["owner_id"], type: IndexType.Index, constraint: false, method: IndexMethod.Hash},
+		{name: "loot_pkey", fields: ["id"], type: IndexType.Primary, constraint: true, include: ["name"]},
+		{name: "loot_tags", fields: ["tags"], type: IndexType.Index, constraint: false, method: IndexMethod.GIN},
+	]);
+	assert.deepEqual(await db.getForeignKeys("loot"), [{
+		name: "loot_owner_id_fkey", fields: ["owner_id"], references: "user", referencedFields: ["id"],
+		onDelete: ReferentialAction.SetNull, onUpdate: ReferentialAction.NoAction,
+	}]);
+	assert.deepEqual(await db.getChecks("loot"), [
+		{name: "loot_name_length", expression: "(char_length((name)::text) > 2)"},
+	]);
+
+	const [{id}] = await db.insert("user", {name: "Luka"}, {returning: ["id"]});
+	await db.insert("loot", {name: "Sword", "owner_id": id});
+	await assert.rejects(db.insert("loot", {name: "X"}));
+	await assert.rejects(db.insert("loot", {name: "sword"}));
+	await db.delete("user", {id});
+	assert.deepEqual(await db.select("loot", {}, {fields: ["owner_id"]}), [{"owner_id": null}]);
+
+	await db.dropConstraint("loot", "loot_owner_id_fkey");
+	await db.createForeignKey("loot", {
+		fields: ["owner_id"], references: "user", onDelete: ReferentialAction.Cascade, name: "loot_owner_fk",
+	});
+	await db.createCheck("loot", {expression: "owner_id > 0"});
+	assert.deepEqual((await db.getForeignKeys("loot")).map(({name, onDelete}) => ({name, onDelete})), [
+		{name: "loot_owner_fk", onDelete: ReferentialAction.Cascade},
+	]);
+	assert.equal((await db.getChecks("loot")).length, 2);
+	await db.dropIndex("loot_tags", {ifExists: true, cascade: true});
+});
+
+test("field types", async () => {
+	await db.createEnum({name: "rarity", values: ["common", "it's rare"]});
+	await db.addEnumValues("rarity", ["common", "epic"]);
+	assert.deepEqual((await db.getEnums()).find(({name}) => name == "rarity")?.values, ["common", "it's rare", "epic"]);
+
+	const rarity = {name: "rarity", values: ["common", "it's rare", "epic"]};
+	await db.createTable("record", [
+		{name: "level", type: FieldType.SmallInt},
+		{name: "price", type: FieldType.Numeric, precision: 10, scale: 2},
+		{name: "achieved_at", type: FieldType.TimestampTz},
+		{name: "replay", type: FieldType.Bytes},
+		{name: "uuid", type: FieldType.Uuid},
+		{name: "scores", type: FieldType.Int, array: true},
+		{name: "rarity", type: FieldType.Enum, enum: rarity},
+		{name: "rarities", type: FieldType.Enum, enum: rarity, array: true},
+	], []);
+	assert.deepEqual(await db.getFields("record"), [
+		{name: "level", type: FieldType.SmallInt, nullable: false},
+		{name: "price", type: FieldType.Numeric, precision: 10, scale: 2, nullable: false},
+		{name: "achieved_at", type: FieldType.TimestampTz, nullable: false},
+		{name: "replay", type: FieldType.Bytes, nullable: false},
+		{name: "uuid", type: FieldType.Uuid, nullable: false},
+		{name: "scores", type: FieldType.Int, array: true, nullable: false},
+		{name: "rarity", type: FieldType.Enum, enum: rarity, nullable: false},
+		{name: "rarities", type: FieldType.Enum, enum: rarity, array: true, nullable: false},
+	]);
+
+	const row = {
+		level: 3, price: "12.50", "achieved_at": new Date(1700000000000), replay: Buffer.from([1, 2, 3]),
+		uuid: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11", scores: [10, 20], rarity: "epic", rarities: ["common", "it's rare"],
+	};
+	// A new connection is necessary to load the array type of the created enum
+	const newDB = new DB(process.env.DB_URL!);
+	try {
+		await newDB.insert("record", row);
+		assert.deepEqual(await newDB.select("record"), [row]);
+		const changes = {
+			uuid: row.uuid, "achieved_at": new Date(1800000000000), replay: Buffer.from([0, 255]), scores: [30],
+			rarities: ["epic"],
+		};
+		assert.equal(await newDB.updateMany("record", [changes], "uuid"), 1);
+		assert.deepEqual(await newDB.select("record"), [{...row, ...changes}]);
+	} finally {
+		await newDB.close();
+	}
+
+	await db.alterColumn("record", {name: "level", type: FieldType.SmallInt}, {name: "level", type: FieldType.Text});
+	assert.deepEqual(await db.select("record", {}, {fields: ["level"]}), [{level: "3"}]);
+});
+
+test("replicas and pool stats", async ctx => {
+	const replicated = new DB(process.env.DB_URL!, {replicaUrls: [process.env.DB_URL!, process.env.DB_URL!], poolSize: 2});
+	try {
+		await replicated.insert("user", {name: "Luka", points: 1});
+		for (let i = 0; i < 3; i++) {
+			assert.deepEqual(await replicated.select("user", {}, {fields: ["name"]}), [{name: "Luka"}]);
+		}
+		await replicated.runTransaction(async db => {
+			await db.select("user");
+		});
+		assert.deepEqual(replicated.getPoolStats(), [
+			{name: "primary", size: 2, active: 0, waiting: 0, queries: 2},
+			{name: "replica 1", size: 2, active: 0, waiting: 0, queries: 2},
+			{name: "replica 2", size: 2, active: 0, waiting: 0, queries: 1},
+		]);
+
+		await replicated.select("user", {}, {primary: true});
+		assert.equal(replicated.getPoolStats()[0].queries, 3);
+		ctx.mock.method(Service, "isPinnedToPrimary", () => true);
+		await replicated.select("user");
+		assert.equal(replicated.getPoolStats()[0].queries, 4);
+	} finally {
+		await replicated.close();
+	}
+});
+
+test("listen and notify", async () => {
+	const payloads: string[] = [];
+	let received: () => void = () => {};
+	const unlisten = await db.listen("test_channel", payload => {
+		payloads.push(payload);
+		received();
+	});
+	try {
+		const waitForPayload = new Promise<void>(resolve => received = resolve);
+		await db.runTransaction(async db => {
+			await db.notify("test_channel", "Luka");
+			assert.deepEqual(payloads, []);
+		});
+		await waitForPayload;
+		assert.deepEqual(payloads, ["Luka"]);
+	} finally {
+		await unlisten();
+	}
+});
+
+test("query log", async ctx => {
+	const warn = ctx.mock.method(DB["logger"], "warn", () => undefined);
+	const options = {...DB.options};
+	ctx.after(() => {
+		DB.options = options;
+	});
+	DB.options = {slowQueryThreshold: Number.MIN_VALUE, explainSlowQueries: true};
+	QueryStats.clear();
+	await db.select("user", {id: [1, 2], name: "Luka"});
+	await db.select("user", {id: [3, 4, 5], name: "Sama"});
+	await new Promise(resolve => setTimeout(resolve, 100));
+
+	const [stats] = QueryStats.getStats();
+	assert.equal(stats.count, 2);
+	assert(stats.statement.startsWith(`SELECT * FROM "user" WHERE`) && stats.statement.includes(`"id" IN (?...)`));
+	const messages = warn.mock.calls.map(call => String(call.arguments[0]));
+	assert.equal(messages.filter(message => message.startsWith("Slow query")).length, 2);
+	assert(messages.some(message => message.includes("4 parameter(s)")));
+	assert(messages.some(message => message.startsWith("Plan of the slow query") && message.includes("Buffers")));
+
+	warn.mock.resetCalls();
+	await db.notify("query_log", "test");
+	await db.select("user", {id: 1}, {forUpdate: true});
+	await db.runWithLock("query_log", () => Promise.resolve());
+	await new Promise(resolve => setTimeout(resolve, 100));
+	const plans = warn.mock.calls.filter(call => String(call.arguments[0]).startsWith("Plan of the slow query"));
+	assert.equal(plans.length, 0);
+});
+test("parity with MemoryDB", async () => {
+	/** Runs the same queries on the given database and returns their results */
+	const runScenario = async (database: Database): Promise<unknown[]> => {
+		await database.createTable("parity", [
+			{name: "id", type: FieldType.Serial},
+			{name: "name", type: FieldType.Text},
+			{name: "version", type: FieldType.Int, default: 1},
+			{name: "guild_id", type: FieldType.Int, nullable: true},
+			{name: "info", type: FieldType.Jsonb, nullable: true},
+		], [{field: "id", type: IndexType.Primary}]);
+		const selectAll = (conditions: Condition): Promise<Row[]> => (
+			database.select("parity", conditions, {orderBy: [{field: "id"}]})
+		);
+		const results: unknown[] = [];
+		results.push(await database.insert("parity", [
+			{name: "Luka", "guild_id": null, info: {level: 10, items: [{type: "sword"}]}},
+			{name: "luka-sama", "guild_id": 1, info: null},
+			{name: "Te%st_", "guild_id": 2, info: {level: 11}},
+		], {returning: ["id", "version"]}));
+		await assert.rejects(database.insert("parity", [{name: "Test"}, {name: "Test", "guild_id": 1}]), /same columns/);
+		results.push(await database.updateMany("parity", [{id: 1, name: "Luka!"}, {id: 2, name: "Luka-sama"}]));
+		await assert.rejects(database.updateMany("parity", [{id: 1, name: "Luka"}, {id: 2, "guild_id": 1}]), /same columns/);
+		results.push(await database.update("parity", {"guild_id": 3, version: 1}, {id: 1}, {
+			versionColumn: "version", returning: ["guild_id", "version"],
+		}));
+		await assert.rejects(
+			database.update("parity", {"guild_id": 4, version: 1}, {id: 1}, {versionColumn: "version"}),
+			ConcurrencyConflictError,
+		);
+		results.push(await selectAll({}));
+		results.push(await selectAll({[or]: [{name: like("Luka%")}, {info: null}]}));
+		results.push(await selectAll(not({"guild_id": 2, name: like("Te%")})));
+		results.push(await selectAll({"guild_id": ne(1)}));
+		results.push(await selectAll({info: jsonContains({items: [{type: "sword"}]})}));
+		results.push(await selectAll({info: jsonHasKey("level")}));
+		results.push(await selectAll({info: {level: 11}}));
+		results.push(await database.delete("parity", {}));
+		await database.dropTable("parity");
+		return results;
+	};
+
+	assert.deepEqual(await runScenario(db), await runScenario(new MemoryDB));
 });
\ No newline at end of file
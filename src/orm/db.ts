@@ -1,20 +1,47 @@
 import assert from "assert/strict";
-import postgres, {ParameterOrFragment, PendingQuery, PostgresType, Sql, TransactionSql} from "postgres";
+import postgres, {ParameterOrFragment, PendingQuery, PostgresType, ReservedSql, Sql, TransactionSql} from "postgres";
 import Logger from "../core/logger.js";
+import Service from "../net/service.js";
+import Aggregate from "./aggregate.js";
+import ConcurrencyConflictError from "./concurrency-conflict-error.js";
 import {
+	CheckDefinition,
+	CheckInfo,
 	Conditions,
+	ConnectionOptions,
 	CreateIndexOptions,
 	CreateTableOptions,
+	CursorOptions,
+	Database,
 	DBValue,
+	DropEnumOptions,
 	DropIndexOptions,
 	DropTableOptions,
+	EnumDefinition,
 	FieldDefinition,
+	FieldType,
+	ForeignKeyDefinition,
+	ForeignKeyInfo,
 	IndexDefinition,
+	IndexInfo,
+	IndexMethod,
 	IndexType,
+	Join,
+	JoinType,
+	NotificationHandler,
+	OrderBy,
+	OrderDirection,
+	PoolStats,
+	QueryLogOptions,
+	ReferentialAction,
+	ReturningOptions,
 	Row,
-	SelectOptions
+	SelectOptions,
+	TransactionOptions,
+	UpdateOptions
 } from "./db.typings.js";
-import Operator, {and, or} from "./operator.js";
+import Operator, {and, negation, OperatorOperand, or} from "./operator.js";
+import QueryStats from "./query-stats.js";
 
 const sqlFragment = Symbol("sqlFragment"); // Prevent user-side calling (without using draco-ts)
 /** A fragment of a SQL query (or a full query) that was created with {@link DB.sql} */
@@ -22,23 +49,82 @@ export interface SqlFragment {
 	[sqlFragment]: PendingQuery<Row[]>;
 }
 
+/** The internals of a postgres.js query that are set when the query is executed */
+interface ExecutedQuery {
+	statement: postgres.Statement;
+	/** The serialized parameters */
+	parameters: string[];
+}
+
+/** The usage of a connection pool, it is shared by the pool and the connections reserved from it */
+interface PoolCounters {
+	name: string;
+	size: number;
+	/** The number of queries being executed and reserved connections (some of them may wait for a connection) */
+	busy: number;
+	queries: number;
+}
+
 /**
  * This class is responsible for connecting to the DB and executing DB queries.
  * It also provides a simple query builder
  */
-export default class DB {
+export default class DB implements Database {
+	/** The maximum number of parameters in a single query (postgres.js rejects queries with 65534 or more parameters) */
+	public static readonly MAX_PARAMETERS = 65533;
+	/** The default value of {@link CursorOptions.batchSize} */
+	public static readonly DEFAULT_BATCH_SIZE = 1000;
+	/** The default value of {@link TransactionOptions.retries} */
+	public static readonly DEFAULT_TRANSACTION_RETRIES = 3;
+	/** The default value of {@link ConnectionOptions.poolSize} */
+	public static readonly DEFAULT_POOL_SIZE = 10;
+	/** See {@link QueryLogOptions} for details */
+	public static options: QueryLogOptions = {slowQueryThreshold: 100, explainSlowQueries: false};
+	/** The error codes after which the transaction is retried: `serialization_failure` and `deadlock_detected` */
+	private static readonly RETRYABLE_ERRORS = ["40001", "40P01"];
 	private static readonly logger = new Logger(DB);
+	/** Whether this instance wraps a transaction, see {@link DB.runTransaction} */
+	private readonly transaction: boolean;
+	/** Whether this instance wraps a reserved connection (e.g. of a transaction) rather than a connection pool */
+	private readonly reserved: boolean;
+	/** The DB instances of the read replicas, see {@link ConnectionOptions.replicaUrls} */
+	private readonly replicas: DB[];
+	private lastReplica = -1;
+	private pool: PoolCounters;
 	private readonly postgres: Sql<Record<string, PostgresType> extends {
 		bigint: PostgresType<bigint>
 	} ? Record<string, never> : any>;
 
-	/** Connects to the database */
-	public constructor(dbUrl: string) {
-		this.postgres = postgres(dbUrl, {
+	/**
+	 * Connects to the database using the given URL and the given options of the connection pools
+	 * (the reads can be sent to the replicas, see {@link DB.select}). It can also wrap a reserved connection,
+	 * e.g. a connection reserved for a transaction, this is used by {@link DB.runTransaction}
+	 */
+	public constructor(
+		connection: string |
+			TransactionSql<(typeof this.postgres extends Sql<infer U> ? U : never)> |
+			ReservedSql<(typeof this.postgres extends Sql<infer U> ? U : never)>,
+		options?: Partial<ConnectionOptions>
+	) {
+		const poolSize = options?.poolSize ?? DB.DEFAULT_POOL_SIZE;
+		this.postgres = (typeof connection == "string" ? postgres(connection, {
 			types: {
 				bigint: postgres.BigInt
 			},
 			onnotice: DB.logger.info,
+			max: poolSize,
+			// The time options of postgres.js are in seconds, and the omitted options have the default values
+			...(options?.idleTimeout ? {"idle_timeout": options.idleTimeout / 1000} : {}),
+			...(options?.maxLifetime ? {"max_lifetime": options.maxLifetime / 1000} : {}),
+			connection: (options?.statementTimeout ? {"statement_timeout": options.statementTimeout} : {}),
+		}) : connection);
+		this.transaction = (typeof connection != "string" && "savepoint" in connection);
+		this.reserved = (typeof connection != "string");
+		this.pool = {name: "primary", size: poolSize, busy: 0, queries: 0};
+		this.replicas = (options?.replicaUrls ?? []).map((url, i) => {
+			const replica = new DB(url, {...options, replicaUrls: []});
+			replica.pool.name = `replica ${i + 1}`;
+			return replica;
 		});
 		this.sql = this.sql.bind(this);
 		this.name = this.name.bind(this);
@@ -46,9 +132,16 @@ export default class DB {
 		this.unsafe = this.unsafe.bind(this);
 	}
 
-	/** Closes database connection */
+	/** Closes database connection (and the connections to the replicas) */
 	public async close(): Promise<void> {
-		await this.postgres.end();
+		await Promise.all([this.postgres.end(), ...this.replicas.map(replica => replica.close())]);
+	}
+
+	/** Returns the usage of the connection pools: of the primary and of every replica */
+	public getPoolStats(): PoolStats[] {
+		return [this, ...this.replicas].map(({pool: {name, size, busy, queries}}) => ({
+			name, size, active: Math.min(busy, size), waiting: Math.max(busy - size, 0), queries,
+		}));
 	}
 
 	/**
@@ -93,16 +186,32 @@ export default class DB {
 		return {[sqlFragment]: this.postgres.unsafe(query)};
 	}
 
-	/** Executes the given query that was built with {@link DB.sql} */
+	/**
+	 * Executes the given query that was built with {@link DB.sql}.
+	 * The execution time is recorded in {@link QueryStats}, and the slow queries are logged (see {@link DB.options})
+	 */
 	public async query(query: SqlFragment): Promise<Awaited<PendingQuery<Row[]>>> {
+		return await this.runQuery(query, false);
+	}
+
+	/**
+	 * Executes the given query, see {@link DB.query}. If `explainable` is `true`, the plan of the query is logged
+	 * when it is slow (see {@link QueryLogOptions.explainSlowQueries}), so the query should have no side effects
+	 */
+	private async runQuery(query: SqlFragment, explainable: boolean): Promise<Awaited<PendingQuery<Row[]>>> {
+		const start = performance.now();
+		let result: Awaited<PendingQuery<Row[]>>;
+		this.pool.queries++;
 		try {
-			return await query[sqlFragment].execute();
+			result = await this.usePool(() => query[sqlFragment].execute());
 		} catch(e: unknown) {
 			if (e instanceof postgres.PostgresError) {
 				DB.logger.error(`${e.query}\n${e.stack}`);
 			}
 			throw e;
 		}
+		this.logQuery(query[sqlFragment] as unknown as ExecutedQuery, performance.now() - start, explainable);
+		return result;
 	}
 
 	/**
@@ -115,57 +224,349 @@ export default class DB {
 
 	/**
 	 * Starts a new transaction. It will reserve a connection for all transactions uses in the callback function.
+	 * The callback function gets an instance of DB that uses this connection, so all queries executed with it
+	 * (including the query builder methods such as {@link DB.select}) are a part of the transaction.
 	 * `BEGIN` is automatically sent, and if anything fails `ROLLBACK` will be called so the connection can be released
 	 * and execution can continue. Otherwise, this method will resolve with the returned value
 	 * from the callback function.
+	 *
+	 * If the transaction fails because of a serialization failure or a deadlock, it is retried
+	 * (so the callback function may be called multiple times and should not have side effects outside the DB).
+	 * Serialization failures are expected with {@link IsolationLevel.Serializable}, e.g. for item trades:
+	 * ```ts
+	 * await db.runTransaction(async db => {
+	 *   // move the items
+	 * }, {isolationLevel: IsolationLevel.Serializable});
+	 * ```
+	 * If this method is called on the DB instance of a transaction, it creates a nested transaction
+	 * using a savepoint: if the callback function fails, only the changes made in it are rolled back
 	 */
-	public async runTransaction<T>(
-		cb: (sql: TransactionSql<(typeof this.postgres extends Sql<infer U> ? U : never)>) => Promise<T>
-	): Promise<T extends any[] ? {
-		[k in keyof T]: T[k] extends Promise<infer R> ? R : T[k]
-	} : T> {
-		return await this.postgres.begin(cb);
+	public async runTransaction<T>(cb: (db: DB) => Promise<T>, options?: Partial<TransactionOptions>): Promise<T> {
+		if (this.transaction) {
+			assert(
+				!options?.isolationLevel && !options?.readOnly,
+				"The isolation level and the access mode can't be changed in a nested transaction."
+			);
+			const transaction = this.postgres as TransactionSql<(typeof this.postgres extends Sql<infer U> ? U : never)>;
+			return await transaction.savepoint(sql => cb(this.wrap(sql))) as T;
+		}
+
+		const modes = [
+			(options?.isolationLevel ? `ISOLATION LEVEL ${options.isolationLevel}` : ""),
+			(options?.readOnly ? "READ ONLY" : ""),
+		].filter(mode => mode).join(" ");
+		const retries = options?.retries ?? DB.DEFAULT_TRANSACTION_RETRIES;
+		for (let attempt = 1; ; attempt++) {
+			try {
+				return await this.usePool(() => this.postgres.begin(modes, sql => cb(this.wrap(sql)))) as T;
+			} catch (e: unknown) {
+				if (attempt > retries || !(e instanceof postgres.PostgresError) || !DB.RETRYABLE_ERRORS.includes(e.code)) {
+					throw e;
+				}
+				DB.logger.warn(`The transaction failed with the error ${e.code}, retrying (${attempt}/${retries})...`);
+			}
+		}
+	}
+
+	/**
+	 * Runs the callback function while holding a session-level advisory lock with the given name.
+	 * If the lock is held by another connection (possibly from another server), it waits until the lock is released.
+	 * The lock is held by a separate reserved connection, so the callback function can use this DB as usual
+	 */
+	public async runWithLock<T>(lockName: string, cb: () => Promise<T>): Promise<T> {
+		return await this.usePool(async () => {
+			const reserved = await this.postgres.reserve();
+			const connection = this.wrap(reserved);
+			const {sql} = connection;
+			try {
+				await connection.query(sql`SELECT pg_advisory_lock(hashtext(${lockName}))`);
+				try {
+					return await cb();
+				} finally {
+					await connection.query(sql`SELECT pg_advisory_unlock(hashtext(${lockName}))`);
+				}
+			} finally {
+				reserved.release();
+			}
+		});
+	}
+
+	/**
+	 * Listens to the notifications on the given channel (see {@link DB.notify}), including the ones sent
+	 * by other processes. The notifications are received by a dedicated connection to the primary.
+	 * The handler gets the payload, its errors are logged. Returns the function that stops listening
+	 */
+	public async listen(channel: string, handler: NotificationHandler): Promise<() => Promise<void>> {
+		assert(!this.reserved, "It's not possible to listen on a reserved connection.");
+		const {unlisten} = await this.postgres.listen(channel, payload => {
+			Promise.resolve(payload).then(handler).catch(DB.logger.error);
+		});
+		return unlisten;
 	}
 
-	/** Selects rows from the given table by the given conditions using the given options */
+	/**
+	 * Sends a notification with the given payload (at most 8000 bytes) to the given channel, see {@link DB.listen}.
+	 * If it is called in a transaction, the notification is only sent when the transaction is committed
+	 */
+	public async notify(channel: string, payload: string): Promise<void> {
+		await this.query(this.sql`SELECT pg_notify(${channel}, ${payload})`);
+	}
+
+	/**
+	 * Selects rows from the given table by the given conditions using the given options.
+	 * See {@link SelectOptions} for ordering, pagination, aggregation and joins.
+	 * If there are read replicas, the query is sent to the next replica, unless the current service
+	 * is pinned to the primary (see {@link Service.pinToPrimary}) or {@link SelectOptions.primary} is set.
+	 * Other queries and transactions use the primary
+	 */
 	public async select(table: string, conditions?: Conditions, options?: Partial<SelectOptions>): Promise<Row[]> {
-		const {sql, name} = this;
-		const fields = (
-			options?.fields ? this.postgres(options.fields) : sql`*`
-		);
-		const where = this.getWhere(conditions);
-		const result = await this.query(sql`SELECT ${fields} FROM ${name(table)} WHERE ${where}`);
+		const db = this.getReadDB(options);
+		const result = await db.runQuery(db.buildSelect(table, conditions, options), !options?.forUpdate);
 		return Array.from(result);
 	}
 
-	/** Inserts the given row(s) in the given table */
+	/**
+	 * Selects rows like {@link DB.select}, but yields them in batches of {@link CursorOptions.batchSize} rows
+	 * using a cursor, so that the whole result is never loaded in the memory. An example:
+	 * ```ts
+	 * for await (const rows of db.cursor("tile", {map_id: 1}, {batchSize: 1000, signal})) {
+	 *   // process the rows
+	 * }
+	 * ```
+	 * The query is sent to a replica and logged the same as in {@link DB.select} (only the time of fetching
+	 * the rows is counted). If the loop is exited, the cursor is closed and the connection is released.
+	 * If the signal is aborted, the query is cancelled and the iteration throws the abort reason
+	 */
+	public async *cursor(
+		table: string, conditions?: Conditions, options?: Partial<CursorOptions>
+	): AsyncGenerator<Row[], void> {
+		const batchSize = options?.batchSize ?? DB.DEFAULT_BATCH_SIZE;
+		assert(Number.isInteger(batchSize) && batchSize > 0, "The batch size should be a positive integer.");
+		const signal = options?.signal;
+		signal?.throwIfAborted();
+		const db = this.getReadDB(options);
+		const query = db.buildSelect(table, conditions, options);
+		const cancel = (): void => {
+			query[sqlFragment].cancel();
+		};
+		signal?.addEventListener("abort", cancel, {once: true});
+		db.pool.queries++;
+		if (!db.reserved) {
+			db.pool.busy++;
+		}
+		let duration = 0;
+		let start = performance.now();
+		try {
+			for await (const rows of query[sqlFragment].cursor(batchSize)) {
+				duration += performance.now() - start;
+				signal?.throwIfAborted();
+				yield Array.from(rows);
+				start = performance.now();
+			}
+			duration += performance.now() - start;
+		} catch (e: unknown) {
+			signal?.throwIfAborted();
+			if (e instanceof postgres.PostgresError) {
+				DB.logger.error(`${e.query}\n${e.stack}`);
+			}
+			throw e;
+		} finally {
+			signal?.removeEventListener("abort", cancel);
+			if (!db.reserved) {
+				db.pool.busy--;
+			}
+		}
+		db.logQuery(query[sqlFragment] as unknown as ExecutedQuery, duration, !options?.forUpdate);
+	}
+
+	/**
+	 * Selects rows like {@link DB.select}, but yields them one by one. The rows are fetched in batches
+	 * using a cursor, see {@link DB.cursor} for details
+	 */
+	public async *selectStream(
+		table: string, conditions?: Conditions, options?: Partial<CursorOptions>
+	): AsyncGenerator<Row, void> {
+		for await (const rows of this.cursor(table, conditions, options)) {
+			for (const row of rows) {
+				options?.signal?.throwIfAborted();
+				yield row;
+			}
+		}
+	}
+
+	/**
+	 * Inserts the given row(s) in the given table. All rows should have the same columns (the omitted columns
+	 * get their default values). Returns the number of inserted rows
+	 * or (if `returning` is specified) the inserted rows, e.g. with the generated ids.
+	 * Many rows are inserted in chunks to stay under the PostgreSQL parameter limit,
+	 * use {@link DB.runTransaction} if all chunks should be inserted atomically
+	 */
+	public async insert(
+		table: string, data: {[column: string]: DBValue} | {[column: string]: DBValue}[], options: ReturningOptions
+	): Promise<Row[]>;
 	public async insert(
 		table: string, data: {[column: string]: DBValue} | {[column: string]: DBValue}[]
-	): Promise<number> {
+	): Promise<number>;
+	public async insert(
+		table: string, data: {[column: string]: DBValue} | {[column: string]: DBValue}[], options?: ReturningOptions
+	): Promise<number | Row[]> {
 		const {sql, name} = this;
-		const result = await this.query(sql`INSERT INTO ${name(table)} ${this.postgres(data)}`);
-		return result.count;
+		return await this.executeInChunks(
+			data, chunk => sql`INSERT INTO ${name(table)} ${this.postgres(chunk)}`, options?.returning
+		);
+	}
+
+	/**
+	 * Inserts the given row(s) in the given table or updates the existing rows that conflict with them
+	 * by the given columns (that should have a unique index), using `INSERT ... ON CONFLICT`.
+	 * Only the given columns are updated (by default all columns except the conflict target).
+	 * If `updateColumns` is empty, the conflicting rows are left as is (`DO NOTHING`).
+	 * Returns the number of inserted or updated rows or (if `returning` is specified) these rows.
+	 * Many rows are upserted in chunks, the same as in {@link DB.insert}
+	 */
+	public async upsert(
+		table: string, data: {[column: string]: DBValue} | {[column: string]: DBValue}[],
+		conflictTarget: string[], updateColumns: string[] | undefined, options: ReturningOptions
+	): Promise<Row[]>;
+	public async upsert(
+		table: string, data: {[column: string]: DBValue} | {[column: string]: DBValue}[],
+		conflictTarget: string[], updateColumns?: string[]
+	): Promise<number>;
+	public async upsert(
+		table: string, data: {[column: string]: DBValue} | {[column: string]: DBValue}[],
+		conflictTarget: string[], updateColumns?: string[], options?: ReturningOptions
+	): Promise<number | Row[]> {
+		const {sql, name} = this;
+		assert(conflictTarget.length > 0, "The conflict target should contain at least one column.");
+		const rows = (data instanceof Array ? data : [data]);
+		const columns = updateColumns ?? Object.keys(rows[0] ?? {}).filter(column => !conflictTarget.includes(column));
+		const target = this.joinParts(conflictTarget.map(column => sql`${name(column)}`), sql`, `);
+		const set = columns.map(column => sql`${name(column)} = EXCLUDED.${name(column)}`);
+		const action = (set.length > 0 ? sql`DO UPDATE SET ${this.joinParts(set, sql`, `)}` : sql`DO NOTHING`);
+		return await this.executeInChunks(
+			rows, chunk => sql`INSERT INTO ${name(table)} ${this.postgres(chunk)} ON CONFLICT (${target}) ${action}`,
+			options?.returning
+		);
 	}
 
-	/** Updates rows from the given table (that meet the given conditions) with the given data */
+	/**
+	 * Updates rows from the given table (that meet the given conditions) with the given data.
+	 * Returns the number of updated rows or (if `returning` is specified) the updated rows.
+	 * See {@link UpdateOptions.versionColumn} for optimistic locking
+	 */
+	public async update(
+		table: string, data: {[column: string]: DBValue}, conditions: Conditions | undefined,
+		options: Partial<UpdateOptions> & ReturningOptions
+	): Promise<Row[]>;
 	public async update(
-		table: string, data: {[column: string]: DBValue}, conditions?: Conditions
-	): Promise<number> {
+		table: string, data: {[column: string]: DBValue}, conditions?: Conditions, options?: Partial<UpdateOptions>
+	): Promise<number>;
+	public async update(
+		table: string, data: {[column: string]: DBValue}, conditions?: Conditions,
+		options?: Partial<UpdateOptions & ReturningOptions>
+	): Promise<number | Row[]> {
 		const {sql, name} = this;
-		const where = this.getWhere(conditions);
-		const result = await this.query(sql`UPDATE ${name(table)} SET ${this.postgres(data)} WHERE ${where}`);
+		const versionColumn = options?.versionColumn;
+		if (!versionColumn) {
+			const where = this.getWhere(conditions);
+			return await this.execute(
+				sql`UPDATE ${name(table)} SET ${this.postgres(data)} WHERE ${where}`, options?.returning
+			);
+		}
+
+		const {[versionColumn]: version, ...values} = data;
+		assert(version !== undefined, `The data should contain the expected version in ${versionColumn}.`);
+		// The SET-helper of postgres.js can't be combined with other assignments, so the list is built explicitly
+		const set = this.joinParts([
+			...Object.entries(values).map(([column, value]) => sql`${name(column)} = ${value}`),
+			sql`${name(versionColumn)} = ${name(versionColumn)} + 1`,
+		], sql`, `);
+		const where = sql`(${this.getWhere(conditions)}) AND ${name(versionColumn)} = ${version}`;
+		const result = await this.execute(sql`UPDATE ${name(table)} SET ${set} WHERE ${where}`, options.returning);
+		if (result === 0 || result instanceof Array && result.length < 1) {
+			throw new ConcurrencyConflictError(`The row in ${table} was changed concurrently (version ${version} is stale).`);
+		}
+		return result;
+	}
+
+	/**
+	 * Updates multiple rows from the given table with a single query. Each row should contain the value of `key`
+	 * (which is used to find the row to update) and the same set of columns as other rows.
+	 * The values are passed as JSON and converted using the types of the table columns
+	 * (bigints are passed as strings and buffers in the hex format of `bytea`)
+	 */
+	public async updateMany(table: string, data: {[column: string]: DBValue}[], key = "id"): Promise<number> {
+		const {sql, name} = this;
+		if (data.length < 1) {
+			return 0;
+		}
+		DB.checkColumns(data);
+		const columns = Object.keys(data[0]).filter(column => column != key);
+		assert(columns.length > 0, "Nothing to update.");
+		const set = this.joinParts(columns.map(column => sql`${name(column)} = "v".${name(column)}`), sql`, `);
+		const json = JSON.stringify(data, function (this: {[key: string]: unknown}, key, value: unknown) {
+			// Buffers are already converted with toJSON, so the original value is checked
+			const original = this[key];
+			if (Buffer.isBuffer(original)) {
+				return `\\x${original.toString("hex")}`;
+			}
+			return (typeof value == "bigint" ? value.toString() : value);
+		});
+		// The JSON is passed as text, otherwise postgres.js would encode it as JSON again.
+		// The row type is taken from an empty subquery, since a cast like `NULL::"record"` could refer to a built-in type
+		const result = await this.query(sql`
+			UPDATE ${name(table)} SET ${set}
+			FROM json_populate_recordset(
+				(SELECT "t" FROM ${name(table)} AS "t" LIMIT 0), ${json}::text::json
+			) AS "v"
+			WHERE ${name(table)}.${name(key)} = "v".${name(key)}`
+		);
 		return result.count;
 	}
 
-	/** Deletes rows from the given table by the given conditions */
-	public async delete(table: string, conditions?: Conditions): Promise<number> {
+	/**
+	 * Returns the next `count` values of the sequence of the given serial column (e.g. to know the ids before inserting).
+	 * The values are unique, even if they are reserved concurrently
+	 */
+	public async reserveIds(table: string, column: string, count: number): Promise<DBValue[]> {
+		const {sql, name} = this;
+		const quotedTable = `"${table.replace(/"/g, `""`)}"`;
+		const result = await this.query(sql`
+			SELECT nextval(pg_get_serial_sequence(${quotedTable}, ${column})) AS ${name("id")}
+			FROM generate_series(1, ${count})`
+		);
+		return Array.from(result).map(row => row.id);
+	}
+
+	/**
+	 * Sets the sequence of the given serial column to the maximum value of this column,
+	 * so that the next generated value doesn't conflict with the rows inserted with explicit values
+	 */
+	public async syncSequence(table: string, column: string): Promise<void> {
+		const {sql, name} = this;
+		const quotedTable = `"${table.replace(/"/g, `""`)}"`;
+		await this.query(sql`
+			SELECT setval(pg_get_serial_sequence(${quotedTable}, ${column}), max(${name(column)}))
+			FROM ${name(table)} HAVING max(${name(column)}) IS NOT NULL`
+		);
+	}
+
+	/**
+	 * Deletes rows from the given table by the given conditions.
+	 * Returns the number of deleted rows or (if `returning` is specified) the deleted rows
+	 */
+	public async delete(table: string, conditions: Conditions | undefined, options: ReturningOptions): Promise<Row[]>;
+	public async delete(table: string, conditions?: Conditions): Promise<number>;
+	public async delete(table: string, conditions?: Conditions, options?: ReturningOptions): Promise<number | Row[]> {
 		const {sql, name} = this;
 		const where = this.getWhere(conditions);
-		const result = await this.query(sql`DELETE FROM ${name(table)} WHERE ${where}`);
-		return result.count;
+		return await this.execute(sql`DELETE FROM ${name(table)} WHERE ${where}`, options?.returning);
 	}
 
-	/** Creates a table with the given fields and indexes using the given options */
+	/**
+	 * Creates a table with the given fields and indexes using the given options.
+	 * Primary keys and simple unique indexes are created as constraints, other indexes are created separately
+	 */
 	public async createTable(
 		table: string, fields: FieldDefinition[], indexes: IndexDefinition[], options?: Partial<CreateTableOptions>
 	): Promise<void> {
@@ -179,21 +580,24 @@ export default class DB {
 
 		const indexesToCreate: IndexDefinition[] = [];
 		for (const index of indexes) {
-			const indexName = (index.name ? sql`CONSTRAINT ${name(index.name)} ` : sql``);
-			const fields = this.postgres(index.fields ? index.fields : [index.field]);
-			if (index.type == IndexType.Primary) {
-				parts.push(sql`${indexName}PRIMARY KEY (${fields})`);
-			} else if (index.type == IndexType.Unique) {
-				parts.push(sql`${indexName}UNIQUE (${fields})`);
+			const isConstraint = (
+				index.type == IndexType.Primary ||
+				index.type == IndexType.Unique && !index.expression && !index.where && !index.method
+			);
+			if (isConstraint) {
+				parts.push(this.buildConstraintIndexString(index));
 			} else {
 				indexesToCreate.push(index);
 			}
 		}
-
-		for (let i = 0; i < parts.length; i++) {
-			query = sql`${query}${parts[i]}${i + 1 < parts.length ? sql`, ` : sql``}`;
+		for (const foreignKey of options?.foreignKeys ?? []) {
+			parts.push(this.buildForeignKeyString(foreignKey));
 		}
-		query = sql`${query})`;
+		for (const check of options?.checks ?? []) {
+			parts.push(this.buildCheckString(check));
+		}
+
+		query = sql`${query}${this.joinParts(parts, sql`, `)})`;
 		await this.query(query);
 
 		for (const index of indexesToCreate) {
@@ -205,13 +609,11 @@ export default class DB {
 	public async createIndex(
 		table: string, index: IndexDefinition, options?: Partial<CreateIndexOptions>
 	): Promise<void> {
-		const {sql, name} = this;
-		const fields = this.postgres(index.fields ? index.fields : index.field);
+		const {sql, name, unsafe} = this;
 
 		if (index.type == IndexType.Primary) {
 			assert(!options?.ifNotExists);
-			const indexName = (index.name ? sql`CONSTRAINT ${name(index.name)} ` : sql``);
-			await this.query(sql`ALTER TABLE ${name(table)} ADD ${indexName}PRIMARY KEY (${fields})`);
+			await this.query(sql`ALTER TABLE ${name(table)} ADD ${this.buildConstraintIndexString(index)}`);
 			return;
 		}
 
@@ -222,7 +624,14 @@ export default class DB {
 		if (index.name) {
 			query = sql`${query}${name(index.name)} `;
 		}
-		query = sql`${query}ON ${name(table)} (${fields})`;
+		query = sql`${query}ON ${name(table)} `;
+		if (index.method) {
+			query = sql`${query}USING ${unsafe(index.method)} `;
+		}
+		query = sql`${query}(${this.buildIndexKeys(index)})${this.buildIndexInclude(index)}`;
+		if (index.where) {
+			query = sql`${query} WHERE ${unsafe(index.where)}`;
+		}
 		await this.query(query);
 	}
 
@@ -230,7 +639,20 @@ export default class DB {
 	public async dropIndex(indexName: string, options?: Partial<DropIndexOptions>): Promise<void> {
 		const {sql, name} = this;
 		const ifExists = (options?.ifExists ? sql`IF EXISTS ` : sql``);
-		await this.query(sql`DROP INDEX ${ifExists}${name(indexName)}`);
+		const cascade = (options?.cascade ? sql` CASCADE` : sql``);
+		await this.query(sql`DROP INDEX ${ifExists}${name(indexName)}${cascade}`);
+	}
+
+	/** Adds a foreign key to the given table. The referenced table should already exist */
+	public async createForeignKey(table: string, foreignKey: ForeignKeyDefinition): Promise<void> {
+		const {sql, name} = this;
+		await this.query(sql`ALTER TABLE ${name(table)} ADD ${this.buildForeignKeyString(foreignKey)}`);
+	}
+
+	/** Adds a check constraint to the given table */
+	public async createCheck(table: string, check: CheckDefinition): Promise<void> {
+		const {sql, name} = this;
+		await this.query(sql`ALTER TABLE ${name(table)} ADD ${this.buildCheckString(check)}`);
 	}
 
 	/** Drops the given table using the given options */
@@ -240,6 +662,188 @@ export default class DB {
 		await this.query(sql`DROP TABLE${ifExists} ${name(table)}`);
 	}
 
+	/** Drops the given constraint (e.g. a primary key or a unique constraint) */
+	public async dropConstraint(table: string, constraint: string): Promise<void> {
+		const {sql, name} = this;
+		await this.query(sql`ALTER TABLE ${name(table)} DROP CONSTRAINT ${name(constraint)}`);
+	}
+
+	/** Returns the names of all tables in the current schema */
+	public async getTables(): Promise<string[]> {
+		const result = await this.query(this.sql`
+			SELECT table_name FROM information_schema.tables
+			WHERE table_schema = current_schema() AND table_type = 'BASE TABLE'
+			ORDER BY table_name`
+		);
+		return Array.from(result).map(row => row.table_name as string);
+	}
+
+	/**
+	 * Returns the definitions of all columns of the given table (in the same order as in the table).
+	 * Integer columns with a sequence as the default value are returned as serial columns.
+	 * The limits of array elements (e.g. `character varying(20)[]`) are not returned, as PostgreSQL doesn't keep them
+	 */
+	public async getFields(table: string): Promise<FieldDefinition[]> {
+		const result = await this.query(this.sql`
+			SELECT c.column_name, c.data_type, c.udt_name, c.character_maximum_length, c.numeric_precision,
+				c.numeric_scale, c.is_nullable, c.column_default,
+				e.data_type AS element_type, e.udt_name AS element_udt_name
+			FROM information_schema.columns c
+			LEFT JOIN information_schema.element_types e
+				ON (e.object_catalog, e.object_schema, e.object_name, e.object_type, e.collection_type_identifier) =
+					(c.table_catalog, c.table_schema, c.table_name, 'TABLE', c.dtd_identifier)
+			WHERE c.table_schema = current_schema() AND c.table_name = ${table}
+			ORDER BY c.ordinal_position`
+		);
+		const rows = Array.from(result);
+		const hasEnums = rows.some(row => [row.data_type, row.element_type].includes(FieldType.Enum));
+		const enums = (hasEnums ? await this.getEnums() : []);
+		return rows.map(row => {
+			const isArray = (row.data_type == "ARRAY");
+			const field: FieldDefinition = {
+				name: row.column_name as string,
+				type: (isArray ? row.element_type : row.data_type) as FieldType,
+				nullable: row.is_nullable == "YES",
+			};
+			if (isArray) {
+				field.array = true;
+			}
+			if (row.character_maximum_length !== null) {
+				field.limit = row.character_maximum_length as number;
+			}
+			if (field.type == FieldType.Numeric && row.numeric_precision !== null) {
+				field.precision = row.numeric_precision as number;
+				field.scale = row.numeric_scale as number;
+			}
+			const enumDefinition = enums.find(({name}) => name == (isArray ? row.element_udt_name : row.udt_name));
+			if (field.type == FieldType.Enum && enumDefinition) {
+				field.enum = enumDefinition;
+			}
+			const defaultValue = row.column_default as string | null;
+			if (defaultValue?.startsWith("nextval(") && [FieldType.Int, FieldType.BigInt].includes(field.type)) {
+				field.type = (field.type == FieldType.Int ? FieldType.Serial : FieldType.BigSerial);
+			} else if (defaultValue !== null) {
+				field.default = DB.parseDefaultValue(defaultValue);
+			}
+			return field;
+		});
+	}
+
+	/** Returns the info about all indexes of the given table (including primary keys and unique constraints) */
+	public async getIndexes(table: string): Promise<IndexInfo[]> {
+		const result = await this.query(this.sql`
+			SELECT i.indexname, i.indexdef, c.constraint_type
+			FROM pg_indexes i
+			LEFT JOIN information_schema.table_constraints c
+				ON c.table_schema = i.schemaname AND c.table_name = i.tablename AND c.constraint_name = i.indexname
+			WHERE i.schemaname = current_schema() AND i.tablename = ${table}
+			ORDER BY i.indexname`
+		);
+		return Array.from(result).map(row => {
+			const definition = (row.indexdef as string).match(
+				/^CREATE (UNIQUE )?INDEX .+? USING (\w+) \((.+?)\)(?: INCLUDE \((.+?)\))?(?: WHERE (.+))?$/
+			);
+			assert(definition, `Unable to parse the definition of the index ${row.indexname}.`);
+			const [, unique, method, keys, include, where] = definition;
+			const type = (
+				row.constraint_type == "PRIMARY KEY" ? IndexType.Primary :
+					unique ? IndexType.Unique : IndexType.Index
+			);
+			const index: IndexInfo = {
+				fields: DB.parseIdentifiers(keys), type, name: row.indexname as string,
+				constraint: row.constraint_type !== null,
+			};
+			if (method != IndexMethod.BTree) {
+				index.method = method as IndexMethod;
+			}
+			if (include) {
+				index.include = DB.parseIdentifiers(include);
+			}
+			if (where) {
+				index.where = where;
+			}
+			return index;
+		});
+	}
+
+	/** Returns the info about all foreign keys of the given table */
+	public async getForeignKeys(table: string): Promise<ForeignKeyInfo[]> {
+		const action = `(${Object.values(ReferentialAction).join("|")})`;
+		const regExp = new RegExp(
+			`^FOREIGN KEY \\((.+?)\\) REFERENCES (.+?)\\((.+?)\\)(?: MATCH \\w+)?` +
+			`(?: ON UPDATE ${action})?(?: ON DELETE ${action})?`
+		);
+		const rows = await this.getConstraints(table, "f");
+		return rows.map(row => {
+			const definition = (row.definition as string).match(regExp);
+			assert(definition, `Unable to parse the definition of the foreign key ${row.conname}.`);
+			const [, fields, references, referencedFields, onUpdate, onDelete] = definition;
+			return {
+				fields: DB.parseIdentifiers(fields),
+				references: DB.parseIdentifiers(references)[0],
+				referencedFields: DB.parseIdentifiers(referencedFields),
+				onDelete: (onDelete ?? ReferentialAction.NoAction) as ReferentialAction,
+				onUpdate: (onUpdate ?? ReferentialAction.NoAction) as ReferentialAction,
+				name: row.conname as string,
+			};
+		});
+	}
+
+	/** Returns the info about all check constraints of the given table */
+	public async getChecks(table: string): Promise<CheckInfo[]> {
+		const rows = await this.getConstraints(table, "c");
+		return rows.map(row => {
+			const definition = (row.definition as string).match(/^CHECK \((.+)\)$/);
+			assert(definition, `Unable to parse the definition of the check constraint ${row.conname}.`);
+			return {expression: definition[1], name: row.conname as string};
+		});
+	}
+
+	/**
+	 * Creates a native enum type (`CREATE TYPE ... AS ENUM`).
+	 * Note that the arrays of this enum can only be used with the connections that were opened after its creation,
+	 * since postgres.js loads the array types when connecting
+	 */
+	public async createEnum(enumDefinition: EnumDefinition): Promise<void> {
+		const {sql, name, unsafe} = this;
+		// The values can't be passed as parameters here
+		const values = unsafe(enumDefinition.values.map(DB.quoteLiteral).join(", "));
+		await this.query(sql`CREATE TYPE ${name(enumDefinition.name)} AS ENUM (${values})`);
+	}
+
+	/**
+	 * Adds the given values to the end of the existing enum type (the existing values are skipped).
+	 * Note that PostgreSQL doesn't allow using the added values in the same transaction
+	 */
+	public async addEnumValues(enumName: string, values: string[]): Promise<void> {
+		const {sql, name, unsafe} = this;
+		for (const value of values) {
+			const label = unsafe(DB.quoteLiteral(value));
+			await this.query(sql`ALTER TYPE ${name(enumName)} ADD VALUE IF NOT EXISTS ${label}`);
+		}
+	}
+
+	/** Drops the given enum type using the given options */
+	public async dropEnum(enumName: string, options?: Partial<DropEnumOptions>): Promise<void> {
+		const {sql, name} = this;
+		const ifExists = (options?.ifExists ? sql` IF EXISTS` : sql``);
+		await this.query(sql`DROP TYPE${ifExists} ${name(enumName)}`);
+	}
+
+	/** Returns all enum types in the current schema with their values */
+	public async getEnums(): Promise<EnumDefinition[]> {
+		const result = await this.query(this.sql`
+			SELECT t.typname, array_agg(e.enumlabel ORDER BY e.enumsortorder)::text[] AS labels
+			FROM pg_type t
+			JOIN pg_enum e ON e.enumtypid = t.oid
+			JOIN pg_namespace n ON n.oid = t.typnamespace
+			WHERE n.nspname = current_schema()
+			GROUP BY t.typname
+			ORDER BY t.typname`
+		);
+		return Array.from(result).map(row => ({name: row.typname as string, values: row.labels as string[]}));
+	}
+
 	/** Creates a column by the given field definition */
 	public async createColumn(table: string, field: FieldDefinition): Promise<void> {
 		const {sql, name} = this;
@@ -262,11 +866,11 @@ export default class DB {
 			);
 		}
 
-		if (oldField.type != newField.type) {
-			const limit = (newField.limit ? sql`(${unsafe(newField.limit.toString())})` : sql``);
-			const type = sql`${unsafe(newField.type)}${limit}`;
+		const type = unsafe(DB.getTypeName(newField));
+		if (DB.getTypeName(oldField) != DB.getTypeName(newField)) {
+			// The explicit cast is necessary e.g. to convert text to an enum
 			await this.query(
-				sql`ALTER TABLE ${name(table)} ALTER COLUMN ${fieldName} TYPE ${type}`
+				sql`ALTER TABLE ${name(table)} ALTER COLUMN ${fieldName} TYPE ${type} USING ${fieldName}::${type}`
 			);
 		}
 
@@ -298,61 +902,355 @@ export default class DB {
 		}
 	}
 
+	/** Returns a DB instance that wraps the given connection reserved from the pool of this instance */
+	private wrap(
+		connection: TransactionSql<(typeof this.postgres extends Sql<infer U> ? U : never)> |
+			ReservedSql<(typeof this.postgres extends Sql<infer U> ? U : never)>
+	): DB {
+		const db = new DB(connection);
+		db.pool = this.pool;
+		return db;
+	}
+
+	/**
+	 * Runs the callback function that uses a connection of the pool (to execute a query or to reserve it)
+	 * and counts it in the pool usage, see {@link DB.getPoolStats}
+	 */
+	private async usePool<T>(cb: () => Promise<T>): Promise<T> {
+		if (this.reserved) {
+			return await cb();
+		}
+		this.pool.busy++;
+		try {
+			return await cb();
+		} finally {
+			this.pool.busy--;
+		}
+	}
+
+	/** Returns the DB instance to read with the given options: the next replica (round-robin) or this instance */
+	private getReadDB(options?: Partial<SelectOptions>): DB {
+		if (this.replicas.length < 1 || options?.primary || Service.isPinnedToPrimary()) {
+			return this;
+		}
+		this.lastReplica = (this.lastReplica + 1) % this.replicas.length;
+		return this.replicas[this.lastReplica];
+	}
+
+	/**
+	 * Records the execution time of the given query in {@link QueryStats} and logs it if it is slow.
+	 * `EXPLAIN` is only executed for explainable queries (see {@link DB.runQuery}) and not on reserved connections,
+	 * since it would hold the connection (e.g. with an advisory lock) and its failure would abort a transaction
+	 */
+	private logQuery(query: ExecutedQuery, duration: number, explainable: boolean): void {
+		const statement = QueryStats.normalize(query.statement.string);
+		QueryStats.record(statement, duration);
+		const {slowQueryThreshold, explainSlowQueries} = DB.options;
+		if (slowQueryThreshold <= 0 || duration < slowQueryThreshold) {
+			return;
+		}
+		DB.logger.warn(
+			`Slow query (${duration.toFixed(1)} ms, ${query.parameters.length} parameter(s)): ${statement}`
+		);
+		if (explainSlowQueries && explainable && !this.reserved) {
+			this.explain(query).catch(DB.logger.warn);
+		}
+	}
+
+	/** Executes `EXPLAIN (ANALYZE, BUFFERS)` for the given query with the same parameters and logs the plan */
+	private async explain(query: ExecutedQuery): Promise<void> {
+		const rows = await this.postgres.unsafe(`EXPLAIN (ANALYZE, BUFFERS) ${query.statement.string}`, query.parameters);
+		const plan = Array.from(rows).map(row => row["QUERY PLAN"] as string).join("\n");
+		DB.logger.warn(`Plan of the slow query ${QueryStats.normalize(query.statement.string)}:\n${plan}`);
+	}
+
+	/**
+	 * Executes the given `INSERT`, `UPDATE` or `DELETE` query.
+	 * Returns the number of affected rows or (if `returning` is specified) the affected rows
+	 */
+	private async execute(query: SqlFragment, returning?: string[]): Promise<number | Row[]> {
+		const {sql, name} = this;
+		if (!returning) {
+			return (await this.query(query)).count;
+		}
+		assert(returning.length > 0, "Specify at least one column to return (or * for all columns).");
+		const columns = this.joinParts(returning.map(column => (column == "*" ? sql`*` : sql`${name(column)}`)), sql`, `);
+		return Array.from(await this.query(sql`${query} RETURNING ${columns}`));
+	}
+
+	/**
+	 * Splits the given rows in chunks so that each query has at most {@link DB.MAX_PARAMETERS} parameters,
+	 * and executes the query built by `buildQuery` for each chunk. Returns the total result, see {@link DB.execute}
+	 */
+	private async executeInChunks(
+		data: {[column: string]: DBValue} | {[column: string]: DBValue}[],
+		buildQuery: (chunk: {[column: string]: DBValue}[]) => SqlFragment, returning?: string[]
+	): Promise<number | Row[]> {
+		const rows = (data instanceof Array ? data : [data]);
+		DB.checkColumns(rows);
+		const chunkSize = Math.floor(DB.MAX_PARAMETERS / Math.max(1, Object.keys(rows[0] ?? {}).length));
+		let count = 0;
+		const result: Row[] = [];
+		for (let i = 0; i < rows.length; i += chunkSize) {
+			const chunkResult = await this.execute(buildQuery(rows.slice(i, i + chunkSize)), returning);
+			if (chunkResult instanceof Array) {
+				result.push(...chunkResult);
+			} else {
+				count += chunkResult;
+			}
+		}
+		return (returning ? result : count);
+	}
+
 	/** Builds {@link SqlFragment} with the field definition. It can then be used for `CREATE TABLE` or `ALTER TABLE` */
 	private buildFieldString(field: FieldDefinition): SqlFragment {
 		const {sql, name, unsafe} = this;
-		const limit = (field.limit ? sql`(${unsafe(field.limit.toString())})` : sql``);
+		assert(field.type != FieldType.Enum || field.enum, `The enum type of ${field.name} is not specified.`);
 		const defaultValue = (field.default ? sql` DEFAULT ${unsafe(field.default.toString())}` : sql``);
 		const nullable = (field.nullable ? sql`` : sql` NOT NULL`);
-		return sql`${name(field.name)} ${unsafe(field.type)}${limit}${defaultValue}${nullable}`;
+		return sql`${name(field.name)} ${unsafe(DB.getTypeName(field))}${defaultValue}${nullable}`;
+	}
+
+	/** Builds {@link SqlFragment} with the primary key or unique constraint, e.g. for `CREATE TABLE` */
+	private buildConstraintIndexString(index: IndexDefinition): SqlFragment {
+		const {sql, name} = this;
+		assert(
+			!index.expression && !index.where && !index.method,
+			"Primary keys and unique constraints can't be partial, use expressions or index methods."
+		);
+		const constraintName = (index.name ? sql`CONSTRAINT ${name(index.name)} ` : sql``);
+		const type = (index.type == IndexType.Primary ? sql`PRIMARY KEY` : sql`UNIQUE`);
+		return sql`${constraintName}${type} (${this.buildIndexKeys(index)})${this.buildIndexInclude(index)}`;
 	}
 
-	/** Transforms the given conditions in {@link SqlFragment} so that it can be directly inserted after `WHERE` */
-	private getWhere(conditions?: Conditions): SqlFragment {
+	/** Builds {@link SqlFragment} with the index keys (either the fields or the expression) */
+	private buildIndexKeys(index: IndexDefinition): SqlFragment {
+		if (index.expression !== undefined) {
+			return this.unsafe(index.expression);
+		}
+		return this.sql`${this.postgres(index.fields ?? [index.field])}`;
+	}
+
+	/** Builds {@link SqlFragment} with the `INCLUDE` clause of the index (or an empty one) */
+	private buildIndexInclude(index: IndexDefinition): SqlFragment {
 		const {sql} = this;
+		return (index.include && index.include.length > 0 ? sql` INCLUDE (${this.postgres(index.include)})` : sql``);
+	}
+
+	/** Builds {@link SqlFragment} with the foreign key constraint, e.g. for `CREATE TABLE` */
+	private buildForeignKeyString(foreignKey: ForeignKeyDefinition): SqlFragment {
+		const {sql, name, unsafe} = this;
+		const constraintName = (foreignKey.name ? sql`CONSTRAINT ${name(foreignKey.name)} ` : sql``);
+		const fields = this.postgres(foreignKey.fields);
+		const referencedFields = this.postgres(foreignKey.referencedFields ?? ["id"]);
+		const onDelete = unsafe(foreignKey.onDelete ?? ReferentialAction.NoAction);
+		const onUpdate = unsafe(foreignKey.onUpdate ?? ReferentialAction.NoAction);
+		const references = sql`${name(foreignKey.references)} (${referencedFields})`;
+		const actions = sql`ON DELETE ${onDelete} ON UPDATE ${onUpdate}`;
+		return sql`${constraintName}FOREIGN KEY (${fields}) REFERENCES ${references} ${actions}`;
+	}
+
+	/** Builds {@link SqlFragment} with the check constraint, e.g. for `CREATE TABLE` */
+	private buildCheckString(check: CheckDefinition): SqlFragment {
+		const {sql, name, unsafe} = this;
+		const constraintName = (check.name ? sql`CONSTRAINT ${name(check.name)} ` : sql``);
+		return sql`${constraintName}CHECK (${unsafe(check.expression)})`;
+	}
+
+	/** Returns the names and the definitions of the constraints of the given type (e.g. `f` for foreign keys) */
+	private async getConstraints(table: string, type: string): Promise<Row[]> {
+		const result = await this.query(this.sql`
+			SELECT con.conname, pg_get_constraintdef(con.oid) AS definition
+			FROM pg_constraint con
+			JOIN pg_class rel ON rel.oid = con.conrelid
+			JOIN pg_namespace nsp ON nsp.oid = rel.relnamespace
+			WHERE nsp.nspname = current_schema() AND rel.relname = ${table} AND con.contype = ${type}
+			ORDER BY con.conname`
+		);
+		return Array.from(result);
+	}
+
+	/**
+	 * Transforms the given conditions in {@link SqlFragment} so that it can be directly inserted after `WHERE`
+	 * (or after `HAVING`, in this case the given aggregates can be used in the conditions by their aliases)
+	 */
+	private getWhere(conditions?: Conditions, aggregates = new Map<string, Aggregate>): SqlFragment {
+		const {sql, name} = this;
 		if (!conditions || conditions instanceof Array && conditions.length < 1) {
 			return sql`true`;
 		} else if (!(conditions instanceof Array)) {
-			return this.getWhere([conditions]);
+			return this.getWhere([conditions], aggregates);
 		}
 
 		const orParts: SqlFragment[] = [];
 		for (const condition of conditions) {
 			const andParts: SqlFragment[] = [];
 			if (condition[and]) {
-				andParts.push(...condition[and].map(this.getWhere.bind(this)));
+				andParts.push(...condition[and].map(subcondition => this.getWhere(subcondition, aggregates)));
 			}
 			if (condition[or]) {
-				andParts.push(sql`(${this.getWhere(condition[or])})`);
+				andParts.push(sql`(${this.getWhere(condition[or], aggregates)})`);
+			}
+			if (condition[negation]) {
+				andParts.push(sql`NOT (${this.getWhere(condition[negation], aggregates)})`);
 			}
 			for (const [field, value] of Object.entries(condition)) {
-				andParts.push(this.buildCondition(field, value));
+				const aggregate = aggregates.get(field);
+				andParts.push(this.buildCondition(aggregate ? this.buildAggregate(aggregate) : sql`${name(field)}`, value));
 			}
 			orParts.push(sql`(${this.buildWhereParts(andParts)})`);
 		}
 		return this.buildWhereParts(orParts, false);
 	}
 
-	/** Builds a single condition, e.g. `"name"=$1`, `"id" IN ($1, $2, $3)` or `"status" >= $1` */
-	private buildCondition(
-		field: string, value: DBValue | DBValue[] | Operator
-	): SqlFragment {
+	/** Builds a `SELECT`-query, see {@link DB.select} */
+	private buildSelect(table: string, conditions?: Conditions, options?: Partial<SelectOptions>): SqlFragment {
 		const {sql, name, unsafe} = this;
+		const aggregates = new Map(Object.entries(options?.aggregates ?? {}));
+		const fields = [
+			...(options?.fields ?? []).map(field => sql`${name(field)}`),
+			...Array.from(aggregates).map(([alias, aggregate]) => sql`${this.buildAggregate(aggregate)} AS ${name(alias)}`),
+		];
+		const distinct = (options?.distinct ? sql`DISTINCT ` : sql``);
+		const fieldList = (fields.length > 0 ? this.joinParts(fields, sql`, `) : sql`*`);
+		let query = sql`SELECT ${distinct}${fieldList} FROM ${name(table)}`;
+		for (const join of options?.joins ?? []) {
+			query = sql`${query} ${this.buildJoin(join)}`;
+		}
+
+		let where = this.getWhere(conditions);
+		if (options?.after) {
+			where = sql`(${where}) AND (${this.buildKeysetCondition(options.orderBy ?? [], options.after)})`;
+		}
+		query = sql`${query} WHERE ${where}`;
+		if (options?.groupBy && options.groupBy.length > 0) {
+			query = sql`${query} GROUP BY ${this.joinParts(options.groupBy.map(field => sql`${name(field)}`), sql`, `)}`;
+		}
+		if (options?.having) {
+			query = sql`${query} HAVING ${this.getWhere(options.having, aggregates)}`;
+		}
+		if (options?.orderBy && options.orderBy.length > 0) {
+			const orderBy = options.orderBy.map(({field, direction}) => (
+				sql`${name(field)} ${unsafe(direction ?? OrderDirection.Asc)}`
+			));
+			query = sql`${query} ORDER BY ${this.joinParts(orderBy, sql`, `)}`;
+		}
+		if (options?.limit !== undefined) {
+			assert(Number.isInteger(options.limit) && options.limit >= 0, "The limit should be a non-negative integer.");
+			query = sql`${query} LIMIT ${options.limit}`;
+		}
+		if (options?.offset !== undefined) {
+			assert(Number.isInteger(options.offset) && options.offset >= 0, "The offset should be a non-negative integer.");
+			query = sql`${query} OFFSET ${options.offset}`;
+		}
+		if (options?.forUpdate) {
+			query = sql`${query} FOR UPDATE`;
+		}
+
+		return query;
+	}
+
+	/** Builds a single condition, e.g. `"name"=$1`, `"id" IN ($1, $2, $3)`, `"status" >= $1` or `"guild" IS NULL` */
+	private buildCondition(field: SqlFragment, value: OperatorOperand): SqlFragment {
+		const {sql} = this;
 		if (value instanceof Array) {
-			return sql`${name(field)} IN ${this.postgres(value)}`;
-		} else if (value instanceof Operator && value.operand2) {
-			return sql`${name(field)} ${unsafe(value.operator)} ${value.operand} AND ${value.operand2}`;
+			return sql`${field} IN ${this.postgres(value)}`;
 		} else if (value instanceof Operator) {
-			return sql`${name(field)} ${unsafe(value.operator)} ${value.operand}`;
+			return this.buildOperator(field, value);
+		} else if (value === null) {
+			return sql`${field} IS NULL`;
+		} else {
+			return sql`${field} = ${value}`;
+		}
+	}
+
+	/** Builds a condition with the given operator, see {@link Operator} */
+	private buildOperator(field: SqlFragment, {operator, operand, operand2}: Operator): SqlFragment {
+		const {sql, unsafe} = this;
+		if (operator == "NOT") {
+			assert(operand !== undefined, "NOT requires an operand.");
+			return sql`NOT (${this.buildCondition(field, operand)})`;
+		} else if (operator == "NOT IN") {
+			assert(operand instanceof Array, "NOT IN requires an array of values.");
+			return sql`${field} NOT IN ${this.postgres(operand)}`;
+		} else if (operator == "= ANY") {
+			return sql`${this.buildOperand(operand)} = ANY(${field})`;
+		} else if (operator == "@>" && !(operand instanceof Array)) {
+			// It is JSON containment (see jsonContains), the value is encoded by postgres.js using the jsonb type
+			return sql`${field} @> ${this.buildOperand(operand)}::jsonb`;
+		} else if (operator == "@@" && operand2 !== undefined) {
+			const config = sql`${operand2}::regconfig`;
+			return sql`to_tsvector(${config}, ${field}) @@ plainto_tsquery(${config}, ${this.buildOperand(operand)})`;
+		} else if (operator == "@@") {
+			return sql`to_tsvector(${field}) @@ plainto_tsquery(${this.buildOperand(operand)})`;
+		} else if (operand2 !== undefined) {
+			return sql`${field} ${unsafe(operator)} ${this.buildOperand(operand)} AND ${operand2}`;
+		} else if (operand !== undefined) {
+			return sql`${field} ${unsafe(operator)} ${this.buildOperand(operand)}`;
 		} else {
-			return sql`${name(field)} = ${value}`;
+			return sql`${field} ${unsafe(operator)}`;
 		}
 	}
 
-	/** Connects the given SQL fragments with `AND` or `OR` (depending on the value of `conjunction`) */
+	/** Builds the operand of {@link Operator}. Arrays are passed as PostgreSQL arrays */
+	private buildOperand(operand?: OperatorOperand): SqlFragment {
+		const {sql} = this;
+		assert(operand !== undefined && !(operand instanceof Operator), "The operator requires a value as operand.");
+		return (operand instanceof Array ? sql`${this.postgres.array(operand)}` : sql`${operand}`);
+	}
+
+	/** Builds an aggregate function call, e.g. `count(*)` or `sum("points")` */
+	private buildAggregate(aggregate: Aggregate): SqlFragment {
+		const {sql, name, unsafe} = this;
+		const distinct = (aggregate.distinct ? sql`DISTINCT ` : sql``);
+		return sql`${unsafe(aggregate.func)}(${distinct}${aggregate.field ? name(aggregate.field) : sql`*`})`;
+	}
+
+	/** Builds a join, e.g. `LEFT JOIN "user" ON "user"."id" = "item"."owner_id"` */
+	private buildJoin(join: Join): SqlFragment {
+		const {sql, name, unsafe} = this;
+		const on = Object.entries(join.on).map(([field, otherField]) => sql`${name(field)} = ${name(otherField)}`);
+		assert(on.length > 0, `The join with ${join.table} has no conditions.`);
+		const alias = (join.alias ? sql` AS ${name(join.alias)}` : sql``);
+		return sql`${unsafe(join.type ?? JoinType.Inner)} JOIN ${name(join.table)}${alias} ON ${this.buildWhereParts(on)}`;
+	}
+
+	/**
+	 * Builds the condition for keyset pagination (see {@link SelectOptions.after}), e.g.
+	 * `("points" < $1) OR ("points" = $2 AND "id" > $3)` for `ORDER BY "points" DESC, "id" ASC`
+	 */
+	private buildKeysetCondition(orderBy: OrderBy[], after: DBValue[]): SqlFragment {
+		const {sql, name} = this;
+		assert(
+			after.length > 0 && after.length <= orderBy.length,
+			"The number of values for keyset pagination should not exceed the number of orderBy fields."
+		);
+		const orParts = after.map((value, i) => {
+			const andParts = after.slice(0, i).map((previousValue, j) => sql`${name(orderBy[j].field)} = ${previousValue}`);
+			const comparison = (orderBy[i].direction == OrderDirection.Desc ? sql`<` : sql`>`);
+			andParts.push(sql`${name(orderBy[i].field)} ${comparison} ${value}`);
+			return sql`(${this.buildWhereParts(andParts)})`;
+		});
+		return this.buildWhereParts(orParts, false);
+	}
+
+	/** Connects the given SQL fragments with the given separator, e.g. `, ` */
+	private joinParts(parts: SqlFragment[], separator: SqlFragment): SqlFragment {
+		const sql = this.sql;
+		let result = sql``;
+		parts.forEach((part, i) => {
+			result = (i == 0 ? part : sql`${result}${separator}${part}`);
+		});
+		return result;
+	}
+
+	/**
+	 * Connects the given SQL fragments with `AND` or `OR` (depending on the value of `conjunction`).
+	 * Returns `true` if there are no fragments (e.g. for an empty condition object)
+	 */
 	private buildWhereParts(parts: SqlFragment[], conjunction = true): SqlFragment {
 		const sql = this.sql;
-		let where = sql``;
+		let where = sql`true`;
 		let isBegin = true;
 		for (const part of parts) {
 			if (isBegin) {
@@ -366,4 +1264,76 @@ export default class DB {
 		}
 		return where;
 	}
+
+	/**
+	 * Returns the SQL type of the given field definition, e.g. `character varying(20)`, `numeric(10, 2)`
+	 * or `"item_rarity"[]`
+	 */
+	public static getTypeName(field: FieldDefinition): string {
+		let type: string = field.type;
+		if (field.type == FieldType.Enum && field.enum) {
+			type = `"${field.enum.name.replace(/"/g, `""`)}"`;
+		}
+		if (field.limit) {
+			type += `(${field.limit})`;
+		} else if (field.precision !== undefined) {
+			type += `(${field.precision}, ${field.scale ?? 0})`;
+		}
+		return (field.array ? `${type}[]` : type);
+	}
+
+	/** Checks that the given rows have the same columns, since the columns of a multi-row query are taken from the first row */
+	private static checkColumns(rows: {[column: string]: DBValue}[]): void {
+		const columns = JSON.stringify(Object.keys(rows[0] ?? {}).sort());
+		assert(rows.every(row => JSON.stringify(Object.keys(row).sort()) == columns), "All rows should have the same columns.");
+	}
+
+	/** Returns the given string as a SQL string literal, e.g. `it's` becomes `'it''s'` */
+	private static quoteLiteral(value: string): string {
+		return `'${value.replace(/'/g, `''`)}'`;
+	}
+
+	/**
+	 * Converts the default value of a column (as it is stored in `information_schema`) to {@link DBValue}.
+	 * Numbers and booleans are converted, string literals lose their type casts
+	 * (e.g. `'test'::text` becomes `'test'`), other expressions (e.g. `now()`) are returned as is
+	 */
+	private static parseDefaultValue(defaultValue: string): DBValue {
+		if (/^-?\d+(\.\d+)?$/.test(defaultValue)) {
+			return Number(defaultValue);
+		} else if (defaultValue == "true" || defaultValue == "false") {
+			return defaultValue == "true";
+		} else if (defaultValue == "NULL" || defaultValue.startsWith("NULL::")) {
+			return null;
+		}
+		return defaultValue.replace(/^('(?:[^']|'')*')::[\w ]+$/, "$1");
+	}
+
+	/**
+	 * Splits the given comma-separated list (e.g. the index keys as formatted by PostgreSQL) on the top level,
+	 * and unquotes the quoted identifiers. Other items (e.g. expressions like `lower((name)::text)`) are returned as is
+	 */
+	private static parseIdentifiers(list: string): string[] {
+		const result: string[] = [];
+		let depth = 0;
+		let quote: string | undefined;
+		let start = 0;
+		for (let i = 0; i <= list.length; i++) {
+			const char = list[i];
+			if (quote) {
+				quote = (char == quote ? undefined : quote);
+			} else if (char == `"` || char == "'") {
+				quote = char;
+			} else if (char == "(") {
+				depth++;
+			} else if (char == ")") {
+				depth--;
+			} else if (i == list.length || depth == 0 && char == ",") {
+				const item = list.slice(start, i).trim();
+				result.push(/^"([^"]|"")*"$/.test(item) ? item.slice(1, -1).replace(/""/g, `"`) : item);
+				start = i + 1;
+			}
+		}
+		return result;
+	}
 }
\ No newline at end of file
@@ -1,8 +1,18 @@
 import {SerializablePrimitive} from "../core/typings.js";
+import Aggregate from "./aggregate.js";
 import Operator from "./operator.js";
 
-/** Any primitive value that can be stored in the database */
-export type DBValue = SerializablePrimitive | bigint;
+/**
+ * A JSON object for `jsonb` columns, they are also selected as objects.
+ * It shouldn't be passed as a string, otherwise it would be stored as a JSON string
+ */
+export type JsonObject = {[key: string]: unknown};
+
+/**
+ * Any value that can be stored in the database: a primitive, a date (e.g. for `timestamptz`),
+ * a buffer (for `bytea`), a JSON object (for `jsonb`) or an array of these values (for array columns)
+ */
+export type DBValue = SerializablePrimitive | bigint | Date | Buffer | JsonObject | DBValue[];
 
 /** A row selected from the database */
 export interface Row {
@@ -28,7 +38,12 @@ export interface Row {
  * SELECT * FROM "user" WHERE "id" IN ($1, $2, $3)
  * ```
  *
- * See also {@link Operator}, {@link and}, {@link or} for more details and examples.
+ * The `null` value is converted to `IS NULL`:
+ * ```ts
+ * await db.select("user", {guild_id: null});
+ * ```
+ *
+ * See also {@link Operator}, {@link and}, {@link or}, {@link not} for more details and examples.
  */
 export interface Condition {
 	[column: string]: DBValue | DBValue[] | Operator;
@@ -37,11 +52,12 @@ export interface Condition {
 /** One or multiple conditions. See {@link Condition} for details */
 export type Conditions = Condition | Condition[];
 
-/** The field type */
+/** The field type. The values are the same as in `information_schema.columns` */
 export enum FieldType {
 	BigInt = "bigint",
 	BigSerial = "bigserial",
 	Bool = "boolean",
+	Bytes = "bytea",
 	Char = "character",
 	Varchar = "character varying",
 	Date = "date",
@@ -50,9 +66,22 @@ export enum FieldType {
 	Int = "integer",
 	Jsonb = "jsonb",
 	Money = "money",
+	Numeric = "numeric",
 	Float = "real",
 	Serial = "serial",
+	SmallInt = "smallint",
 	Text = "text",
+	TimestampTz = "timestamp with time zone",
+	Uuid = "uuid",
+	/** A native enum type, see {@link FieldDefinition.enum} */
+	Enum = "USER-DEFINED",
+}
+
+/** The native enum type (`CREATE TYPE ... AS ENUM`) */
+export interface EnumDefinition {
+	name: string;
+	/** The labels of the enum in their order */
+	values: string[];
 }
 
 /** The field definition that can be used to create or alter a field */
@@ -61,6 +90,14 @@ export interface FieldDefinition {
 	type: FieldType;
 	/** It can be used e.g. to restrict `VARCHAR` to `n` symbols */
 	limit?: number;
+	/** The total number of significant digits of `NUMERIC` */
+	precision?: number;
+	/** The number of digits of `NUMERIC` after the decimal point, the default is 0 if the precision is specified */
+	scale?: number;
+	/** Whether the field is an array of values of the given type, e.g. `integer[]` */
+	array?: boolean;
+	/** The enum type, it is required for {@link FieldType.Enum} */
+	enum?: EnumDefinition;
 	/** If `false` (which is the default), the field will be `NOT NULL` */
 	nullable?: boolean;
 	/** The default value for this field */
@@ -70,33 +107,228 @@ export interface FieldDefinition {
 /** The type of index that should be created */
 export enum IndexType {Index, Unique, Primary}
 
+/** The index method. E.g., GIN can be used for JSONB and arrays, GiST for ranges and geometry, BRIN for huge tables */
+export enum IndexMethod {
+	BTree = "btree",
+	Hash = "hash",
+	GiST = "gist",
+	GIN = "gin",
+	BRIN = "brin",
+}
+
+/** The properties that all index definitions have */
+interface BaseIndexDefinition {
+	type?: IndexType;
+	name?: string;
+	/** The default is {@link IndexMethod.BTree} */
+	method?: IndexMethod;
+	/** The columns that are stored in the index in addition to the keys (`INCLUDE`), e.g. for index-only scans */
+	include?: string[];
+	/** The raw SQL condition for a partial index, e.g. `deleted_at IS NULL` */
+	where?: string;
+}
+
 /** The index definition that can be used to create an index over single field */
-interface SingleFieldIndexDefinition {
+interface SingleFieldIndexDefinition extends BaseIndexDefinition {
 	field: string;
 	fields?: never;
-	type?: IndexType;
-	name?: string;
+	expression?: never;
 }
 
 /** The index definition that can be used to create an index over multiple fields */
-interface MultipleFieldsIndexDefinition {
+interface MultipleFieldsIndexDefinition extends BaseIndexDefinition {
 	field?: never;
 	fields: string[];
-	type?: IndexType;
-	name?: string;
+	expression?: never;
+}
+
+/** The index definition that can be used to create an index over the raw SQL expressions, e.g. `lower(name)` */
+interface ExpressionIndexDefinition extends BaseIndexDefinition {
+	field?: never;
+	fields?: never;
+	expression: string;
 }
 
 /** The index definition that can be used to create an index */
-export type IndexDefinition = SingleFieldIndexDefinition | MultipleFieldsIndexDefinition;
+export type IndexDefinition = SingleFieldIndexDefinition | MultipleFieldsIndexDefinition | ExpressionIndexDefinition;
+
+/**
+ * The info about an existing index, see {@link DB.getIndexes}. The fields contain both the columns
+ * and the expressions (as formatted by PostgreSQL). The method is set only if it is not {@link IndexMethod.BTree}
+ */
+export interface IndexInfo extends MultipleFieldsIndexDefinition {
+	type: IndexType;
+	name: string;
+	/** Whether the index belongs to a constraint (primary key or unique), so it should be dropped with it */
+	constraint: boolean;
+}
+
+/** The action that is performed with the referencing rows when the referenced row is deleted or updated */
+export enum ReferentialAction {
+	NoAction = "NO ACTION",
+	Restrict = "RESTRICT",
+	Cascade = "CASCADE",
+	SetNull = "SET NULL",
+	SetDefault = "SET DEFAULT",
+}
+
+/**
+ * The foreign key definition. An example:
+ * ```ts
+ * {fields: ["guild_id"], references: "guild", onDelete: ReferentialAction.Cascade}
+ * ```
+ */
+export interface ForeignKeyDefinition {
+	fields: string[];
+	/** The referenced table */
+	references: string;
+	/** The referenced columns, the default is `["id"]` */
+	referencedFields?: string[];
+	/** The default is {@link ReferentialAction.NoAction} */
+	onDelete?: ReferentialAction;
+	/** The default is {@link ReferentialAction.NoAction} */
+	onUpdate?: ReferentialAction;
+	name?: string;
+}
+
+/** The info about an existing foreign key, see {@link DB.getForeignKeys} */
+export type ForeignKeyInfo = Required<ForeignKeyDefinition>;
+
+/** The check constraint definition */
+export interface CheckDefinition {
+	/** The raw SQL condition, e.g. `points >= 0` */
+	expression: string;
+	name?: string;
+}
+
+/** The info about an existing check constraint (the expression is formatted by PostgreSQL), see {@link DB.getChecks} */
+export type CheckInfo = Required<CheckDefinition>;
 
-/** The options for `SELECT`-queries */
+/** The sort direction, see {@link OrderBy} */
+export enum OrderDirection {
+	Asc = "ASC",
+	Desc = "DESC",
+}
+
+/** The sorting by a field (or by an aggregate alias), see {@link SelectOptions.orderBy} */
+export interface OrderBy {
+	field: string;
+	/** The default is {@link OrderDirection.Asc} */
+	direction?: OrderDirection;
+}
+
+/** The type of join, see {@link Join} */
+export enum JoinType {
+	Inner = "INNER",
+	Left = "LEFT",
+}
+
+/**
+ * A join with another table, see {@link SelectOptions.joins}. An example:
+ * ```ts
+ * await db.select("item", {"user.name": "Luka"}, {
+ *   fields: ["item.id", "user.name"], joins: [{table: "user", on: {"item.owner_id": "user.id"}}]
+ * });
+ * ```
+ * will be converted to:
+ * ```sql
+ * SELECT "item"."id", "user"."name" FROM "item" INNER JOIN "user" ON "item"."owner_id" = "user"."id"
+ * WHERE "user"."name" = $1
+ * ```
+ */
+export interface Join {
+	table: string;
+	/** The alias of the joined table, e.g. to join the same table twice */
+	alias?: string;
+	/** The default is {@link JoinType.Inner} */
+	type?: JoinType;
+	/** A map whose keys are the fields of the joined table and values are the fields they should be equal to */
+	on: {[field: string]: string};
+}
+
+/**
+ * The options for `SELECT`-queries. The fields may be qualified with the table name (e.g. `user.name`),
+ * this is necessary if the same field name exists in multiple joined tables
+ */
 export interface SelectOptions {
+	/** The fields to select. If neither the fields nor the aggregates are specified, all fields are selected */
 	fields: string[];
+	/** A map whose keys are the aliases and values are the aggregate functions, see {@link Aggregate} */
+	aggregates: {[alias: string]: Aggregate};
+	/** Whether the duplicate rows should be removed */
+	distinct: boolean;
+	joins: Join[];
+	groupBy: string[];
+	/** The conditions that are applied after grouping, the aggregate aliases can be used as fields */
+	having: Conditions;
+	orderBy: OrderBy[];
+	limit: number;
+	offset: number;
+	/**
+	 * Keyset pagination: it selects only the rows that go after the row with the given values
+	 * of {@link SelectOptions.orderBy} fields (in the same order). It is much faster than `offset` for deep pages,
+	 * but the `orderBy` fields should be unique together (e.g. include `id` in the end). An example:
+	 * ```ts
+	 * const page = await db.select("user", {}, {orderBy: [{field: "points", direction: OrderDirection.Desc},
+	 *   {field: "id"}], limit: 10});
+	 * const lastUser = page[page.length - 1];
+	 * const nextPage = await db.select("user", {}, {orderBy: [{field: "points", direction: OrderDirection.Desc},
+	 *   {field: "id"}], limit: 10, after: [lastUser.points, lastUser.id]});
+	 * ```
+	 */
+	after: DBValue[];
+	/** Whether the selected rows should be locked until the end of the transaction (`FOR UPDATE`) */
+	forUpdate: boolean;
+	/** Whether the query should be sent to the primary even if there are read replicas, e.g. to read the latest data */
+	primary: boolean;
+}
+
+/** The options for reading with a cursor, see {@link DB.cursor} */
+export interface CursorOptions extends SelectOptions {
+	/** How many rows are fetched at once */
+	batchSize: number;
+	/** The signal that stops reading (the iteration throws the abort reason) */
+	signal: AbortSignal;
+}
+
+/** The options for `INSERT`, `UPDATE` and `DELETE`-queries that return the affected rows */
+export interface ReturningOptions {
+	/** The columns of the affected rows to return, `*` can be used to return all columns */
+	returning: string[];
+}
+
+/** The options for `UPDATE`-queries */
+export interface UpdateOptions {
+	/**
+	 * Optimistic locking: the version column. The updated data should contain the expected version in this column.
+	 * Only the rows with this version are updated, and the version is incremented.
+	 * If no rows were updated, {@link ConcurrencyConflictError} is thrown
+	 */
+	versionColumn: string;
+}
+
+/** The transaction isolation level, see {@link TransactionOptions} */
+export enum IsolationLevel {
+	ReadCommitted = "READ COMMITTED",
+	RepeatableRead = "REPEATABLE READ",
+	Serializable = "SERIALIZABLE",
+}
+
+/** The options for transactions, see {@link DB.runTransaction} */
+export interface TransactionOptions {
+	/** The default is {@link IsolationLevel.ReadCommitted} (unless the database is configured otherwise) */
+	isolationLevel: IsolationLevel;
+	readOnly: boolean;
+	/** How many times the transaction is retried after a serialization failure or a deadlock */
+	retries: number;
 }
 
 /** The options for `CREATE TABLE`-queries */
 export interface CreateTableOptions {
 	ifNotExists: boolean;
+	/** The foreign keys, the referenced tables should already exist */
+	foreignKeys: ForeignKeyDefinition[];
+	checks: CheckDefinition[];
 }
 
 /** The options for `CREATE INDEX`-queries */
@@ -107,9 +339,108 @@ export interface CreateIndexOptions {
 /** The options for `DROP INDEX`-queries */
 export interface DropIndexOptions {
 	ifExists: boolean;
+	/** Whether the objects that depend on the index (e.g. foreign keys) should be dropped too */
+	cascade: boolean;
 }
 
 /** The options for `DROP TABLE`-queries */
 export interface DropTableOptions {
 	ifExists: boolean;
+}
+
+/** The options for `DROP TYPE`-queries */
+export interface DropEnumOptions {
+	ifExists: boolean;
+}
+
+/** The options of the query log, see {@link DB.options} */
+export interface QueryLogOptions {
+	/** The queries that take longer than `slowQueryThreshold` ms are logged as slow. 0 disables the slow query log */
+	slowQueryThreshold: number;
+	/**
+	 * Whether the output of `EXPLAIN (ANALYZE, BUFFERS)` should be logged for the slow queries of {@link DB.select}
+	 * (except `FOR UPDATE` and the queries on reserved connections, e.g. in transactions).
+	 * Note that the query is executed once again to analyze it
+	 */
+	explainSlowQueries: boolean;
+}
+
+/** The execution statistics of a statement, see {@link QueryStats.getStats} */
+export interface QueryStatistics {
+	/** The normalized SQL of the statement */
+	statement: string;
+	/** How many times the statement was executed */
+	count: number;
+	/** The median execution time in ms (within the rolling window) */
+	p50: number;
+	/** The 95th percentile of the execution time in ms (within the rolling window) */
+	p95: number;
+	/** The maximum execution time in ms (within the rolling window) */
+	max: number;
+}
+
+/** The options of the connection pools of {@link DB} */
+export interface ConnectionOptions {
+	/** The URLs of the read replicas, the queries of {@link DB.select} are sent to them in turn (round-robin) */
+	replicaUrls: string[];
+	/** The maximum number of connections in each pool (of the primary and of every replica) */
+	poolSize: number;
+	/** The connections that are idle for `idleTimeout` ms are closed, 0 disables it */
+	idleTimeout: number;
+	/** The queries that take longer than `statementTimeout` ms are cancelled by PostgreSQL, 0 disables it */
+	statementTimeout: number;
+	/** The connections are reopened after `maxLifetime` ms, 0 means the postgres.js default (30-60 minutes) */
+	maxLifetime: number;
+}
+
+/** The usage of a connection pool, see {@link DB.getPoolStats} */
+export interface PoolStats {
+	/** `primary` or `replica N` */
+	name: string;
+	/** The maximum number of connections, see {@link ConnectionOptions.poolSize} */
+	size: number;
+	/** The number of connections that are executing a query or are reserved (e.g. for a transaction) */
+	active: number;
+	/** The number of queries and transactions that wait for a free connection */
+	waiting: number;
+	/** The total number of executed queries (including the queries in transactions) */
+	queries: number;
+}
+
+/** The handler of the notifications on a channel, it gets the payload. See {@link DB.listen} */
+export type NotificationHandler = (payload: string) => void | Promise<void>;
+
+/**
+ * The query builder interface of a database. It is implemented by {@link DB} (PostgreSQL)
+ * and {@link MemoryDB} (in-memory, e.g. for tests), and it is all that {@link ORM} needs.
+ * See the methods of {@link DB} for details
+ */
+export interface Database {
+	select(table: string, conditions?: Conditions, options?: Partial<SelectOptions>): Promise<Row[]>;
+	insert(
+		table: string, data: {[column: string]: DBValue} | {[column: string]: DBValue}[], options: ReturningOptions
+	): Promise<Row[]>;
+	insert(table: string, data: {[column: string]: DBValue} | {[column: string]: DBValue}[]): Promise<number>;
+	update(
+		table: string, data: {[column: string]: DBValue}, conditions: Conditions | undefined,
+		options: Partial<UpdateOptions> & ReturningOptions
+	): Promise<Row[]>;
+	update(
+		table: string, data: {[column: string]: DBValue}, conditions?: Conditions, options?: Partial<UpdateOptions>
+	): Promise<number>;
+	updateMany(table: string, data: {[column: string]: DBValue}[], key?: string): Promise<number>;
+	delete(table: string, conditions: Conditions | undefined, options: ReturningOptions): Promise<Row[]>;
+	delete(table: string, conditions?: Conditions): Promise<number>;
+	/** Returns the next values of the sequence of the given serial column, so that they can be used as ids */
+	reserveIds(table: string, column: string, count: number): Promise<DBValue[]>;
+	runTransaction<T>(cb: (db: Database) => Promise<T>, options?: Partial<TransactionOptions>): Promise<T>;
+	createTable(
+		table: string, fields: FieldDefinition[], indexes: IndexDefinition[], options?: Partial<CreateTableOptions>
+	): Promise<void>;
+	createIndex(table: string, index: IndexDefinition, options?: Partial<CreateIndexOptions>): Promise<void>;
+	dropTable(table: string, options?: Partial<DropTableOptions>): Promise<void>;
+	/** Listens to the notifications on the given channel. Returns the function that stops listening */
+	listen(channel: string, handler: NotificationHandler): Promise<() => Promise<void>>;
+	notify(channel: string, payload: string): Promise<void>;
+	close(): Promise<void>;
 }
\ No newline at end of file
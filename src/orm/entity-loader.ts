@@ -0,0 +1,29 @@
+import {Class} from "../core/typings.js";
+import EntityTask from "../game-loop/entity-task.js";
+import {ClassWithInfo} from "../type-analyzer/class-info.js";
+import ClassLoader from "../type-analyzer/class-loader.js";
+import Entity from "./entity.js";
+
+/** This class prepares all necessary data for {@link ORM} */
+export default class EntityLoader {
+	/** Loads all entity classes (i.e. all non-abstract classes derived from {@link Entity}) */
+	public static async loadAllEntities(): Promise<ClassWithInfo[]> {
+		return await EntityLoader.loadDerivedClassesOf(Entity);
+	}
+
+	/** Loads all entity task classes (i.e. all non-abstract classes derived from {@link EntityTask}) */
+	public static async loadAllEntityTasks(): Promise<ClassWithInfo[]> {
+		return await EntityLoader.loadDerivedClassesOf(EntityTask);
+	}
+
+	/** Loads either all entities or all entity tasks */
+	private static async loadDerivedClassesOf(BaseClass: Class): Promise<ClassWithInfo[]> {
+		const baseClassInfo = await ClassLoader.findOrThrow(BaseClass);
+		const classInfos = baseClassInfo
+			.findDerivedClasses()
+			.filter(classInfo => !classInfo.source.endsWith(".test.js") && !classInfo.abstract);
+		return await Promise.all(
+			classInfos.map(ClassLoader.importWithInfo)
+		);
+	}
+}
\ No newline at end of file
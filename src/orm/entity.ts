@@ -1,3 +1,123 @@
+import {Constructor, Int32, PropertiesOf} from "../core/typings.js";
+import {Conditions, DBValue} from "./db.typings.js";
+import ORM from "./orm.js";
+import {EntityOptions, EntityParams} from "./orm.typings.js";
+import RelationLoader from "./relation-loader.js";
+
+/**
+ * Marks a property that is only kept in memory and is never stored in the database, e.g.:
+ * ```ts
+ * public session?: InMemory<Session>;
+ * ```
+ */
 export type InMemory<T> = T;
 
-export default class Entity {}
\ No newline at end of file
+/**
+ * Entity class. Every non-abstract class that extends it is mapped by {@link ORM} to a database table.
+ * The table name is the class name in snake case (e.g. `guild_member` for `GuildMember`),
+ * unless you specify it in {@link EntityOptions.table}. The same applies to the column names.
+ *
+ * The column types are derived from the property types, so you should use `Int32`, `Float` etc.
+ * from `typings.ts` instead of imprecise `number` (as for messages).
+ * Booleans, strings, dates (`timestamptz`), buffers (`bytea`), enums, vectors and arrays of these types
+ * (except vectors) are also supported. Optional properties are nullable.
+ * String enums are stored as native enum types (e.g. `item_rarity` for `ItemRarity`), numeric enums as integers.
+ * Vectors are stored in multiple columns, e.g. `position: Vector2i` is stored in `position_x` and `position_y`.
+ * Properties typed as {@link InMemory} are not stored at all.
+ *
+ * The properties typed with other entities are relations:
+ * - `guild?: Guild` is a many-to-one relation that is stored in the foreign key column `guild_id`.
+ * - `items: Item[]` is a one-to-many relation if `Item` has a many-to-one relation to this entity
+ * (e.g. `owner: Character`). It is not stored, you should change the many-to-one side instead.
+ * - `guilds: Guild[]` is a many-to-many relation otherwise. It is stored in the join table (e.g. `character_guild`).
+ * You should assign the property to save the changes (e.g. `character.guilds = [...character.guilds, guild]`).
+ *
+ * The relations are not loaded automatically, you should use {@link Entity.load}.
+ * If there are multiple possible inverse relations, you should specify it in {@link EntityOptions.relations}.
+ *
+ * The changes are tracked automatically and periodically flushed to the database (see {@link ORM.flush}),
+ * so you just need to set the property values. The same applies to creating and removing entities.
+ *
+ * Example of use:
+ * ```ts
+ * export default class Item extends Entity {
+ *   public name!: string;
+ *   public count!: Int32;
+ *   public position?: Vector2i;
+ * }
+ *
+ * const item = await Item.create({name: "Apple", count: 3});
+ * const items = await Item.find({name: "Apple"});
+ * item.count++;
+ * await item.load("owner");
+ * item.remove();
+ * ```
+ */
+export default abstract class Entity {
+	/** See {@link EntityOptions} for details */
+	public static options: EntityOptions = {};
+	/** The primary key. It is generated by the database, unless you specify it when creating an entity */
+	public id!: Int32;
+
+	/** Creates an entity. Its property writes are intercepted to track the changes, see {@link ORM.trackChange} */
+	public constructor() {
+		return new Proxy(this, {
+			set(target, property, value, receiver): boolean {
+				const result = Reflect.set(target, property, value);
+				if (typeof property == "string") {
+					ORM.trackChange(receiver, property);
+				}
+				return result;
+			}
+		});
+	}
+
+	/**
+	 * Returns the entity with the given id or the first entity that meets the given conditions.
+	 * The conditions use the property names, not the column names. Returns `undefined` if nothing was found
+	 */
+	public static async get<T extends Entity>(
+		this: Constructor<T>, idOrConditions: Exclude<DBValue, object> | Conditions
+	): Promise<T | undefined> {
+		const conditions = (
+			idOrConditions && typeof idOrConditions == "object" ? idOrConditions : {id: idOrConditions}
+		);
+		const entities = await ORM.find(this, conditions);
+		return entities[0];
+	}
+
+	/** Returns all entities that meet the given conditions. The conditions use the property names */
+	public static async find<T extends Entity>(this: Constructor<T>, conditions?: Conditions): Promise<T[]> {
+		return await ORM.find(this, conditions);
+	}
+
+	/** Creates an entity with the given parameters. It will be inserted into the database on the next flush */
+	public static async create<T extends Entity>(this: Constructor<T>, params: EntityParams<T>): Promise<T> {
+		const entity = new this();
+		Object.assign(entity, params);
+		await ORM.insert(entity);
+		return entity;
+	}
+
+	/**
+	 * Loads the given relations of this entity (unless they are already loaded).
+	 * The relations of the same kind that are loaded during the same tick are loaded with a single query,
+	 * so it is efficient to load the relations of many entities at once using `Promise.all`
+	 */
+	public async load(...propertyNames: Extract<keyof PropertiesOf<this>, string>[]): Promise<void> {
+		await RelationLoader.load(this, propertyNames);
+	}
+
+	/**
+	 * Reloads this entity from the database, discarding its unsaved changes.
+	 * Returns `false` if the entity no longer exists in the database. See {@link ORM.reload} for details
+	 */
+	public async reload(): Promise<boolean> {
+		return await ORM.reload(this);
+	}
+
+	/** Removes this entity. It will be removed from the database on the next flush */
+	public remove(): void {
+		ORM.remove(this);
+	}
+}
\ No newline at end of file
@@ -0,0 +1,221 @@
+import assert from "assert/strict";
+import {beforeEach, test} from "node:test";
+import ConcurrencyConflictError from "./concurrency-conflict-error.js";
+import {Condition, FieldType, IndexType, OrderDirection} from "./db.typings.js";
+import MemoryDB from "./memory-db.js";
+import {
+	and,
+	arrayContains,
+	arrayIncludes,
+	arrayOverlaps,
+	between,
+	gt,
+	ilike,
+	isNotNull,
+	jsonContains,
+	jsonHasKey,
+	jsonPathExists,
+	like,
+	lte,
+	ne,
+	not,
+	notIn,
+	or
+} from "./operator.js";
+
+const db = new MemoryDB;
+beforeEach(async () => {
+	await db.dropTable("user", {ifExists: true});
+	await db.createTable("user", [
+		{name: "id", type: FieldType.Serial},
+		{name: "name", type: FieldType.Varchar, limit: 10},
+		{name: "points", type: FieldType.Int, default: 100},
+		{name: "tags", type: FieldType.Text, array: true, default: []},
+		{name: "guild_id", type: FieldType.Int, nullable: true},
+	], [
+		{field: "id", type: IndexType.Primary},
+		{fields: ["name", "points"], type: IndexType.Unique},
+	]);
+});
+
+test("CRUD-queries", async () => {
+	assert.deepEqual(await db.select("user"), []);
+	assert.equal(await db.insert("user", [{name: "Luka-sama", points: 123}, {name: "Test", points: 99}]), 2);
+	assert.equal(await db.insert("user", {name: "New user"}), 1);
+	assert.deepEqual(await db.select("user", {id: [0, 10]}), []);
+	assert.deepEqual(
+		await db.select("user", {id: 3}),
+		[{id: 3, name: "New user", points: 100, tags: [], "guild_id": null}]
+	);
+	assert.equal(await db.update("user", {name: "Test-sama", points: 777}, {name: "Test"}), 1);
+	assert.deepEqual(await db.select("user", {id: 2}, {fields: ["name", "points"]}), [{name: "Test-sama", points: 777}]);
+	assert.equal(await db.delete("user", [{id: 1, points: 777}]), 0);
+	assert.equal(await db.delete("user", {[and]: [{id: 1}, {points: 777}]}), 0);
+	assert.equal(await db.delete("user", [{id: 10}, {points: 777}]), 1);
+	assert.equal(await db.insert("user", {name: "Test-sama"}), 1);
+	assert.deepEqual(
+		await db.select("user", {[or]: [{id: [2, 4]}, {name: "Test"}]}, {fields: ["id", "name"]}),
+		[{id: 4, name: "Test-sama"}]
+	);
+	assert.deepEqual(await db.select("user", {id: between(3, 44)}, {fields: ["id"]}), [{id: 3}, {id: 4}]);
+
+	// The rows are copied, so changing the result doesn't change the table
+	const [row] = await db.select("user", {id: 3});
+	(row.tags as string[]).push("changed");
+	assert.deepEqual((await db.select("user", {id: 3}))[0].tags, []);
+	assert.deepEqual(await db.reserveIds("user", "id", 2), [5n, 6n]);
+	assert.deepEqual(await db.insert("user", {name: "Sama"}, {returning: ["id"]}), [{id: 7}]);
+});
+
+test("constraints", async () => {
+	await db.insert("user", {id: 10, name: "Luka", points: 1});
+	await assert.rejects(db.insert("user", {id: 10, name: "Sama", points: 1}), /Duplicate key/);
+	await assert.rejects(db.insert("user", [{name: "Sama", points: 1}, {name: "Sama", points: 1}]), /Duplicate key/);
+	await assert.rejects(db.insert("user", {name: null}), /can't be null/);
+	await assert.rejects(db.insert("user", {name: "Sama", level: 1}), /does not exist/);
+	await assert.rejects(db.insert("user", [{name: "Sama"}, {name: "Sama", points: 1}]), /same columns/);
+	await assert.rejects(db.select("user", {level: 1}), /does not exist/);
+	await assert.rejects(db.select("item"), /does not exist/);
+
+	// The failed inserts were not applied, but the sequence was advanced (as in PostgreSQL)
+	assert.deepEqual(await db.select("user", {}, {fields: ["id"]}), [{id: 10}]);
+	assert.deepEqual(await db.insert("user", {name: "Sama"}, {returning: ["id"]}), [{id: 4}]);
+	await assert.rejects(db.update("user", {id: 10}, {id: 4}), /Duplicate key/);
+	await assert.rejects(db.updateMany("user", [{id: 10, points: 5}, {id: 4, name: "Luka"}]), /same columns/);
+	assert.equal(await db.updateMany("user", [{id: 10, points: 5}, {id: 4, points: 6}]), 2);
+	assert.deepEqual(await db.select("user", {}, {fields: ["points"]}), [{points: 5}, {points: 6}]);
+});
+
+test("select options", async () => {
+	await db.insert("user", [
+		{name: "Luka", points: 300},
+		{name: "Sama", points: 200},
+		{name: "Test", points: 200},
+		{name: "New user", points: 100},
+	]);
+	const orderBy = [{field: "points", direction: OrderDirection.Desc}, {field: "id"}];
+	assert.deepEqual(await db.select("user", {}, {fields: ["id"], orderBy, limit: 2}), [{id: 1}, {id: 2}]);
+	assert.deepEqual(await db.select("user", {}, {fields: ["id"], orderBy, limit: 2, offset: 2}), [{id: 3}, {id: 4}]);
+	assert.deepEqual(
+		await db.select("user", {}, {fields: ["id"], orderBy, limit: 2, after: [200, 2]}),
+		[{id: 3}, {id: 4}]
+	);
+	assert.deepEqual(
+		await db.select("user", {id: gt(1)}, {fields: ["points"], distinct: true, orderBy: [{field: "points"}]}),
+		[{points: 100}, {points: 200}]
+	);
+	await db.update("user", {"guild_id": 1}, {id: 2});
+	assert.deepEqual(
+		await db.select("user", {}, {fields: ["id"], orderBy: [{field: "guild_id", direction: OrderDirection.Desc}]}),
+		[{id: 1}, {id: 3}, {id: 4}, {id: 2}]
+	);
+	await assert.rejects(db.select("user", {}, {joins: [{table: "item", on: {"item.owner_id": "user.id"}}]}));
+});
+
+test("operators", async () => {
+	await db.insert("user", [
+		{name: "Luka", points: 300, tags: ["pvp", "guild"], "guild_id": null},
+		{name: "luka-sama", points: 200, tags: [], "guild_id": 1},
+		{name: "Te%st_", points: 100, tags: [], "guild_id": null},
+	]);
+	const selectIds = async (conditions: Condition): Promise<unknown[]> => (
+		(await db.select("user", conditions, {fields: ["id"], orderBy: [{field: "id"}]})).map(row => row.id)
+	);
+
+	assert.deepEqual(await selectIds({name: like("Luka%")}), [1]);
+	assert.deepEqual(await selectIds({name: ilike("luka%")}), [1, 2]);
+	assert.deepEqual(await selectIds({name: like("Te\\%st\\_")}), [3]);
+	assert.deepEqual(await selectIds({name: like("T_%")}), [3]);
+	assert.deepEqual(await selectIds({name: not(ilike("luka%"))}), [3]);
+	assert.deepEqual(await selectIds({points: not(between(150, 250))}), [1, 3]);
+	assert.deepEqual(await selectIds({[or]: [{points: lte(100)}, {name: "Luka"}]}), [1, 3]);
+	assert.deepEqual(await selectIds(not({name: "Luka", points: 300})), [2, 3]);
+	assert.deepEqual(await selectIds({points: gt(100), ...not({[or]: [{name: "Luka"}, {"guild_id": 2}]})}), [2]);
+	assert.deepEqual(await selectIds({id: notIn([1, 2])}), [3]);
+	assert.deepEqual(await selectIds({"guild_id": null}), [1, 3]);
+	assert.deepEqual(await selectIds({"guild_id": isNotNull()}), [2]);
+	assert.deepEqual(await selectIds({"guild_id": ne(null)}), [2]);
+	// As in SQL, the rows with NULL match neither the condition nor its negation
+	assert.deepEqual(await selectIds({"guild_id": ne(1)}), []);
+	assert.deepEqual(await selectIds({"guild_id": not(1)}), []);
+	assert.deepEqual(await selectIds({tags: arrayContains(["pvp", "guild"])}), [1]);
+	assert.deepEqual(await selectIds({tags: arrayOverlaps(["pve", "guild"])}), [1]);
+	assert.deepEqual(await selectIds({tags: arrayIncludes("pvp")}), [1]);
+	await assert.rejects(selectIds({tags: jsonPathExists("$.level")}), /not supported/);
+});
+
+test("JSON operators", async () => {
+	const jsonDB = new MemoryDB;
+	await jsonDB.createTable("item", [{name: "id", type: FieldType.Serial}, {name: "info", type: FieldType.Jsonb}], [
+		{field: "id", type: IndexType.Primary},
+	]);
+	await jsonDB.insert("item", [
+		{info: {level: 10, items: [{type: "sword", count: 2}, {type: "shield"}]}},
+		{info: {level: 11, tags: ["rare"]}},
+	]);
+	const selectIds = async (conditions: Condition): Promise<unknown[]> => (
+		(await jsonDB.select("item", conditions, {fields: ["id"], orderBy: [{field: "id"}]})).map(row => row.id)
+	);
+
+	assert.deepEqual(await selectIds({info: jsonContains({level: 10})}), [1]);
+	assert.deepEqual(await selectIds({info: jsonContains({items: [{type: "sword"}]})}), [1]);
+	assert.deepEqual(await selectIds({info: jsonContains({items: [{type: "axe"}]})}), []);
+	assert.deepEqual(await selectIds({info: jsonContains({})}), [1, 2]);
+	assert.deepEqual(await selectIds({info: jsonHasKey("tags")}), [2]);
+	assert.deepEqual(await selectIds({info: {tags: ["rare"], level: 11}}), [2]);
+	assert.deepEqual(await selectIds({info: ne({level: 11, tags: ["rare"]})}), [1]);
+});
+
+test("version column and transactions", async () => {
+	await db.insert("user", {name: "Luka", points: 1});
+	assert.equal(await db.update("user", {name: "Luka-sama", points: 1}, {id: 1}, {versionColumn: "points"}), 1);
+	await assert.rejects(
+		db.update("user", {name: "Stale", points: 1}, {id: 1}, {versionColumn: "points"}),
+		ConcurrencyConflictError
+	);
+	assert.deepEqual(await db.select("user", {}, {fields: ["name", "points"]}), [{name: "Luka-sama", points: 2}]);
+
+	await db.runTransaction(async db => {
+		await db.insert("user", {name: "Sama"});
+		await assert.rejects(db.runTransaction(async db => {
+			await db.insert("user", {name: "Test"});
+			throw new Error("Rollback to savepoint");
+		}));
+		assert.equal((await db.select("user")).length, 2);
+	});
+	await assert.rejects(db.runTransaction(async db => {
+		await db.delete("user");
+		throw new Error("Rollback");
+	}));
+	assert.deepEqual(await db.select("user", {}, {fields: ["name"]}), [{name: "Luka-sama"}, {name: "Sama"}]);
+});
+test("notifications", async () => {
+	const payloads: string[] = [];
+	const unlisten = await db.listen("updates", payload => {
+		payloads.push(payload);
+	});
+	const nextTick = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+	await db.notify("updates", "first");
+	await db.notify("other", "ignored");
+	assert.deepEqual(payloads, []);
+	await nextTick();
+	assert.deepEqual(payloads, ["first"]);
+
+	// The notifications are delivered only when the transaction succeeds
+	await db.runTransaction(async db => {
+		await db.notify("updates", "committed");
+		await assert.rejects(db.runTransaction(async db => {
+			await db.notify("updates", "rolled back");
+			throw new Error("Rollback to savepoint");
+		}));
+		await nextTick();
+		assert.deepEqual(payloads, ["first"]);
+	});
+	await nextTick();
+	assert.deepEqual(payloads, ["first", "committed"]);
+
+	await unlisten();
+	await db.notify("updates", "after unlisten");
+	await nextTick();
+	assert.equal(payloads.length, 2);
+});
\ No newline at end of file
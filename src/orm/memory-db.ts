@@ -0,0 +1,571 @@
+import assert from "assert/strict";
+import _ from "lodash";
+import MapUtil from "../collection-utils/map-util.js";
+import Logger from "../core/logger.js";
+import ConcurrencyConflictError from "./concurrency-conflict-error.js";
+import {
+	Conditions,
+	CreateIndexOptions,
+	CreateTableOptions,
+	Database,
+	DBValue,
+	DropTableOptions,
+	FieldDefinition,
+	FieldType,
+	IndexDefinition,
+	IndexType,
+	JsonObject,
+	NotificationHandler,
+	OrderDirection,
+	ReturningOptions,
+	Row,
+	SelectOptions,
+	UpdateOptions
+} from "./db.typings.js";
+import Operator, {and, negation, OperatorOperand, or} from "./operator.js";
+
+/** A table of {@link MemoryDB} */
+interface MemoryTable {
+	fields: Map<string, FieldDefinition>;
+	/** The columns of the primary key and the unique indexes */
+	uniqueKeys: string[][];
+	/** A map whose keys are the serial columns and values are the last values of their sequences */
+	sequences: Map<string, number>;
+	rows: Row[];
+}
+
+/**
+ * An in-memory implementation of {@link Database}. It can be used instead of {@link DB} in tests,
+ * so that they (including the game logic that uses {@link ORM}) can run without PostgreSQL:
+ * ```ts
+ * const db = new MemoryDB;
+ * await db.createTable("user", [{name: "id", type: FieldType.Serial}, {name: "name", type: FieldType.Text}], [
+ *   {field: "id", type: IndexType.Primary}
+ * ]);
+ * await db.insert("user", {name: "Luka"});
+ * await db.select("user", {id: between(1, 10)});
+ * ```
+ * The conditions have the same semantics as in PostgreSQL, incl. `NULL` handling, {@link and}, {@link or} and {@link not}.
+ * Most operators are supported, except for JSON path and full-text search ones. JSON objects are equal if they have
+ * the same keys and values (as `jsonb`), other comparisons of them use their JSON text.
+ * The values are not cast to the column types, so they should be passed in the same form as {@link DB} returns them.
+ *
+ * The select options are supported except for joins and aggregates. The columns are checked for `NOT NULL`,
+ * the primary keys and the unique indexes over columns are enforced, other indexes are ignored.
+ * The transactions are rolled back if the callback function fails, but they are not isolated from each other.
+ * The notifications (see {@link MemoryDB.listen}) are delivered only to the listeners of the same instance,
+ * so it can stand in for a database shared by several processes in a test
+ */
+export default class MemoryDB implements Database {
+	private static readonly logger = new Logger(MemoryDB);
+	private tables = new Map<string, MemoryTable>;
+	/** A map whose keys are the channels and values are their listeners (each listener is a unique object) */
+	private readonly listeners = new Map<string, Set<{handler: NotificationHandler}>>;
+	/** The notifications sent in the current transaction, they are delivered when it succeeds */
+	private notifications?: [channel: string, payload: string][];
+
+	/** Deletes all tables */
+	public close(): Promise<void> {
+		this.tables.clear();
+		return Promise.resolve();
+	}
+
+	/** Selects rows from the given table by the given conditions using the given options, see {@link DB.select} */
+	public select(table: string, conditions?: Conditions, options?: Partial<SelectOptions>): Promise<Row[]> {
+		return MemoryDB.toPromise(() => {
+			assert(
+				!options?.joins?.length && !options?.aggregates && !options?.groupBy?.length && !options?.having,
+				"Joins and aggregates are not supported by MemoryDB."
+			);
+			const memoryTable = this.getTable(table);
+			let rows = memoryTable.rows.filter(row => MemoryDB.matches(memoryTable, row, conditions));
+			const orderBy = options?.orderBy ?? [];
+			for (const field of [...orderBy.map(({field}) => field), ...options?.fields ?? []]) {
+				MemoryDB.getField(memoryTable, field);
+			}
+			const compareRows = (a: Row, b: Row): number => {
+				for (const {field, direction} of orderBy) {
+					const result = MemoryDB.compareForSort(a[field], b[field]);
+					if (result != 0) {
+						return (direction == OrderDirection.Desc ? -result : result);
+					}
+				}
+				return 0;
+			};
+			rows.sort(compareRows);
+			if (options?.after) {
+				const after = Object.fromEntries(orderBy.map(({field}, i) => [field, options.after![i]]));
+				rows = rows.filter(row => compareRows(row, after) > 0);
+			}
+			let result = rows.map(row => MemoryDB.pick(row, options?.fields ?? ["*"]));
+			if (options?.distinct) {
+				result = _.uniqWith(result, _.isEqual);
+			}
+			const offset = options?.offset ?? 0;
+			return result.slice(offset, (options?.limit === undefined ? undefined : offset + options.limit));
+		});
+	}
+
+	/** Inserts the given row(s) in the given table, see {@link DB.insert} */
+	public insert(
+		table: string, data: {[column: string]: DBValue} | {[column: string]: DBValue}[], options: ReturningOptions
+	): Promise<Row[]>;
+	public insert(table: string, data: {[column: string]: DBValue} | {[column: string]: DBValue}[]): Promise<number>;
+	public insert(
+		table: string, data: {[column: string]: DBValue} | {[column: string]: DBValue}[], options?: ReturningOptions
+	): Promise<number | Row[]> {
+		return MemoryDB.toPromise(() => {
+			const memoryTable = this.getTable(table);
+			const rows = memoryTable.rows.slice();
+			const inserted: Row[] = [];
+			const dataRows = (data instanceof Array ? data : [data]);
+			MemoryDB.checkColumns(dataRows);
+			for (const values of dataRows) {
+				for (const column of Object.keys(values)) {
+					MemoryDB.getField(memoryTable, column);
+				}
+				const row: Row = {};
+				for (const field of memoryTable.fields.values()) {
+					if (values[field.name] !== undefined) {
+						row[field.name] = _.cloneDeep(values[field.name]);
+					} else if (MemoryDB.isSerial(field)) {
+						const value = MemoryDB.nextValue(memoryTable, field);
+						row[field.name] = (field.type == FieldType.BigSerial ? BigInt(value) : value);
+					} else {
+						row[field.name] = _.cloneDeep(field.default ?? null);
+					}
+				}
+				MemoryDB.checkRow(table, memoryTable, row, rows);
+				rows.push(row);
+				inserted.push(row);
+			}
+			memoryTable.rows = rows;
+			return MemoryDB.getResult(inserted, options?.returning);
+		});
+	}
+
+	/** Updates rows from the given table (that meet the given conditions) with the given data, see {@link DB.update} */
+	public update(
+		table: string, data: {[column: string]: DBValue}, conditions: Conditions | undefined,
+		options: Partial<UpdateOptions> & ReturningOptions
+	): Promise<Row[]>;
+	public update(
+		table: string, data: {[column: string]: DBValue}, conditions?: Conditions, options?: Partial<UpdateOptions>
+	): Promise<number>;
+	public update(
+		table: string, data: {[column: string]: DBValue}, conditions?: Conditions,
+		options?: Partial<UpdateOptions & ReturningOptions>
+	): Promise<number | Row[]> {
+		return MemoryDB.toPromise(() => {
+			const memoryTable = this.getTable(table);
+			const versionColumn = options?.versionColumn;
+			let values = data;
+			let rows = memoryTable.rows.filter(row => MemoryDB.matches(memoryTable, row, conditions));
+			if (versionColumn) {
+				const {[versionColumn]: version, ...otherValues} = data;
+				assert(version !== undefined, `The data should contain the expected version in ${versionColumn}.`);
+				rows = rows.filter(row => MemoryDB.compare(row[versionColumn], version) === 0);
+				if (rows.length < 1) {
+					throw new ConcurrencyConflictError(
+						`The row in ${table} was changed concurrently (version ${version} is stale).`
+					);
+				}
+				values = otherValues;
+			}
+
+			for (const column of Object.keys(values)) {
+				MemoryDB.getField(memoryTable, column);
+			}
+			const updated = rows.map(row => {
+				const newRow = {...row, ..._.cloneDeep(values)};
+				if (versionColumn) {
+					newRow[versionColumn] = (row[versionColumn] as number) + 1;
+				}
+				return newRow;
+			});
+			const otherRows = memoryTable.rows.filter(row => !rows.includes(row));
+			for (const row of updated) {
+				MemoryDB.checkRow(table, memoryTable, row, otherRows);
+				otherRows.push(row);
+			}
+			for (const [i, row] of rows.entries()) {
+				Object.assign(row, updated[i]);
+			}
+			return MemoryDB.getResult(rows, options?.returning);
+		});
+	}
+
+	/** Updates multiple rows from the given table, see {@link DB.updateMany} */
+	public async updateMany(table: string, data: {[column: string]: DBValue}[], key = "id"): Promise<number> {
+		MemoryDB.checkColumns(data);
+		let count = 0;
+		for (const {[key]: value, ...values} of data) {
+			assert(Object.keys(values).length > 0, "Nothing to update.");
+			count += await this.update(table, values, {[key]: value});
+		}
+		return count;
+	}
+
+	/** Deletes rows from the given table by the given conditions, see {@link DB.delete} */
+	public delete(table: string, conditions: Conditions | undefined, options: ReturningOptions): Promise<Row[]>;
+	public delete(table: string, conditions?: Conditions): Promise<number>;
+	public delete(table: string, conditions?: Conditions, options?: ReturningOptions): Promise<number | Row[]> {
+		return MemoryDB.toPromise(() => {
+			const memoryTable = this.getTable(table);
+			const deleted = memoryTable.rows.filter(row => MemoryDB.matches(memoryTable, row, conditions));
+			memoryTable.rows = memoryTable.rows.filter(row => !deleted.includes(row));
+			return MemoryDB.getResult(deleted, options?.returning);
+		});
+	}
+
+	/** Returns the next values of the sequence of the given serial column, see {@link DB.reserveIds} */
+	public reserveIds(table: string, column: string, count: number): Promise<DBValue[]> {
+		return MemoryDB.toPromise(() => {
+			const memoryTable = this.getTable(table);
+			const field = MemoryDB.getField(memoryTable, column);
+			assert(MemoryDB.isSerial(field), `${column} is not a serial column.`);
+			return _.times(count, () => BigInt(MemoryDB.nextValue(memoryTable, field)));
+		});
+	}
+
+	/**
+	 * Executes the callback function with this database. If it fails, all tables are restored to the state
+	 * before the transaction (so nested transactions work like savepoints) and its notifications are discarded.
+	 * The options are ignored
+	 */
+	public async runTransaction<T>(cb: (db: MemoryDB) => Promise<T>): Promise<T> {
+		const snapshot = _.cloneDeep(this.tables);
+		const outermost = !this.notifications;
+		const notifications = this.notifications ?? [];
+		const notificationCount = notifications.length;
+		this.notifications = notifications;
+		try {
+			const result = await cb(this);
+			if (outermost) {
+				delete this.notifications;
+				notifications.forEach(([channel, payload]) => this.deliver(channel, payload));
+			}
+			return result;
+		} catch (e: unknown) {
+			this.tables = snapshot;
+			notifications.splice(notificationCount);
+			if (outermost) {
+				delete this.notifications;
+			}
+			throw e;
+		}
+	}
+
+	/**
+	 * Listens to the notifications on the given channel that are sent with this instance, see {@link DB.listen}.
+	 * As in PostgreSQL, the handler is called asynchronously
+	 */
+	public listen(channel: string, handler: NotificationHandler): Promise<() => Promise<void>> {
+		const listener = {handler};
+		MapUtil.getSet(this.listeners, channel).add(listener);
+		return Promise.resolve(() => {
+			this.listeners.get(channel)?.delete(listener);
+			return Promise.resolve();
+		});
+	}
+
+	/** Sends a notification to the listeners of this instance, see {@link DB.notify} */
+	public notify(channel: string, payload: string): Promise<void> {
+		if (this.notifications) {
+			this.notifications.push([channel, payload]);
+		} else {
+			this.deliver(channel, payload);
+		}
+		return Promise.resolve();
+	}
+
+	/** Creates a table with the given fields and indexes using the given options, see {@link DB.createTable} */
+	public async createTable(
+		table: string, fields: FieldDefinition[], indexes: IndexDefinition[], options?: Partial<CreateTableOptions>
+	): Promise<void> {
+		if (this.tables.has(table) && options?.ifNotExists) {
+			return;
+		}
+		assert(!this.tables.has(table), `The table ${table} already exists.`);
+		const memoryTable: MemoryTable = {
+			fields: new Map(fields.map(field => [field.name, field])), uniqueKeys: [], sequences: new Map, rows: [],
+		};
+		this.tables.set(table, memoryTable);
+		for (const index of indexes) {
+			await this.createIndex(table, index);
+		}
+	}
+
+	/**
+	 * Creates an index by the given index definition, see {@link DB.createIndex}.
+	 * Only the primary keys and the unique indexes over columns (without `WHERE`) are enforced, other indexes are ignored
+	 */
+	public createIndex(table: string, index: IndexDefinition, options?: Partial<CreateIndexOptions>): Promise<void> {
+		return MemoryDB.toPromise(() => {
+			const memoryTable = this.getTable(table);
+			const columns = (index.field ? [index.field] : index.fields ?? []);
+			for (const column of columns) {
+				MemoryDB.getField(memoryTable, column);
+			}
+			const isUnique = (index.type == IndexType.Primary || index.type == IndexType.Unique && !index.where);
+			const exists = memoryTable.uniqueKeys.some(key => _.isEqual(key, columns));
+			if (!isUnique || columns.length < 1 || exists && options?.ifNotExists) {
+				return;
+			}
+			for (const [i, row] of memoryTable.rows.entries()) {
+				MemoryDB.checkUnique(table, columns, row, memoryTable.rows.slice(0, i));
+			}
+			memoryTable.uniqueKeys.push(columns);
+		});
+	}
+
+	/** Drops the given table using the given options */
+	public dropTable(table: string, options?: Partial<DropTableOptions>): Promise<void> {
+		return MemoryDB.toPromise(() => {
+			assert(this.tables.has(table) || options?.ifExists, `The table ${table} does not exist.`);
+			this.tables.delete(table);
+		});
+	}
+
+	/** Calls the handlers of the given channel with the given payload in the next iteration of the event loop */
+	private deliver(channel: string, payload: string): void {
+		for (const {handler} of this.listeners.get(channel) ?? []) {
+			setImmediate(() => {
+				Promise.resolve(payload).then(handler).catch(MemoryDB.logger.error);
+			});
+		}
+	}
+
+	/** Returns the table with the given name, it should exist */
+	private getTable(table: string): MemoryTable {
+		const memoryTable = this.tables.get(table);
+		assert(memoryTable, `The table ${table} does not exist.`);
+		return memoryTable;
+	}
+
+	/** Returns the field with the given name of the given table, it should exist */
+	private static getField(memoryTable: MemoryTable, name: string): FieldDefinition {
+		const field = memoryTable.fields.get(name);
+		assert(field, `The column ${name} does not exist.`);
+		return field;
+	}
+
+	/** Returns whether the given field is `serial` or `bigserial` */
+	private static isSerial(field: FieldDefinition): boolean {
+		return field.type == FieldType.Serial || field.type == FieldType.BigSerial;
+	}
+
+	/** Returns the next value of the sequence of the given serial field */
+	private static nextValue(memoryTable: MemoryTable, field: FieldDefinition): number {
+		const value = (memoryTable.sequences.get(field.name) ?? 0) + 1;
+		memoryTable.sequences.set(field.name, value);
+		return value;
+	}
+
+	/** Checks that the given row violates neither `NOT NULL` nor the unique keys (compared to the other rows) */
+	private static checkRow(table: string, memoryTable: MemoryTable, row: Row, otherRows: Row[]): void {
+		for (const field of memoryTable.fields.values()) {
+			assert(field.nullable || row[field.name] !== null, `The column ${field.name} of ${table} can't be null.`);
+		}
+		for (const key of memoryTable.uniqueKeys) {
+			MemoryDB.checkUnique(table, key, row, otherRows);
+		}
+	}
+
+	/**
+	 * Returns whether the given row meets the given conditions. As in SQL, the result can be unknown (`null`),
+	 * e.g. when comparing with `NULL`. In this case the row doesn't meet neither the condition nor its negation
+	 */
+	private static matches(memoryTable: MemoryTable, row: Row, conditions?: Conditions): boolean | null {
+		if (!conditions || conditions instanceof Array && conditions.length < 1) {
+			return true;
+		} else if (!(conditions instanceof Array)) {
+			return MemoryDB.matches(memoryTable, row, [conditions]);
+		}
+
+		return MemoryDB.or(conditions.map(condition => {
+			const results = (condition[and] ?? []).map(subcondition => MemoryDB.matches(memoryTable, row, subcondition));
+			if (condition[or]) {
+				results.push(MemoryDB.matches(memoryTable, row, condition[or]));
+			}
+			if (condition[negation]) {
+				const result = MemoryDB.matches(memoryTable, row, condition[negation]);
+				results.push(result === null ? null : !result);
+			}
+			for (const [field, value] of Object.entries(condition)) {
+				MemoryDB.getField(memoryTable, field);
+				results.push(MemoryDB.matchesValue(row[field], value));
+			}
+			return MemoryDB.and(results);
+		}));
+	}
+
+	/** Checks that the given rows have the same columns, as {@link DB} requires for multi-row queries */
+	private static checkColumns(rows: {[column: string]: DBValue}[]): void {
+		const columns = Object.keys(rows[0] ?? {}).sort();
+		assert(rows.every(row => _.isEqual(Object.keys(row).sort(), columns)), "All rows should have the same columns.");
+	}
+
+	/** Returns whether the given value meets the given condition value, see {@link Condition} */
+	private static matchesValue(value: DBValue, conditionValue: OperatorOperand): boolean | null {
+		if (conditionValue instanceof Array) {
+			return (value === null ? null : conditionValue.some(item => MemoryDB.compare(value, item) === 0));
+		} else if (conditionValue instanceof Operator) {
+			return MemoryDB.matchesOperator(value, conditionValue);
+		} else if (conditionValue === null) {
+			return value === null;
+		} else {
+			const result = MemoryDB.compare(value, conditionValue);
+			return (result === null ? null : result == 0);
+		}
+	}
+
+	/** Returns whether the given value meets the condition with the given operator, see {@link Operator} */
+	private static matchesOperator(value: DBValue, {operator, operand, operand2}: Operator): boolean | null {
+		if (operator == "NOT") {
+			assert(operand !== undefined, "NOT requires an operand.");
+			const result = MemoryDB.matchesValue(value, operand);
+			return (result === null ? null : !result);
+		} else if (operator == "IS NULL") {
+			return value === null;
+		} else if (operator == "IS NOT NULL") {
+			return value !== null;
+		} else if (value === null) {
+			return null;
+		}
+
+		assert(operand !== undefined && !(operand instanceof Operator), "The operator requires a value as operand.");
+		if (operator == "NOT IN") {
+			assert(operand instanceof Array, "NOT IN requires an array of values.");
+			return !operand.some(item => MemoryDB.compare(value, item) === 0);
+		} else if (operator == "= ANY") {
+			return (value as DBValue[]).some(item => MemoryDB.compare(item, operand) === 0);
+		} else if (operator == "@>" && operand instanceof Array) {
+			return operand.every(item => (value as DBValue[]).some(valueItem => MemoryDB.compare(valueItem, item) === 0));
+		} else if (operator == "@>") {
+			return MemoryDB.containsJson(value, operand);
+		} else if (operator == "?") {
+			return _.isPlainObject(value) && Object.hasOwn(value as JsonObject, operand as string);
+		} else if (operator == "&&") {
+			assert(operand instanceof Array, "&& requires an array of values.");
+			return operand.some(item => (value as DBValue[]).some(valueItem => MemoryDB.compare(valueItem, item) === 0));
+		} else if (operator == "LIKE" || operator == "ILIKE") {
+			return MemoryDB.likeToRegExp(operand as string, operator == "ILIKE").test(value as string);
+		}
+
+		const result = MemoryDB.compare(value, operand);
+		if (result === null) {
+			return null;
+		} else if (operator == "BETWEEN") {
+			const result2 = MemoryDB.compare(value, operand2!);
+			return (result2 === null ? null : result >= 0 && result2 <= 0);
+		} else if (operator == "<") {
+			return result < 0;
+		} else if (operator == "<=") {
+			return result <= 0;
+		} else if (operator == ">") {
+			return result > 0;
+		} else if (operator == ">=") {
+			return result >= 0;
+		} else if (operator == "<>") {
+			return result != 0;
+		}
+		assert.fail(`The operator ${operator} is not supported by MemoryDB.`);
+	}
+
+	/** Converts the given `LIKE`-pattern to a regular expression */
+	private static likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+		const source = pattern.replace(/\\(.)|./gs, (match, escaped?: string) => {
+			if (escaped !== undefined) {
+				return _.escapeRegExp(escaped);
+			}
+			return (match == "%" ? ".*" : (match == "_" ? "." : _.escapeRegExp(match)));
+		});
+		return new RegExp(`^${source}$`, (caseInsensitive ? "is" : "s"));
+	}
+
+	/** Combines the given results with `AND` using the three-valued logic of SQL */
+	private static and(results: (boolean | null)[]): boolean | null {
+		return (results.includes(false) ? false : (results.includes(null) ? null : true));
+	}
+
+	/** Combines the given results with `OR` using the three-valued logic of SQL */
+	private static or(results: (boolean | null)[]): boolean | null {
+		return (results.includes(true) ? true : (results.includes(null) ? null : false));
+	}
+
+	/**
+	 * Compares the given values (that should be of the same type). Returns a negative number if `a` is less than `b`,
+	 * a positive number if it is greater, 0 if they are equal, and `null` if any of them is `NULL`
+	 */
+	private static compare(a: DBValue, b: DBValue): number | null {
+		if (a === null || b === null) {
+			return null;
+		} else if (a instanceof Date && b instanceof Date) {
+			return a.getTime() - b.getTime();
+		} else if (a instanceof Buffer && b instanceof Buffer) {
+			return Buffer.compare(a, b);
+		} else if (a instanceof Array && b instanceof Array) {
+			for (let i = 0; i < Math.min(a.length, b.length); i++) {
+				const result = MemoryDB.compare(a[i], b[i]);
+				if (result !== 0) {
+					return result;
+				}
+			}
+			return a.length - b.length;
+		} else if (_.isPlainObject(a) && _.isPlainObject(b)) {
+			return (_.isEqual(a, b) ? 0 : MemoryDB.compare(JSON.stringify(a), JSON.stringify(b)));
+		}
+		return (a < b ? -1 : (a > b ? 1 : 0));
+	}
+
+	/** Returns whether the given JSON value contains the other one, as the `@>` operator does for `jsonb` */
+	private static containsJson(value: unknown, other: unknown): boolean {
+		if (value instanceof Array && other instanceof Array) {
+			return other.every(item => value.some(valueItem => MemoryDB.containsJson(valueItem, item)));
+		} else if (_.isPlainObject(value) && _.isPlainObject(other)) {
+			return Object.entries(other as JsonObject).every(([key, item]) => (
+				Object.hasOwn(value as JsonObject, key) && MemoryDB.containsJson((value as JsonObject)[key], item)
+			));
+		}
+		return _.isEqual(value, other);
+	}
+
+	/** Compares the given values for sorting. As in PostgreSQL, `NULL` is greater than any other value */
+	private static compareForSort(a: DBValue, b: DBValue): number {
+		if (a === null || b === null) {
+			return (a === null ? 1 : 0) - (b === null ? 1 : 0);
+		}
+		return MemoryDB.compare(a, b)!;
+	}
+
+	/** Checks that the given row doesn't have the same values of the given columns as any of the other rows */
+	private static checkUnique(table: string, columns: string[], row: Row, otherRows: Row[]): void {
+		if (columns.some(column => row[column] === null)) {
+			return;
+		}
+		const duplicate = otherRows.some(otherRow => columns.every(column => (
+			MemoryDB.compare(row[column], otherRow[column]) === 0
+		)));
+		assert(!duplicate, `Duplicate key value of (${columns.join(", ")}) in ${table}.`);
+	}
+
+	/** Returns the copy of the given row with only the given columns (`*` means all columns) */
+	private static pick(row: Row, columns: string[]): Row {
+		return _.cloneDeep(columns.includes("*") ? row : _.pick(row, columns));
+	}
+
+	/** Returns the result of the given function as a promise, which is rejected if the function throws */
+	private static toPromise<T>(fn: () => T): Promise<T> {
+		return new Promise(resolve => resolve(fn()));
+	}
+
+	/** Returns the number of the affected rows or (if `returning` is specified) the affected rows */
+	private static getResult(rows: Row[], returning?: string[]): number | Row[] {
+		if (!returning) {
+			return rows.length;
+		}
+		assert(returning.length > 0, "Specify at least one column to return (or * for all columns).");
+		return rows.map(row => MemoryDB.pick(row, returning));
+	}
+}
\ No newline at end of file
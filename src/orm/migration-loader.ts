@@ -0,0 +1,17 @@
+import {ClassWithInfo} from "../type-analyzer/class-info.js";
+import ClassLoader from "../type-analyzer/class-loader.js";
+import Migration from "./migration.js";
+
+/** This class prepares all necessary data for {@link MigrationRunner} */
+export default class MigrationLoader {
+	/** Loads all migration classes (i.e. all non-abstract classes derived from {@link Migration}) */
+	public static async loadAllMigrations(): Promise<ClassWithInfo[]> {
+		const migrationInfo = await ClassLoader.findOrThrow(Migration);
+		const classInfos = migrationInfo
+			.findDerivedClasses()
+			.filter(classInfo => !classInfo.source.endsWith(".test.js") && !classInfo.abstract);
+		return await Promise.all(
+			classInfos.map(ClassLoader.importWithInfo)
+		);
+	}
+}
\ No newline at end of file
@@ -0,0 +1,84 @@
+import assert from "assert/strict";
+import {after, before, test} from "node:test";
+import {ClassWithInfo} from "../type-analyzer/class-info.js";
+import ClassLoader from "../type-analyzer/class-loader.js";
+import TypeAnalyzer from "../type-analyzer/type-analyzer.js";
+import DB from "./db.js";
+import {Row} from "./db.typings.js";
+import MigrationRunner from "./migration-runner.js";
+import Migration from "./migration.js";
+
+const executed: string[] = [];
+
+export class M20240702AddItems extends Migration {
+	public up(): Promise<void> {
+		executed.push("up items");
+		return Promise.resolve();
+	}
+
+	public down(): Promise<void> {
+		executed.push("down items");
+		return Promise.resolve();
+	}
+}
+
+export class M20240701AddGuilds extends Migration {
+	public up(): Promise<void> {
+		executed.push("up guilds");
+		return Promise.resolve();
+	}
+
+	public down(): Promise<void> {
+		executed.push("down guilds");
+		return Promise.resolve();
+	}
+}
+
+const db = new DB("postgres://localhost/test-draco-ts");
+let migrations: ClassWithInfo[] = [];
+before(async () => {
+	TypeAnalyzer.init(["**/orm/*.d.ts"]);
+	migrations = [
+		await ClassLoader.findOrThrowWithInfo(M20240702AddItems),
+		await ClassLoader.findOrThrowWithInfo(M20240701AddGuilds),
+	];
+});
+
+after(async () => {
+	await db.close();
+});
+
+test("migrate, rollback and status", async ctx => {
+	const ledger: Row[] = [];
+	const runWithLock = ctx.mock.method(db, "runWithLock", (_lockName: string, cb: () => unknown) => cb());
+	ctx.mock.method(db, "runTransaction", (cb: (db: DB) => Promise<void>) => cb(db));
+	ctx.mock.method(db, "createTable", () => Promise.resolve());
+	ctx.mock.method(db, "select", () => Promise.resolve(ledger.slice()));
+	ctx.mock.method(db, "insert", (_table: string, row: Row) => {
+		ledger.push({id: ledger.length + 1, ...row});
+		return Promise.resolve(1);
+	});
+	ctx.mock.method(db, "delete", (_table: string, {name}: Row) => {
+		ledger.splice(ledger.findIndex(row => row.name == name), 1);
+		return Promise.resolve(1);
+	});
+
+	assert.deepEqual(await MigrationRunner.migrate(db, migrations.slice(0, 1)), ["M20240702AddItems"]);
+	assert.deepEqual(await MigrationRunner.migrate(db, migrations), ["M20240701AddGuilds"]);
+	assert.deepEqual(await MigrationRunner.migrate(db, migrations), []);
+	assert.deepEqual(executed, ["up items", "up guilds"]);
+	assert.deepEqual(ledger.map(row => [row.name, row.batch]), [["M20240702AddItems", 1], ["M20240701AddGuilds", 2]]);
+	assert.equal(runWithLock.mock.callCount(), 3);
+
+	assert.deepEqual(await MigrationRunner.rollback(db, migrations), ["M20240701AddGuilds"]);
+	const status = await MigrationRunner.getStatus(db, migrations);
+	assert.deepEqual(status.map(({name, applied, batch}) => ({name, applied, batch})), [
+		{name: "M20240702AddItems", applied: true, batch: 1},
+		{name: "M20240701AddGuilds", applied: false, batch: undefined},
+	]);
+
+	await assert.rejects(MigrationRunner.rollback(db, migrations.slice(1), 5));
+	assert.deepEqual(await MigrationRunner.rollback(db, migrations, 5), ["M20240702AddItems"]);
+	assert.deepEqual(executed, ["up items", "up guilds", "down guilds", "down items"]);
+	assert.deepEqual(ledger, []);
+});
\ No newline at end of file
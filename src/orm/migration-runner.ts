@@ -0,0 +1,139 @@
+import assert from "assert/strict";
+import Logger from "../core/logger.js";
+import {Int32} from "../core/typings.js";
+import {ClassWithInfo} from "../type-analyzer/class-info.js";
+import DB from "./db.js";
+import {FieldType, IndexType} from "./db.typings.js";
+import Migration from "./migration.js";
+
+/** The status of a migration, see {@link MigrationRunner.getStatus} */
+export interface MigrationStatus {
+	name: string;
+	applied: boolean;
+	/** The number of the migration run in which the migration was applied */
+	batch?: Int32;
+	executedAt?: Date;
+	/** Whether the migration is in the ledger, but its class was not found */
+	missing: boolean;
+}
+
+/**
+ * This class executes the migrations (see {@link Migration}). It can migrate to the latest version,
+ * roll back the given number of steps and show the status of all migrations.
+ *
+ * The executed migrations are stored in the ledger table `draco_migrations` that is created automatically.
+ * All commands hold an advisory lock, so that two servers can't migrate at once.
+ * Each migration is executed in its own transaction together with the ledger update
+ */
+export default class MigrationRunner {
+	/** The name of the ledger table */
+	public static readonly TABLE = "draco_migrations";
+	private static readonly logger = new Logger(MigrationRunner);
+
+	/** Executes all pending migrations in the alphabetical order. Returns the names of the executed migrations */
+	public static async migrate(db: DB, migrations: ClassWithInfo[]): Promise<string[]> {
+		const migrationsByName = MigrationRunner.getMigrationsByName(migrations);
+		return await db.runWithLock(MigrationRunner.TABLE, async () => {
+			const rows = await MigrationRunner.getLedger(db);
+			const appliedNames = new Set(rows.map(row => row.name));
+			const pending = Array.from(migrationsByName.keys()).filter(name => !appliedNames.has(name));
+			const batch = Math.max(0, ...rows.map(row => row.batch)) + 1;
+			for (const name of pending) {
+				MigrationRunner.logger.info(`Applying migration ${name}...`);
+				await db.runTransaction(async db => {
+					await migrationsByName.get(name)!.up(db);
+					await db.insert(MigrationRunner.TABLE, {name, batch, "executed_at": BigInt(Date.now())});
+				});
+			}
+			MigrationRunner.logger.info(
+				pending.length > 0 ? `Applied ${pending.length} migration(s).` : "Nothing to migrate."
+			);
+			return pending;
+		});
+	}
+
+	/**
+	 * Rolls back the given number of the last applied migrations (in the reverse order).
+	 * Returns the names of the rolled back migrations
+	 */
+	public static async rollback(db: DB, migrations: ClassWithInfo[], steps = 1): Promise<string[]> {
+		assert(Number.isInteger(steps) && steps > 0, "The number of steps should be a positive integer.");
+		const migrationsByName = MigrationRunner.getMigrationsByName(migrations);
+		return await db.runWithLock(MigrationRunner.TABLE, async () => {
+			const rows = (await MigrationRunner.getLedger(db)).reverse().slice(0, steps);
+			for (const {name} of rows) {
+				const migration = migrationsByName.get(name);
+				assert(migration, `Unable to roll back the migration ${name}, since its class was not found.`);
+				MigrationRunner.logger.info(`Rolling back migration ${name}...`);
+				await db.runTransaction(async db => {
+					await migration.down(db);
+					await db.delete(MigrationRunner.TABLE, {name});
+				});
+			}
+			MigrationRunner.logger.info(
+				rows.length > 0 ? `Rolled back ${rows.length} migration(s).` : "Nothing to roll back."
+			);
+			return rows.map(row => row.name);
+		});
+	}
+
+	/**
+	 * Returns the status of all migrations: the applied ones in the order of execution, then the pending ones.
+	 * The applied migrations whose classes were not found are also included
+	 */
+	public static async getStatus(db: DB, migrations: ClassWithInfo[]): Promise<MigrationStatus[]> {
+		const migrationsByName = MigrationRunner.getMigrationsByName(migrations);
+		const rows = await db.runWithLock(MigrationRunner.TABLE, () => MigrationRunner.getLedger(db));
+		const result: MigrationStatus[] = rows.map(row => ({
+			name: row.name, applied: true, batch: row.batch,
+			executedAt: new Date(Number(row.executedAt)), missing: !migrationsByName.has(row.name),
+		}));
+		const appliedNames = new Set(rows.map(row => row.name));
+		for (const name of migrationsByName.keys()) {
+			if (!appliedNames.has(name)) {
+				result.push({name, applied: false, missing: false});
+			}
+		}
+		return result;
+	}
+
+	/** Logs the status of all migrations in a human-readable form, see {@link MigrationRunner.getStatus} */
+	public static async logStatus(db: DB, migrations: ClassWithInfo[]): Promise<void> {
+		const lines = (await MigrationRunner.getStatus(db, migrations)).map(status => {
+			if (!status.applied) {
+				return `[pending] ${status.name}`;
+			}
+			const missing = (status.missing ? " (class not found)" : "");
+			return `[applied] ${status.name} in batch ${status.batch} at ${status.executedAt!.toISOString()}${missing}`;
+		});
+		MigrationRunner.logger.info(`Migrations:\n${lines.length > 0 ? lines.join("\n") : "No migrations found."}`);
+	}
+
+	/** Returns a map whose keys are the migration names and values are the migrations, in the alphabetical order */
+	private static getMigrationsByName(migrations: ClassWithInfo[]): Map<string, Migration> {
+		const result = new Map<string, Migration>;
+		const sorted = migrations.slice().sort(([, a], [, b]) => (a.name < b.name ? -1 : (a.name > b.name ? 1 : 0)));
+		for (const [MigrationClass, classInfo] of sorted) {
+			assert(!result.has(classInfo.name), `There are multiple migrations with the name ${classInfo.name}.`);
+			result.set(classInfo.name, new (MigrationClass as new () => Migration)());
+		}
+		return result;
+	}
+
+	/** Creates the ledger table if necessary and returns all applied migrations in the order of execution */
+	private static async getLedger(db: DB): Promise<{name: string, batch: Int32, executedAt: bigint}[]> {
+		await db.createTable(MigrationRunner.TABLE, [
+			{name: "id", type: FieldType.Serial},
+			{name: "name", type: FieldType.Text},
+			{name: "batch", type: FieldType.Int},
+			{name: "executed_at", type: FieldType.BigInt},
+		], [
+			{field: "id", type: IndexType.Primary},
+			{field: "name", type: IndexType.Unique},
+		], {ifNotExists: true});
+		const rows = await db.select(MigrationRunner.TABLE);
+		return rows
+			.sort((a, b) => (a.id as number) - (b.id as number))
+			.map(row => ({name: row.name as string, batch: row.batch as Int32, executedAt: row.executed_at as bigint}));
+	}
+}
\ No newline at end of file
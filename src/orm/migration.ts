@@ -0,0 +1,28 @@
+import DB from "./db.js";
+
+/**
+ * Migration class. Every non-abstract class that extends it is a migration that is executed by {@link MigrationRunner}.
+ * The migrations are executed in the alphabetical order of their class names, so the class names should start
+ * with the date of creation, e.g. `M20240701AddGuilds`. The migration name should never be changed after execution,
+ * since it is stored in the migrations ledger.
+ *
+ * Each migration is executed in its own transaction, so you should use the given DB instance for all queries. Example:
+ * ```ts
+ * export default class M20240701AddGuilds extends Migration {
+ *   public async up(db: DB): Promise<void> {
+ *     await db.createTable("guild", [{name: "id", type: FieldType.Serial}], [{field: "id", type: IndexType.Primary}]);
+ *   }
+ *
+ *   public async down(db: DB): Promise<void> {
+ *     await db.dropTable("guild");
+ *   }
+ * }
+ * ```
+ */
+export default abstract class Migration {
+	/** Applies the migration */
+	public abstract up(db: DB): Promise<void>;
+
+	/** Reverts the changes made by {@link Migration.up} */
+	public abstract down(db: DB): Promise<void>;
+}
\ No newline at end of file
@@ -1,7 +1,11 @@
-import {DBValue} from "./db.typings.js";
+import _ from "lodash";
+import {Condition, DBValue, JsonObject} from "./db.typings.js";
+
+/** The operand of {@link Operator}. Arrays are passed as PostgreSQL arrays (except for {@link notIn}) */
+export type OperatorOperand = DBValue | DBValue[] | Operator;
 
 /**
- * Some operator with one or two operands that can be used in the conditions when building queries.
+ * Some operator with zero, one or two operands that can be used in the conditions when building queries.
  * For example, this query selects all users with id less than 10:
  * ```ts
  * await db.select("user", {id: lt(10)});
@@ -10,10 +14,12 @@ import {DBValue} from "./db.typings.js";
  * ```ts
  * await db.select("user", {id: new Operator("<", 10)});
  * ```
+ * Most operators are built as `"field" <operator> <operand>`, but some of them are handled specially by {@link DB}:
+ * `NOT` (negates the operand condition), `NOT IN`, `= ANY` (the operand goes first) and `@@` (full-text search)
  */
 export default class Operator {
-	/** Creates an instance of some operator with one or two operands */
-	public constructor(public operator: string, public operand: DBValue, public operand2?: DBValue) {
+	/** Creates an instance of some operator with zero, one or two operands */
+	public constructor(public operator: string, public operand?: OperatorOperand, public operand2?: DBValue) {
 	}
 }
 
@@ -42,6 +48,101 @@ export function between(operand1: DBValue, operand2: DBValue): Operator {
 	return new Operator("BETWEEN", operand1, operand2);
 }
 
+/** Not equal to `operand`. `ne(null)` is the same as {@link isNotNull}. See {@link Operator} */
+export function ne(operand: DBValue): Operator {
+	return (operand === null ? isNotNull() : new Operator("<>", operand));
+}
+
+/** Matches the given `LIKE`-pattern (case-sensitive), e.g. `like("Luka%")`. See {@link Operator} */
+export function like(pattern: string): Operator {
+	return new Operator("LIKE", pattern);
+}
+
+/** Matches the given `LIKE`-pattern (case-insensitive), e.g. `ilike("luka%")`. See {@link Operator} */
+export function ilike(pattern: string): Operator {
+	return new Operator("ILIKE", pattern);
+}
+
+/** Is `NULL`. The same as `{field: null}`. See {@link Operator} */
+export function isNull(): Operator {
+	return new Operator("IS NULL");
+}
+
+/** Is not `NULL`. See {@link Operator} */
+export function isNotNull(): Operator {
+	return new Operator("IS NOT NULL");
+}
+
+/**
+ * Negates the given condition value, e.g. `not(like("Luka%"))`, `not(between(1, 10))` or `not([1, 2, 3])`.
+ * It can also negate a whole condition object (including the groups with {@link and} and {@link or}):
+ * ```ts
+ * await db.select("user", not({name: "Luka", points: gt(10)}));
+ * await db.select("user", {guild_id: 1, ...not({[or]: [{name: "Luka"}, {name: "Sama"}]})});
+ * ```
+ * Note that (as usual in SQL) the rows with `NULL` don't match neither the condition nor its negation.
+ * A plain object is always treated as a condition, so use {@link ne} to compare with a JSON object.
+ * See {@link Operator}
+ */
+export function not(condition: Condition): Condition;
+export function not(operand: OperatorOperand): Operator;
+export function not(operand: OperatorOperand | Condition): Operator | Condition {
+	if (_.isPlainObject(operand)) {
+		return {[negation]: [operand as Condition]};
+	}
+	return new Operator("NOT", operand as OperatorOperand);
+}
+
+/** Is not any of the given values. See {@link Operator} */
+export function notIn(values: DBValue[]): Operator {
+	return new Operator("NOT IN", values);
+}
+
+/** The array field contains all the given values (`@>`). See {@link Operator} */
+export function arrayContains(values: DBValue[]): Operator {
+	return new Operator("@>", values);
+}
+
+/** The array field has at least one of the given values (`&&`). See {@link Operator} */
+export function arrayOverlaps(values: DBValue[]): Operator {
+	return new Operator("&&", values);
+}
+
+/** The array field contains the given value (`= ANY`). See {@link Operator} */
+export function arrayIncludes(value: DBValue): Operator {
+	return new Operator("= ANY", value);
+}
+
+/**
+ * The JSONB field contains the given JSON value (`@>`), e.g. `jsonContains({stats: {level: 10}})`.
+ * See {@link Operator}
+ */
+export function jsonContains(value: JsonObject): Operator {
+	return new Operator("@>", value);
+}
+
+/** The JSONB field (which should be an object) has the given top-level key (`?`). See {@link Operator} */
+export function jsonHasKey(key: string): Operator {
+	return new Operator("?", key);
+}
+
+/**
+ * The given JSON path returns at least one item for the JSONB field (`@?`),
+ * e.g. `jsonPathExists('$.items[*] ? (@.type == "sword")')`. See {@link Operator}
+ */
+export function jsonPathExists(path: string): Operator {
+	return new Operator("@?", path);
+}
+
+/**
+ * The text field matches the given full-text search query (`to_tsvector @@ plainto_tsquery`).
+ * The text search configuration (e.g. "english") can be specified, otherwise the default one is used.
+ * See {@link Operator}
+ */
+export function textSearch(query: string, config?: string): Operator {
+	return new Operator("@@", query, config);
+}
+
 /**
  * Used as a key, it connects two conditions with `AND`, for example:
  * ```ts
@@ -68,4 +169,6 @@ const and = Symbol("and");
  * ```
  */
 const or = Symbol("or");
-export {and, or};
\ No newline at end of file
+/** Used as a key by {@link not} to negate the conditions, e.g. `{[negation]: [{id: 1}, {name: "Test"}]}` */
+const negation = Symbol("not");
+export {and, negation, or};
\ No newline at end of file
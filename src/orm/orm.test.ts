@@ -0,0 +1,392 @@
+import assert from "assert/strict";
+import {after, before, test} from "node:test";
+import {Float, Int16, Int32, Int64, Typings} from "../core/typings.js";
+import {Vec2i, Vec3f, Vector2i, Vector3f} from "../math/vector.js";
+import Service from "../net/service.js";
+import ClassLoader from "../type-analyzer/class-loader.js";
+import TypeAnalyzer from "../type-analyzer/type-analyzer.js";
+import ConcurrencyConflictError from "./concurrency-conflict-error.js";
+import DB from "./db.js";
+import {FieldType, IndexType, NotificationHandler, Row} from "./db.typings.js";
+import Entity, {InMemory} from "./entity.js";
+import {gt, isNotNull, or} from "./operator.js";
+import ORM from "./orm.js";
+import {EntityOptions, HistoryOperation} from "./orm.typings.js";
+
+enum TestItemKind {
+	Weapon,
+	Armor,
+}
+
+enum TestItemRarity {
+	Common = "common",
+	Rare = "rare",
+}
+
+export class TestItem extends Entity {
+	public name!: string;
+	public count!: Int32;
+	public weight!: Float;
+	public price!: Int64;
+	public kind!: TestItemKind;
+	public rarity?: TestItemRarity;
+	public stackable!: boolean;
+	public position!: Vector2i;
+	public description?: string;
+	public cachedValue?: InMemory<string>;
+}
+
+export class TestRecord extends Entity {
+	public level!: Int16;
+	public achievedAt!: Date;
+	public replay?: Buffer;
+	public tags!: string[];
+	public rarities!: TestItemRarity[];
+	public scores!: Int32[];
+	public direction!: Vector3f;
+}
+
+export class TestCharacter extends Entity {
+	public static options: EntityOptions = {table: "characters"};
+	public nickName!: string;
+}
+
+export class TestAccount extends Entity {
+	public static options: EntityOptions = {versioned: true};
+	public gold!: Int32;
+	public version!: Int32;
+}
+
+export class TestLoot extends Entity {
+	public static options: EntityOptions = {softDelete: true, history: true};
+	public gold!: Int32;
+}
+
+class TestLootService extends Service {}
+
+const db = new DB("postgres://localhost/test-draco-ts");
+before(async () => {
+	TypeAnalyzer.init(["**/orm/*.d.ts", "**/typings.d.ts", "**/vector.d.ts"]);
+	const entities = [
+		await ClassLoader.findOrThrowWithInfo(TestItem),
+		await ClassLoader.findOrThrowWithInfo(TestCharacter),
+		await ClassLoader.findOrThrowWithInfo(TestAccount),
+		await ClassLoader.findOrThrowWithInfo(TestLoot),
+		await ClassLoader.findOrThrowWithInfo(TestRecord),
+	];
+	const typings = await ClassLoader.findOrThrow(Typings);
+	await ORM.init(db, entities, typings);
+});
+
+after(async () => {
+	ORM.stop();
+	await db.close();
+});
+
+test("metadata", () => {
+	const rarityEnum = {name: "test_item_rarity", values: ["common", "rare"]};
+	const itemMetadata = ORM.getMetadata(TestItem);
+	assert.equal(itemMetadata.table, "test_item");
+	assert.deepEqual(itemMetadata.fields, [
+		{name: "id", type: FieldType.Serial, nullable: false},
+		{name: "name", type: FieldType.Text, nullable: false},
+		{name: "count", type: FieldType.Int, nullable: false},
+		{name: "weight", type: FieldType.Float, nullable: false},
+		{name: "price", type: FieldType.BigInt, nullable: false},
+		{name: "kind", type: FieldType.Int, nullable: false},
+		{name: "rarity", type: FieldType.Enum, nullable: true, enum: rarityEnum},
+		{name: "stackable", type: FieldType.Bool, nullable: false},
+		{name: "position_x", type: FieldType.Int, nullable: false},
+		{name: "position_y", type: FieldType.Int, nullable: false},
+		{name: "description", type: FieldType.Text, nullable: true},
+	]);
+	assert.deepEqual(itemMetadata.indexes, [{field: "id", type: IndexType.Primary}]);
+
+	assert.deepEqual(ORM.getMetadata(TestRecord).fields, [
+		{name: "id", type: FieldType.Serial, nullable: false},
+		{name: "level", type: FieldType.SmallInt, nullable: false},
+		{name: "achieved_at", type: FieldType.TimestampTz, nullable: false},
+		{name: "replay", type: FieldType.Bytes, nullable: true},
+		{name: "tags", type: FieldType.Text, nullable: false, array: true},
+		{name: "rarities", type: FieldType.Enum, nullable: false, array: true, enum: rarityEnum},
+		{name: "scores", type: FieldType.Int, nullable: false, array: true},
+		{name: "direction_x", type: FieldType.Float, nullable: false},
+		{name: "direction_y", type: FieldType.Float, nullable: false},
+		{name: "direction_z", type: FieldType.Float, nullable: false},
+	]);
+
+	const characterMetadata = ORM.getMetadata(TestCharacter);
+	assert.equal(characterMetadata.table, "characters");
+	assert.deepEqual(characterMetadata.fields, [
+		{name: "id", type: FieldType.Serial, nullable: false},
+		{name: "nick_name", type: FieldType.Text, nullable: false},
+	]);
+});
+
+test("field types", async ctx => {
+	const achievedAt = new Date;
+	ctx.mock.method(db, "select", () => Promise.resolve([{
+		id: 1, level: 3, "achieved_at": achievedAt, replay: null, tags: ["pvp", "boss"], rarities: ["rare"],
+		scores: [10, 20], "direction_x": 0.5, "direction_y": 0, "direction_z": -1,
+	}]));
+	const record = await TestRecord.get(1);
+	assert(record);
+	assert.equal(record.achievedAt, achievedAt);
+	assert.equal(record.replay, undefined);
+	assert.deepEqual(record.tags, ["pvp", "boss"]);
+	assert.deepEqual(record.rarities, [TestItemRarity.Rare]);
+	assert.deepEqual(record.direction, Vec3f(0.5, 0, -1));
+});
+
+test("find and get", async ctx => {
+	const row: Row = {
+		id: 1, name: "Sword", count: 1, weight: 2.5, price: 100n, kind: TestItemKind.Weapon, rarity: null,
+		stackable: false, "position_x": 3, "position_y": -4, description: null,
+	};
+	const select = ctx.mock.method(db, "select", () => Promise.resolve([row]));
+
+	await assert.rejects(TestItem.find({[or]: [{count: gt(0)}, {nickName: "Sword"}]}));
+
+	const item = await TestItem.get(1);
+	assert(item instanceof TestItem);
+	assert.equal(item.id, 1);
+	assert.equal(item.price, 100n);
+	assert.equal(item.rarity, undefined);
+	assert.deepEqual(item.position, Vec2i(3, -4));
+	assert.deepEqual(select.mock.calls[0].arguments, [
+		"test_item", {id: 1}, {fields: ORM.getMetadata(TestItem).fields.map(field => field.name)}
+	]);
+
+	const characters = await TestCharacter.find({nickName: ["Luka", "Sama"]});
+	assert.equal(characters.length, 1);
+	assert.deepEqual(select.mock.calls[1].arguments.slice(0, 2), ["characters", {"nick_name": ["Luka", "Sama"]}]);
+});
+
+test("create, change and remove", async ctx => {
+	const query = ctx.mock.method(db, "query", () => Promise.resolve([{id: 7n}]));
+	const select = ctx.mock.method(db, "select", () => Promise.resolve([
+		{id: 5, "nick_name": "Luka"}, {id: 6, "nick_name": "Sama"}
+	]));
+	ctx.mock.method(db, "runTransaction", (cb: (db: DB) => Promise<void>) => cb(db));
+	const insert = ctx.mock.method(db, "insert", () => Promise.resolve(1));
+	const updateMany = ctx.mock.method(db, "updateMany", () => Promise.resolve(1));
+	const remove = ctx.mock.method(db, "delete", () => Promise.resolve(1));
+	const trackChange = ctx.mock.method(Service, "trackChange");
+
+	const item = await TestItem.create({
+		name: "Apple", count: 3, weight: 0.5, price: 2n, kind: TestItemKind.Armor, rarity: TestItemRarity.Rare,
+		stackable: true, position: Vec2i(1, 2), cachedValue: "not stored"
+	});
+	item.count++;
+	const [luka, sama] = await TestCharacter.find();
+	luka.nickName = "Luka-sama";
+	sama.nickName = "Sama-luka";
+	sama.nickName = "Test";
+	assert.equal(query.mock.callCount(), 1);
+	assert.equal(select.mock.callCount(), 1);
+	assert.equal(item.id, 7);
+	assert.equal(insert.mock.callCount(), 0);
+	assert.equal(trackChange.mock.callCount(), 5);
+
+	await ORM.flush();
+	assert.deepEqual(insert.mock.calls[0].arguments, ["test_item", [{
+		id: 7, name: "Apple", count: 4, weight: 0.5, price: 2n, kind: TestItemKind.Armor, rarity: "rare",
+		stackable: true, "position_x": 1, "position_y": 2
+	}]]);
+	assert.deepEqual(updateMany.mock.calls[0].arguments, ["characters", [
+		{id: 5, "nick_name": "Luka-sama"}, {id: 6, "nick_name": "Test"}
+	], "id"]);
+
+	item.remove();
+	luka.remove();
+	luka.nickName = "Removed";
+	assert.equal(trackChange.mock.callCount(), 7);
+	await ORM.flush();
+	assert.equal(updateMany.mock.callCount(), 1);
+	assert.deepEqual(remove.mock.calls.map(call => call.arguments), [
+		["test_item", {id: [7]}], ["characters", {id: [5]}]
+	]);
+
+	await ORM.flush();
+	assert.equal(insert.mock.callCount(), 1);
+	assert.equal(remove.mock.callCount(), 2);
+});
+
+test("failed flush", async ctx => {
+	const updateMany = ctx.mock.method(db, "updateMany", () => Promise.resolve(1));
+	ctx.mock.method(db, "select", () => Promise.resolve([{id: 8, "nick_name": "Luka"}]));
+	const runTransaction = ctx.mock.method(db, "runTransaction", (cb: (db: DB) => Promise<void>) => cb(db));
+	runTransaction.mock.mockImplementationOnce(() => Promise.reject(new Error("Connection lost")));
+
+	const character = await TestCharacter.get(8);
+	assert(character);
+	character.nickName = "Luka-sama";
+	await assert.rejects(ORM.flush());
+	assert.equal(updateMany.mock.callCount(), 0);
+	await ORM.flush();
+	assert.deepEqual(updateMany.mock.calls[0].arguments, ["characters", [{id: 8, "nick_name": "Luka-sama"}], "id"]);
+});
+
+test("identity map", async ctx => {
+	const select = ctx.mock.method(db, "select", () => Promise.resolve([{id: 20, "nick_name": "Luka"}]));
+	const [character] = await TestCharacter.find({nickName: "Luka"});
+	character.nickName = "Luka-sama";
+	const [sameCharacter] = await TestCharacter.find({nickName: "Luka"});
+	assert.equal(sameCharacter, character);
+	assert.equal(sameCharacter.nickName, "Luka-sama");
+	assert.equal(await TestCharacter.get(20), character);
+	assert.equal(select.mock.callCount(), 2);
+
+	// The removed entity is not loaded again before it is deleted from the database
+	character.remove();
+	assert.equal(await TestCharacter.get(20), undefined);
+	assert.equal(select.mock.callCount(), 3);
+});
+
+test("sequential flushes", async ctx => {
+	ctx.mock.method(db, "select", () => Promise.resolve([{id: 9, "nick_name": "Luka"}]));
+	const updateMany = ctx.mock.method(db, "updateMany", () => Promise.resolve(1));
+	ctx.mock.method(db, "delete", () => Promise.resolve(1));
+	let commit!: () => void;
+	const committed = new Promise<void>(resolve => commit = resolve);
+	const runTransaction = ctx.mock.method(db, "runTransaction", async (cb: (db: DB) => Promise<void>) => {
+		await committed;
+		await cb(db);
+	});
+
+	const character = await TestCharacter.get(9);
+	assert(character);
+	character.nickName = "Luka-sama";
+	const flush = ORM.flush();
+	await new Promise(resolve => setImmediate(resolve));
+	character.nickName = "Test";
+	const nextFlush = ORM.flush();
+	await new Promise(resolve => setImmediate(resolve));
+	assert.equal(runTransaction.mock.callCount(), 1);
+	commit();
+	await Promise.all([flush, nextFlush]);
+	assert.deepEqual(updateMany.mock.calls.map(call => call.arguments[1]), [
+		[{id: 9, "nick_name": "Luka-sama"}], [{id: 9, "nick_name": "Test"}],
+	]);
+});
+
+test("optimistic locking", async ctx => {
+	assert.equal(ORM.getMetadata(TestAccount).versionColumn, "version");
+	const select = ctx.mock.method(db, "select", () => Promise.resolve([{id: 1, gold: 100, version: 3}]));
+	ctx.mock.method(db, "runTransaction", (cb: (db: DB) => Promise<void>) => cb(db));
+	const update = ctx.mock.method(db, "update", () => Promise.resolve(1));
+	ctx.mock.method(db, "delete", () => Promise.resolve(1));
+
+	const account = await TestAccount.get(1);
+	assert(account);
+	account.gold = 50;
+	await ORM.flush();
+	assert.deepEqual(update.mock.calls[0].arguments, [
+		"test_account", {gold: 50, version: 3}, {id: 1}, {versionColumn: "version"},
+	]);
+	assert.equal(account.version, 4);
+
+	// The conflict doesn't prevent saving other changes
+	update.mock.mockImplementation(() => Promise.reject(new ConcurrencyConflictError("Stale version")));
+	select.mock.mockImplementation(() => Promise.resolve([{id: 1, gold: 70, version: 5}]));
+	const updateMany = ctx.mock.method(db, "updateMany", () => Promise.resolve(1));
+	const character = ORM.fromRow(ORM.getMetadata(TestCharacter), {id: 40, "nick_name": "Luka"}) as TestCharacter;
+	character.nickName = "Luka-sama";
+	account.gold = 0;
+	await assert.rejects(ORM.flush(), (e: unknown) => e instanceof ConcurrencyConflictError && e.entities[0] == account);
+	assert.deepEqual([account.gold, account.version], [70, 5]);
+	assert.deepEqual(updateMany.mock.calls[0].arguments, ["characters", [{id: 40, "nick_name": "Luka-sama"}], "id"]);
+	await ORM.flush();
+	assert.equal(update.mock.callCount(), 2);
+});
+
+test("soft delete and history", async ctx => {
+	assert.deepEqual(ORM.getMetadata(TestLoot).fields.map(field => field.name), ["id", "gold", "deleted_at"]);
+	assert.deepEqual(
+		ORM.getTableDefinitions().find(table => table.name == "test_loot_history")?.fields.map(field => field.name),
+		["id", "entity_id", "operation", "changed_at", "service", "old_values", "new_values"]
+	);
+	const select = ctx.mock.method(db, "select", () => Promise.resolve([{id: 1, gold: 10, "deleted_at": null}]));
+	ctx.mock.method(db, "runTransaction", (cb: (db: DB) => Promise<void>) => cb(db));
+	const insert = ctx.mock.method(db, "insert", () => Promise.resolve(1));
+	const update = ctx.mock.method(db, "update", () => Promise.resolve(1));
+	ctx.mock.method(db, "updateMany", () => Promise.resolve(1));
+	const remove = ctx.mock.method(db, "delete", () => Promise.resolve(1));
+	ctx.mock.method(Service, "getCurrent", () => TestLootService.create({}));
+	const getHistoryRows = (call: number): Row[] => {
+		const [table, rows] = insert.mock.calls[call].arguments as [string, Row[]];
+		assert.equal(table, "test_loot_history");
+		assert(rows.every(row => row["changed_at"] instanceof Date));
+		return rows.map(({"changed_at": _changedAt, ...row}) => row);
+	};
+
+	await TestLoot.create({id: 2, gold: 5});
+	const [loot] = await TestLoot.find({gold: gt(5)});
+	assert.deepEqual(select.mock.calls[0].arguments[1], {"deleted_at": null, [or]: [{gold: gt(5)}]});
+	loot.gold = 20;
+	await ORM.flush();
+	assert.deepEqual(insert.mock.calls[0].arguments, ["test_loot", [{id: 2, gold: 5}]]);
+	assert.deepEqual(getHistoryRows(1), [{
+		"entity_id": 2, operation: HistoryOperation.Insert, service: "TestLootService",
+		"old_values": null, "new_values": {gold: 5},
+	}]);
+	assert.deepEqual(select.mock.calls[1].arguments, ["test_loot", {id: [1]}, {fields: ["id", "gold"], forUpdate: true}]);
+	assert.deepEqual(getHistoryRows(2), [{
+		"entity_id": 1, operation: HistoryOperation.Update, service: "TestLootService",
+		"old_values": {gold: 10}, "new_values": {gold: 20},
+	}]);
+
+	loot.remove();
+	await ORM.flush();
+	assert.equal(remove.mock.callCount(), 0);
+	assert.deepEqual(select.mock.calls[2].arguments, ["test_loot", {id: [1]}, {forUpdate: true}]);
+	assert.deepEqual(getHistoryRows(3), [{
+		"entity_id": 1, operation: HistoryOperation.Delete, service: "TestLootService",
+		"old_values": {gold: 10, "deleted_at": null}, "new_values": null,
+	}]);
+	const [, data, conditions] = update.mock.calls[0].arguments;
+	assert(data?.["deleted_at"] instanceof Date);
+	assert.deepEqual([Object.keys(data), conditions], [["deleted_at"], {id: [1]}]);
+
+	const deletedAt = new Date("2026-01-01T00:00:00Z");
+	select.mock.mockImplementation(() => Promise.resolve([{"deleted_at": deletedAt}]));
+	assert(await ORM.restore(TestLoot, 1));
+	assert.deepEqual(update.mock.calls[1].arguments.slice(1), [{"deleted_at": null}, {id: 1, "deleted_at": isNotNull()}]);
+	assert.deepEqual(getHistoryRows(4), [{
+		"entity_id": 1, operation: HistoryOperation.Update, service: "TestLootService",
+		"old_values": {"deleted_at": "2026-01-01T00:00:00.000Z"}, "new_values": {"deleted_at": null},
+	}]);
+});
+
+test("cache invalidation", async ctx => {
+	let handler: NotificationHandler | undefined;
+	ctx.mock.method(db, "listen", (_channel: string, cb: NotificationHandler) => {
+		handler = cb;
+		return Promise.resolve(() => Promise.resolve());
+	});
+	const notify = ctx.mock.method(db, "notify", () => Promise.resolve());
+	const select = ctx.mock.method(db, "select", () => Promise.resolve([{id: 30, "nick_name": "Luka"}]));
+	ctx.mock.method(db, "runTransaction", (cb: (db: DB) => Promise<void>) => cb(db));
+	ctx.mock.method(db, "updateMany", () => Promise.resolve(1));
+	await ORM.enableInvalidation();
+	try {
+		const character = await TestCharacter.get(30);
+		assert(character && handler);
+		character.nickName = "Luka-sama";
+		await ORM.flush();
+		const [channel, payload] = notify.mock.calls[0].arguments as string[];
+		const message = JSON.parse(payload) as {table: string, ids: string[]};
+		assert.deepEqual([channel, message.table, message.ids], [ORM.INVALIDATION_CHANNEL, "characters", ["30"]]);
+
+		// The own messages are ignored, the messages of other processes reload the cached entities
+		await handler(payload);
+		assert.equal(select.mock.callCount(), 1);
+		select.mock.mockImplementation(() => Promise.resolve([{id: 30, "nick_name": "Sama"}]));
+		await handler(JSON.stringify({...message, sender: "another process"}));
+		assert.equal(character.nickName, "Sama");
+		assert.equal(select.mock.callCount(), 2);
+		assert.equal(select.mock.calls[1].arguments[2]?.primary, true);
+	} finally {
+		await ORM.disableInvalidation();
+	}
+});
\ No newline at end of file
@@ -0,0 +1,1257 @@
+import assert from "assert/strict";
+import {randomUUID} from "crypto";
+import _ from "lodash";
+import Cache from "../cache/cache.js";
+import MapUtil from "../collection-utils/map-util.js";
+import SetUtil from "../collection-utils/set-util.js";
+import Logger from "../core/logger.js";
+import {Class, Constructor} from "../core/typings.js";
+import EntityTask from "../game-loop/entity-task.js";
+import Task, {TaskParameters} from "../game-loop/task.js";
+import {Vector2f, Vector2i, Vector3f, Vector3i} from "../math/vector.js";
+import Service from "../net/service.js";
+import Synchronizer from "../sync/synchronizer.js";
+import Zone from "../sync/zone.js";
+import ClassInfo, {ClassWithInfo} from "../type-analyzer/class-info.js";
+import ClassLoader from "../type-analyzer/class-loader.js";
+import TypeAnalyzer from "../type-analyzer/type-analyzer.js";
+import {Kind, PropertyInfo, PropertyType} from "../type-analyzer/type-analyzer.typings.js";
+import ConcurrencyConflictError from "./concurrency-conflict-error.js";
+import {
+	Condition,
+	Conditions,
+	Database,
+	DBValue,
+	EnumDefinition,
+	FieldDefinition,
+	FieldType,
+	IndexType,
+	JsonObject,
+	Row
+} from "./db.typings.js";
+import Entity from "./entity.js";
+import {and, isNotNull, negation, or} from "./operator.js";
+import {
+	EntityMetadata,
+	HistoryOperation,
+	InvalidationOptions,
+	PropertyMetadata,
+	RelationMetadata,
+	RelationType
+} from "./orm.typings.js";
+import {TableDefinition} from "./schema-synchronizer.typings.js";
+
+/** Any vector class that can be stored in the database */
+type VectorClass = typeof Vector2f | typeof Vector2i | typeof Vector3f | typeof Vector3i;
+
+/** The changes of a join table that should be saved on the next flush */
+interface JoinTableChanges {
+	/** A map whose keys are the columns and values are the ids whose rows should be deleted */
+	deletes: Map<string, DBValue[]>;
+	/** The rows that should be inserted. The keys are used to not insert the same row twice (from both sides) */
+	rows: Map<string, Row>;
+}
+
+/** The notification about the changed or removed entities of a table, see {@link ORM.enableInvalidation} */
+interface InvalidationMessage {
+	/** The id of the process that sent it */
+	sender: string;
+	table: string;
+	/** The ids of the changed or removed entities, as strings */
+	ids: string[];
+}
+
+/**
+ * ORM class. It maps the entities (see {@link Entity}) to the database tables
+ * using the information collected by {@link TypeAnalyzer}, and loads, inserts and removes them
+ * using the query builder of {@link DB} (or of any other {@link Database}, e.g. {@link MemoryDB} in tests).
+ *
+ * It is a unit of work: the changes of the entities are not written immediately,
+ * but collected and periodically flushed to the database in batches (see {@link ORM.flush}).
+ * It also uses {@link Cache} as an identity map, so that each row exists as at most one entity instance.
+ *
+ * The relations between entities are not loaded automatically (see {@link RelationLoader}),
+ * ORM only remembers the foreign keys and which relations are already loaded
+ */
+export default class ORM {
+	/** The column that stores the deletion time of soft-deleted rows, see {@link EntityOptions.softDelete} */
+	public static readonly DELETED_AT = "deleted_at";
+	/** The default value of {@link InvalidationOptions.channel} */
+	public static readonly INVALIDATION_CHANNEL = "draco_invalidation";
+	/** How many ids are sent in one invalidation message, so that it stays under the payload limit of `NOTIFY` */
+	public static readonly INVALIDATION_CHUNK_SIZE = 100;
+	private static readonly logger = new Logger(ORM);
+	/** The id of this process in the invalidation messages, so that it ignores its own messages */
+	private static readonly instanceId = randomUUID();
+	/** A map whose keys are entity classes and values are the info about them */
+	private static readonly metadataByClass = new Map<Class, EntityMetadata>;
+	private static db?: Database;
+	/** The class info about typings.ts, see {@link Typings} */
+	private static typings?: ClassInfo;
+	/** The class info about {@link Entity}, it is used to find {@link InMemory} */
+	private static entityInfo?: ClassInfo;
+	/** The vector classes with the infos about them */
+	private static vectors: ClassWithInfo[] = [];
+	/** The entities whose changes are tracked, i.e. the entities that were loaded, created or inserted */
+	private static trackedEntities = new WeakSet<Entity>;
+	/** The entities that should be inserted on the next flush */
+	private static readonly newEntities = new Set<Entity>;
+	/** A map whose keys are entities and values are their properties that should be updated on the next flush */
+	private static readonly changedProperties = new Map<Entity, Set<string>>;
+	/** The entities that should be removed on the next flush */
+	private static readonly removedEntities = new Set<Entity>;
+	/** The foreign keys of many-to-one relations of the loaded entities, they are used to load these relations */
+	private static foreignKeys = new WeakMap<Entity, Map<string, DBValue>>;
+	/** The relations that were loaded or set for each entity */
+	private static loadedRelations = new WeakMap<Entity, Set<string>>;
+	/** The entity tasks that were started for each entity, see {@link EntityTask} */
+	private static entityTasks = new WeakMap<Entity, Task[]>;
+	/** The names of the services that inserted, changed or removed each entity with history since the last flush */
+	private static changedBy = new WeakMap<Entity, Set<string>>;
+	/** The last started flush, the next flush waits for it */
+	private static lastFlush = Promise.resolve();
+	/** The options and the function that stops listening, if the invalidation is enabled */
+	private static invalidation?: {options: InvalidationOptions, unlisten: () => Promise<void>};
+
+	/**
+	 * Remembers the given database connection and collects the info about the given entities.
+	 * The given entity tasks will be started for the corresponding entities, see {@link EntityTask}
+	 */
+	public static async init(
+		db: Database, entities: ClassWithInfo[], typings: ClassInfo, entityTasks: ClassWithInfo[] = []
+	): Promise<void> {
+		ORM.db = db;
+		ORM.typings = typings;
+		ORM.entityInfo = await ClassLoader.findOrThrow(Entity);
+		ORM.vectors = await Promise.all(
+			[Vector2f, Vector2i, Vector3f, Vector3i].map(ClassLoader.findOrThrowWithInfo)
+		);
+		const metadataByName = new Map<string, EntityMetadata>;
+		for (const [EntityClass, classInfo] of entities) {
+			const metadata = ORM.transform(EntityClass as typeof Entity, classInfo);
+			if (metadata) {
+				ORM.metadataByClass.set(EntityClass, metadata);
+				metadataByName.set(classInfo.fullName, metadata);
+			}
+		}
+		ORM.resolveRelations(metadataByName);
+		ORM.registerEntityTasks(entities, entityTasks);
+	}
+
+	/**
+	 * Forgets all collected info, queued changes and the database connection.
+	 * It doesn't close the connection, so you should call {@link ORM.flush} and then close it if necessary
+	 */
+	public static stop(): void {
+		ORM.metadataByClass.clear();
+		ORM.vectors = [];
+		ORM.trackedEntities = new WeakSet;
+		ORM.foreignKeys = new WeakMap;
+		ORM.loadedRelations = new WeakMap;
+		ORM.entityTasks = new WeakMap;
+		ORM.changedBy = new WeakMap;
+		ORM.newEntities.clear();
+		ORM.changedProperties.clear();
+		ORM.removedEntities.clear();
+		delete ORM.db;
+		delete ORM.invalidation;
+		delete ORM.typings;
+		delete ORM.entityInfo;
+	}
+
+	/**
+	 * Enables the invalidation of the cached entities between the processes that share the database.
+	 * Each {@link ORM.flush} notifies other processes about the changed and removed entities (see {@link DB.notify}),
+	 * and they reload these entities or evict them from the cache (see {@link InvalidationOptions.reload}).
+	 * The entities with unsaved changes are not reloaded, the conflicts are resolved when they are saved
+	 * (see {@link EntityOptions.versioned})
+	 */
+	public static async enableInvalidation(options?: Partial<InvalidationOptions>): Promise<void> {
+		assert(!ORM.invalidation, "The invalidation is already enabled.");
+		const fullOptions: InvalidationOptions = {channel: ORM.INVALIDATION_CHANNEL, reload: true, ...options};
+		const unlisten = await ORM.getDB().listen(fullOptions.channel, ORM.invalidate);
+		ORM.invalidation = {options: fullOptions, unlisten};
+	}
+
+	/** Disables the invalidation, see {@link ORM.enableInvalidation} */
+	public static async disableInvalidation(): Promise<void> {
+		const unlisten = ORM.invalidation?.unlisten;
+		delete ORM.invalidation;
+		await unlisten?.();
+	}
+
+	/** Returns the database connection that ORM uses */
+	public static getDB(): Database {
+		assert(ORM.db, "ORM is not initialized.");
+		return ORM.db;
+	}
+
+	/** Returns the info about the given entity class */
+	public static getMetadata(EntityClass: Class): EntityMetadata {
+		const metadata = ORM.metadataByClass.get(EntityClass);
+		assert(metadata, `The entity class ${EntityClass.name} was not found or not exported.`);
+		return metadata;
+	}
+
+	/** Returns the info about all entity classes */
+	public static getAllMetadata(): EntityMetadata[] {
+		return Array.from(ORM.metadataByClass.values());
+	}
+
+	/**
+	 * Returns the definitions of all tables that are needed to store the entities, including the join tables.
+	 * They can be used to create the tables or to synchronize the schema, see {@link SchemaSynchronizer}
+	 */
+	public static getTableDefinitions(): TableDefinition[] {
+		const tables = new Map<string, TableDefinition>;
+		for (const metadata of ORM.metadataByClass.values()) {
+			tables.set(metadata.table, {name: metadata.table, fields: metadata.fields, indexes: metadata.indexes});
+		}
+		for (const metadata of ORM.metadataByClass.values()) {
+			for (const relation of metadata.relations.values()) {
+				if (relation.type != RelationType.ManyToMany || tables.has(relation.joinTable!)) {
+					continue;
+				}
+				const [sourceColumn, targetColumn] = [relation.sourceColumn!, relation.targetColumn!];
+				tables.set(relation.joinTable!, {
+					name: relation.joinTable!,
+					fields: [{name: sourceColumn, type: FieldType.Int}, {name: targetColumn, type: FieldType.Int}],
+					indexes: [{fields: [sourceColumn, targetColumn], type: IndexType.Primary}, {field: targetColumn}],
+				});
+			}
+			if (metadata.history) {
+				const idType = metadata.properties.get("id")!.fields[0].type;
+				const entityIdType = (
+					idType == FieldType.Serial ? FieldType.Int : (idType == FieldType.BigSerial ? FieldType.BigInt : idType)
+				);
+				tables.set(ORM.getHistoryTable(metadata), {
+					name: ORM.getHistoryTable(metadata),
+					fields: [
+						{name: "id", type: FieldType.BigSerial},
+						{name: "entity_id", type: entityIdType},
+						{name: "operation", type: FieldType.Text},
+						{name: "changed_at", type: FieldType.TimestampTz},
+						{name: "service", type: FieldType.Text, nullable: true},
+						{name: "old_values", type: FieldType.Jsonb, nullable: true},
+						{name: "new_values", type: FieldType.Jsonb, nullable: true},
+					],
+					indexes: [{field: "id", type: IndexType.Primary}, {field: "entity_id"}],
+				});
+			}
+		}
+		return Array.from(tables.values());
+	}
+
+	/**
+	 * Loads all entities of the given class that meet the given conditions (that use the property names).
+	 * The entities that are already loaded are taken from {@link Cache}, so that each row exists as at most one entity.
+	 * If the only condition is the id, the database is not queried at all if the entity is cached.
+	 * The soft-deleted entities are not loaded (see {@link EntityOptions.softDelete})
+	 */
+	public static async find<T extends Entity>(EntityClass: Constructor<T>, conditions?: Conditions): Promise<T[]> {
+		const metadata = ORM.getMetadata(EntityClass);
+		const id = (conditions && !(conditions instanceof Array) && Object.keys(conditions).length == 1 &&
+			!conditions[and] && !conditions[or] && !conditions[negation] ? conditions.id : undefined);
+		if (typeof id == "number") {
+			const cached = Cache.get<T>(ORM.getCacheKey(metadata, id));
+			if (cached) {
+				return [cached];
+			}
+		}
+
+		const rows = await ORM.getDB().select(
+			metadata.table,
+			ORM.excludeDeleted(metadata, ORM.toColumnConditions(metadata, conditions)),
+			{fields: metadata.fields.map(field => field.name)}
+		);
+		// The removed entities are still in the database until the next flush, but they should not be loaded again
+		const removedIds = new Set(
+			Array.from(ORM.removedEntities).filter(entity => entity.constructor == EntityClass).map(entity => entity.id)
+		);
+		const idProperty = metadata.properties.get("id")!;
+		return rows
+			.filter(row => !removedIds.has(idProperty.fromDB([row[idProperty.fields[0].name]]) as Entity["id"]))
+			.map(row => ORM.fromRow(metadata, row) as T);
+	}
+
+	/**
+	 * Queues the given entity to be inserted into the database on the next {@link ORM.flush}
+	 * and starts tracking its changes. If the entity has no id, it will be generated
+	 */
+	public static async insert(entity: Entity): Promise<void> {
+		const metadata = ORM.getMetadata(entity.constructor as Class);
+		if (entity.id === undefined) {
+			[entity.id] = await ORM.reserveIds(metadata, 1) as typeof entity.id[];
+		}
+		if (metadata.versionColumn && Reflect.get(entity, "version") === undefined) {
+			ORM.setUntracked(entity, "version", 1);
+		}
+		ORM.newEntities.add(entity);
+		ORM.trackedEntities.add(entity);
+		ORM.trackChangedBy(metadata, entity);
+		Cache.set(ORM.getCacheKey(metadata, entity.id), entity);
+		ORM.startEntityTasks(metadata, entity);
+		Service.trackChange();
+	}
+
+	/** Queues the given entity to be removed from the database on the next {@link ORM.flush} */
+	public static remove(entity: Entity): void {
+		if (!ORM.trackedEntities.delete(entity)) {
+			return;
+		}
+		ORM.changedProperties.delete(entity);
+		if (!ORM.newEntities.delete(entity)) {
+			ORM.removedEntities.add(entity);
+			ORM.trackChangedBy(ORM.getMetadata(entity.constructor as Class), entity);
+		}
+		ORM.forget(entity);
+		Synchronizer.unobserveEntity(entity);
+		Zone.remove(entity);
+		Service.trackChange();
+	}
+
+	/**
+	 * Reloads the given entity from the database, discarding its unsaved changes
+	 * (e.g. after {@link ConcurrencyConflictError}). The relations should then be loaded again, see {@link Entity.load}.
+	 * Returns `false` if the entity no longer exists in the database (then it is no longer tracked).
+	 * The entity is read from the primary, since the read replicas may not have the latest changes yet
+	 */
+	public static async reload(entity: Entity): Promise<boolean> {
+		const metadata = ORM.getMetadata(entity.constructor as Class);
+		const [row] = await ORM.getDB().select(
+			metadata.table,
+			ORM.excludeDeleted(metadata, ORM.toColumnConditions(metadata, {id: entity.id})),
+			{fields: metadata.fields.map(field => field.name), primary: true}
+		);
+		ORM.changedProperties.delete(entity);
+		ORM.loadedRelations.delete(entity);
+		for (const relation of metadata.relations.values()) {
+			Reflect.deleteProperty(entity, relation.name);
+		}
+		if (!row) {
+			ORM.trackedEntities.delete(entity);
+			ORM.forget(entity);
+			Synchronizer.unobserveEntity(entity);
+			Zone.remove(entity);
+			return false;
+		}
+		ORM.applyRow(metadata, entity, row);
+		for (const propertyName of metadata.properties.keys()) {
+			Synchronizer.trackChange(entity, propertyName);
+		}
+		return true;
+	}
+
+	/**
+	 * Restores the soft-deleted entity with the given id (see {@link EntityOptions.softDelete}).
+	 * If the entity has history, the restoration is recorded as an update of `deleted_at`.
+	 * Returns `false` if there is no such soft-deleted entity
+	 */
+	public static async restore<T extends Entity>(EntityClass: Constructor<T>, id: T["id"]): Promise<boolean> {
+		const metadata = ORM.getMetadata(EntityClass);
+		assert(metadata.softDelete, `The entity ${EntityClass.name} doesn't support soft delete.`);
+		const conditions = ORM.toColumnConditions(metadata, {id, [ORM.DELETED_AT]: isNotNull()});
+		if (!metadata.history) {
+			return await ORM.getDB().update(metadata.table, {[ORM.DELETED_AT]: null}, conditions) > 0;
+		}
+		return await ORM.getDB().runTransaction(async db => {
+			const [oldRow] = await db.select(metadata.table, conditions, {fields: [ORM.DELETED_AT], forUpdate: true});
+			if (!oldRow) {
+				return false;
+			}
+			await db.update(metadata.table, {[ORM.DELETED_AT]: null}, conditions);
+			const service = Service.getCurrent();
+			await ORM.insertHistoryRows(db, metadata, [ORM.toHistoryRow(
+				metadata, id, HistoryOperation.Update, (service ? [service.constructor.name] : []),
+				oldRow, {[ORM.DELETED_AT]: null}
+			)]);
+			return true;
+		});
+	}
+
+	/**
+	 * Remembers that the given property of the given entity was changed, so that it will be updated
+	 * in the database on the next {@link ORM.flush}. It also tracks the change for rate limiting
+	 * (see {@link Service.trackChange}) and for the clients (see {@link Synchronizer.trackChange}).
+	 * It is called automatically whenever a property of an entity is set,
+	 * but only the entities that were loaded, created or inserted are updated in the database
+	 */
+	public static trackChange(entity: Entity, propertyName: string): void {
+		Synchronizer.trackChange(entity, propertyName);
+		const metadata = ORM.metadataByClass.get(entity.constructor as Class);
+		const relation = metadata?.relations.get(propertyName);
+		if (relation) {
+			ORM.markRelationAsLoaded(entity, propertyName);
+		}
+		if (
+			!ORM.trackedEntities.has(entity) ||
+			!metadata?.properties.has(propertyName) && relation?.type != RelationType.ManyToMany
+		) {
+			return;
+		}
+		Service.trackChange();
+		if (!ORM.newEntities.has(entity)) {
+			MapUtil.getSet(ORM.changedProperties, entity).add(propertyName);
+			ORM.trackChangedBy(metadata!, entity);
+		}
+	}
+
+	/**
+	 * Flushes all queued changes to the database in a single transaction:
+	 * one multi-row `INSERT`, `UPDATE` and `DELETE` per table at most (the new entities are inserted
+	 * without their undefined properties, so that the columns get the default values, and are grouped by them).
+	 * If another flush is in progress, it waits for it first (e.g. the final flush waits for the periodic one).
+	 * Many-to-many relations are saved by replacing all rows of the changed entities in the join tables.
+	 * If the transaction fails, the changes are queued again.
+	 * If some versioned entities were changed concurrently (see {@link EntityOptions.versioned}),
+	 * their updates are skipped, so that other changes are still saved. Then these entities are reloaded
+	 * (their changes are discarded) and {@link ConcurrencyConflictError} is thrown.
+	 * The soft-deleted entities are only marked as deleted (see {@link EntityOptions.softDelete}),
+	 * and the inserts, updates and deletes of the entities with history are also written to the history tables
+	 */
+	public static async flush(): Promise<void> {
+		const flush = ORM.lastFlush.catch(() => undefined).then(ORM.flushChanges);
+		ORM.lastFlush = flush;
+		await flush;
+	}
+
+	/** Returns a row with the values of the given properties (or all properties) of the given entity */
+	public static toRow(metadata: EntityMetadata, entity: Entity, propertyNames?: Iterable<string>): Row {
+		const row: Row = {};
+		for (const propertyName of propertyNames ?? metadata.properties.keys()) {
+			const property = metadata.properties.get(propertyName);
+			assert(property, `The property ${metadata.EntityClass.name}.${propertyName} is not stored in the database.`);
+			const values = property.toDB(entity[propertyName as keyof typeof entity]);
+			property.fields.forEach((field, i) => row[field.name] = values[i]);
+		}
+		return row;
+	}
+
+	/**
+	 * Creates an entity using the values from the given row. The foreign keys are remembered.
+	 * If the entity with the same id is already cached, it is returned instead (without changes, since
+	 * the entity in memory can contain the changes that were not flushed yet)
+	 */
+	public static fromRow(metadata: EntityMetadata, row: Row): Entity {
+		const idProperty = metadata.properties.get("id")!;
+		const cacheKey = ORM.getCacheKey(metadata, idProperty.fromDB([row[idProperty.fields[0].name]]) as DBValue);
+		const cached = Cache.get<Entity>(cacheKey);
+		if (cached) {
+			return cached;
+		}
+
+		const entity = new (metadata.EntityClass as unknown as Constructor<Entity>)();
+		ORM.applyRow(metadata, entity, row);
+		ORM.trackedEntities.add(entity);
+		Cache.set(cacheKey, entity);
+		ORM.startEntityTasks(metadata, entity);
+		return entity;
+	}
+
+	/** Returns whether the given relation of the given entity was loaded or set */
+	public static isRelationLoaded(entity: Entity, propertyName: string): boolean {
+		return !!ORM.loadedRelations.get(entity)?.has(propertyName);
+	}
+
+	/**
+	 * Sets the value of the loaded relation without tracking it as a change.
+	 * The relation is then considered loaded, see {@link ORM.isRelationLoaded}
+	 */
+	public static setLoadedRelation(entity: Entity, propertyName: string, value: unknown): void {
+		ORM.setUntracked(entity, propertyName, value);
+		ORM.markRelationAsLoaded(entity, propertyName);
+	}
+
+	/**
+	 * Returns the foreign key of the given many-to-one relation of the given entity, i.e. the id of the related entity.
+	 * It works for both loaded and not loaded relations. Returns `null` if there is no related entity
+	 */
+	public static getForeignKey(entity: Entity, propertyName: string): DBValue {
+		if (ORM.isRelationLoaded(entity, propertyName)) {
+			return (Reflect.get(entity, propertyName) as Entity | undefined)?.id ?? null;
+		}
+		return ORM.foreignKeys.get(entity)?.get(propertyName) ?? null;
+	}
+
+	/**
+	 * Transforms the conditions that use the property names to the conditions that use the column names.
+	 * The column names can also be used directly (e.g. `position_x`)
+	 */
+	public static toColumnConditions(metadata: EntityMetadata, conditions?: Conditions): Conditions | undefined {
+		if (!conditions) {
+			return conditions;
+		} else if (conditions instanceof Array) {
+			return conditions.map(condition => ORM.toColumnCondition(metadata, condition));
+		}
+		return ORM.toColumnCondition(metadata, conditions);
+	}
+
+	/** Flushes the queued changes, see {@link ORM.flush} */
+	private static async flushChanges(): Promise<void> {
+		if (ORM.newEntities.size < 1 && ORM.changedProperties.size < 1 && ORM.removedEntities.size < 1) {
+			return;
+		}
+		const newEntities = new Set(ORM.newEntities);
+		const changedProperties = new Map(ORM.changedProperties);
+		const removedEntities = new Set(ORM.removedEntities);
+		ORM.newEntities.clear();
+		ORM.changedProperties.clear();
+		ORM.removedEntities.clear();
+
+		// The rows are grouped by their columns, since all rows in a multi-row insert should have the same columns
+		const inserts = new Map<EntityMetadata, Map<string, Row[]>>;
+		const insertHistoryRows = new Map<EntityMetadata, Row[]>;
+		const joinTableChanges = new Map<string, JoinTableChanges>;
+		for (const entity of newEntities) {
+			const metadata = ORM.getMetadata(entity.constructor as Class);
+			// The undefined properties are omitted, so that their columns get the default values
+			const propertyNames = Array.from(metadata.properties.keys())
+				.filter(propertyName => entity[propertyName as keyof typeof entity] !== undefined);
+			const row = ORM.toRow(metadata, entity, propertyNames);
+			MapUtil.getArray(MapUtil.getMap(inserts, metadata), Object.keys(row).join()).push(row);
+			if (metadata.history) {
+				MapUtil.getArray(insertHistoryRows, metadata).push(ORM.toHistoryRow(
+					metadata, entity.id, HistoryOperation.Insert, ORM.changedBy.get(entity) ?? [], null, row
+				));
+			}
+			for (const relation of metadata.relations.values()) {
+				if (relation.type == RelationType.ManyToMany) {
+					ORM.addJoinTableChanges(joinTableChanges, relation, entity, false);
+				}
+			}
+		}
+
+		const changedByMetadata = new Map<EntityMetadata, Map<Entity, Set<string>>>;
+		for (const [entity, propertyNames] of changedProperties) {
+			const metadata = ORM.getMetadata(entity.constructor as Class);
+			const columnPropertyNames = new Set<string>;
+			for (const propertyName of propertyNames) {
+				if (metadata.properties.has(propertyName)) {
+					columnPropertyNames.add(propertyName);
+				} else {
+					ORM.addJoinTableChanges(joinTableChanges, metadata.relations.get(propertyName)!, entity, true);
+				}
+			}
+			if (columnPropertyNames.size > 0) {
+				MapUtil.getMap(changedByMetadata, metadata).set(entity, columnPropertyNames);
+			}
+		}
+		const updates = new Map<EntityMetadata, Map<Entity, Row>>;
+		for (const [metadata, changes] of changedByMetadata) {
+			// All rows in a multi-row update should have the same columns
+			const propertyNames = new Set<string>(metadata.versionColumn ? ["id", "version"] : ["id"]);
+			changes.forEach(names => SetUtil.merge(propertyNames, names));
+			const rows = MapUtil.getMap(updates, metadata);
+			for (const entity of changes.keys()) {
+				rows.set(entity, ORM.toRow(metadata, entity, propertyNames));
+			}
+		}
+
+		const deletes = new Map<EntityMetadata, Entity[]>;
+		for (const entity of removedEntities) {
+			const metadata = ORM.getMetadata(entity.constructor as Class);
+			MapUtil.getArray(deletes, metadata).push(entity);
+			for (const relation of metadata.relations.values()) {
+				// The rows in join tables are kept for soft-deleted entities, so that they can be restored
+				if (relation.type == RelationType.ManyToMany && !metadata.softDelete) {
+					const changes = MapUtil.get(joinTableChanges, relation.joinTable!, {deletes: new Map, rows: new Map});
+					MapUtil.getArray(changes.deletes, relation.sourceColumn!).push(entity.id);
+				}
+			}
+		}
+
+		// The stale entities are skipped, so that the conflicts don't prevent saving other changes
+		let staleEntities: Entity[] = [];
+		try {
+			await ORM.getDB().runTransaction(async db => {
+				staleEntities = [];
+				for (const [metadata, rowsByColumns] of inserts) {
+					for (const rows of rowsByColumns.values()) {
+						await db.insert(metadata.table, rows);
+					}
+					await ORM.insertHistoryRows(db, metadata, insertHistoryRows.get(metadata) ?? []);
+				}
+				for (const [metadata, rows] of updates) {
+					const idColumn = metadata.properties.get("id")!.fields[0].name;
+					const historyRows = (metadata.history ? await ORM.getHistoryRows(db, metadata, rows) : []);
+					const staleIds = new Set<DBValue>;
+					if (!metadata.versionColumn) {
+						await db.updateMany(metadata.table, Array.from(rows.values()), idColumn);
+					} else {
+						// The version should be checked for each row, so the versioned entities are updated one by one
+						for (const [entity, {[idColumn]: id, ...data}] of rows) {
+							try {
+								await db.update(
+									metadata.table, data, {[idColumn]: id}, {versionColumn: metadata.versionColumn}
+								);
+							} catch (e) {
+								if (!(e instanceof ConcurrencyConflictError)) {
+									throw e;
+								}
+								staleEntities.push(entity);
+								staleIds.add(id);
+							}
+						}
+					}
+					await ORM.insertHistoryRows(db, metadata, historyRows.filter(row => !staleIds.has(row["entity_id"])));
+				}
+				for (const [joinTable, {deletes, rows}] of joinTableChanges) {
+					if (deletes.size > 0) {
+						await db.delete(joinTable, Array.from(deletes).map(([column, ids]) => ({[column]: ids})));
+					}
+					if (rows.size > 0) {
+						await db.insert(joinTable, Array.from(rows.values()));
+					}
+				}
+				for (const [metadata, entities] of deletes) {
+					const conditions = ORM.toColumnConditions(metadata, {id: entities.map(entity => entity.id)});
+					if (metadata.history) {
+						await ORM.insertHistoryRows(db, metadata, await ORM.getDeleteHistoryRows(db, metadata, entities));
+					}
+					if (metadata.softDelete) {
+						await db.update(metadata.table, {[ORM.DELETED_AT]: new Date}, conditions);
+					} else {
+						await db.delete(metadata.table, conditions);
+					}
+				}
+				if (ORM.invalidation) {
+					await ORM.notifyChanges(db, ORM.invalidation.options.channel, [
+						...Array.from(changedProperties.keys()).filter(entity => !staleEntities.includes(entity)),
+						...removedEntities,
+					]);
+				}
+			});
+		} catch (e) {
+			ORM.requeue(newEntities, changedProperties, removedEntities);
+			throw e;
+		}
+
+		for (const [metadata, rows] of updates) {
+			for (const entity of rows.keys()) {
+				if (metadata.versionColumn && !staleEntities.includes(entity)) {
+					ORM.setUntracked(entity, "version", (Reflect.get(entity, "version") as number) + 1);
+				}
+			}
+		}
+		for (const entity of [...newEntities, ...changedProperties.keys(), ...removedEntities]) {
+			ORM.changedBy.delete(entity);
+		}
+		if (staleEntities.length > 0) {
+			// The stale changes can't be saved anymore, so the stale entities are reloaded instead
+			await Promise.all(staleEntities.map(entity => ORM.reload(entity)));
+			throw new ConcurrencyConflictError(
+				`${staleEntities.length} entities were changed concurrently, they were reloaded.`, staleEntities
+			);
+		}
+	}
+
+	/** Adds the condition that excludes the soft-deleted rows (if the entity supports soft delete) */
+	private static excludeDeleted(metadata: EntityMetadata, conditions?: Conditions): Conditions | undefined {
+		if (!metadata.softDelete) {
+			return conditions;
+		}
+		return {[ORM.DELETED_AT]: null, [or]: (conditions instanceof Array ? conditions : (conditions ? [conditions] : []))};
+	}
+
+	/** Returns the name of the history table, see {@link EntityOptions.history} */
+	private static getHistoryTable(metadata: EntityMetadata): string {
+		return `${metadata.table}_history`;
+	}
+
+	/**
+	 * Returns the history rows for the given updated rows (see {@link EntityOptions.history}).
+	 * The old values are selected (and locked until the end of the transaction) before the update.
+	 * Only the changed columns are recorded
+	 */
+	private static async getHistoryRows(db: Database, metadata: EntityMetadata, rows: Map<Entity, Row>): Promise<Row[]> {
+		const idColumn = metadata.properties.get("id")!.fields[0].name;
+		const newRows = Array.from(rows.values());
+		const columns = Object.keys(newRows[0]).filter(column => column != idColumn && column != metadata.versionColumn);
+		const oldRows = await db.select(
+			metadata.table, {[idColumn]: newRows.map(row => row[idColumn])}, {fields: [idColumn, ...columns], forUpdate: true}
+		);
+		const oldRowsById = new Map(oldRows.map(row => [row[idColumn], row]));
+		const result: Row[] = [];
+		for (const [entity, newRow] of rows) {
+			const oldRow = oldRowsById.get(newRow[idColumn]) ?? {};
+			const changedColumns = columns.filter(column => !_.isEqual(oldRow[column], newRow[column]));
+			if (changedColumns.length > 0) {
+				result.push(ORM.toHistoryRow(
+					metadata, entity.id, HistoryOperation.Update, ORM.changedBy.get(entity) ?? [],
+					_.pick(oldRow, changedColumns), _.pick(newRow, changedColumns)
+				));
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Returns the history rows for the given removed entities (see {@link EntityOptions.history}).
+	 * The old values are selected (and locked until the end of the transaction) before the delete
+	 */
+	private static async getDeleteHistoryRows(db: Database, metadata: EntityMetadata, entities: Entity[]): Promise<Row[]> {
+		const idColumn = metadata.properties.get("id")!.fields[0].name;
+		const conditions = ORM.toColumnConditions(metadata, {id: entities.map(entity => entity.id)});
+		const oldRows = await db.select(metadata.table, conditions, {forUpdate: true});
+		const oldRowsById = new Map(oldRows.map(row => [row[idColumn], row]));
+		return entities.filter(entity => oldRowsById.has(entity.id)).map(entity => ORM.toHistoryRow(
+			metadata, entity.id, HistoryOperation.Delete, ORM.changedBy.get(entity) ?? [],
+			oldRowsById.get(entity.id)!, null
+		));
+	}
+
+	/**
+	 * Returns the history row of the given change (see {@link EntityOptions.history}), without the time of the change.
+	 * The id and the version are not recorded in the values
+	 */
+	private static toHistoryRow(
+		metadata: EntityMetadata, entityId: DBValue, operation: HistoryOperation, services: Iterable<string>,
+		oldValues: Row | null, newValues: Row | null
+	): Row {
+		const idColumn = metadata.properties.get("id")!.fields[0].name;
+		const omitted = (metadata.versionColumn ? [idColumn, metadata.versionColumn] : [idColumn]);
+		return {
+			"entity_id": entityId,
+			operation,
+			service: Array.from(services).join(", ") || null,
+			"old_values": (oldValues ? ORM.toJson(_.omit(oldValues, omitted)) : null),
+			"new_values": (newValues ? ORM.toJson(_.omit(newValues, omitted)) : null),
+		};
+	}
+
+	/** Inserts the given history rows (see {@link ORM.toHistoryRow}) with the current time as the time of the change */
+	private static async insertHistoryRows(db: Database, metadata: EntityMetadata, rows: Row[]): Promise<void> {
+		if (rows.length > 0) {
+			const changedAt = new Date;
+			await db.insert(ORM.getHistoryTable(metadata), rows.map(row => ({...row, "changed_at": changedAt})));
+		}
+	}
+
+	/** Remembers the current service as the one that changed the given entity, if the entity has history */
+	private static trackChangedBy(metadata: EntityMetadata, entity: Entity): void {
+		const service = Service.getCurrent();
+		if (metadata.history && service) {
+			ORM.changedBy.set(entity, (ORM.changedBy.get(entity) ?? new Set).add(service.constructor.name));
+		}
+	}
+
+	/**
+	 * Converts the given values to a JSON object for a `jsonb` column (see {@link JsonObject}).
+	 * Bigints are converted to strings, dates to ISO strings
+	 */
+	private static toJson(values: Row): JsonObject {
+		return JSON.parse(
+			JSON.stringify(values, (_key, item: unknown) => (typeof item == "bigint" ? item.toString() : item))
+		) as JsonObject;
+	}
+
+	/** Sets the values from the given row to the given entity (without tracking them as changes) and its foreign keys */
+	private static applyRow(metadata: EntityMetadata, entity: Entity, row: Row): void {
+		const foreignKeys = new Map<string, DBValue>;
+		for (const property of metadata.properties.values()) {
+			const values = property.fields.map(field => row[field.name]);
+			if (metadata.relations.has(property.name)) {
+				foreignKeys.set(property.name, values[0]);
+				continue;
+			}
+			const value = property.fromDB(values);
+			if (value !== undefined) {
+				ORM.setUntracked(entity, property.name, value);
+			}
+		}
+		if (foreignKeys.size > 0) {
+			ORM.foreignKeys.set(entity, foreignKeys);
+		} else {
+			ORM.foreignKeys.delete(entity);
+		}
+	}
+
+	/** Sets the value of the given property without tracking it as a change */
+	private static setUntracked(entity: Entity, propertyName: string, value: unknown): void {
+		Object.defineProperty(entity, propertyName, {value, writable: true, enumerable: true, configurable: true});
+	}
+
+	/** Removes the given entity from the cache and stops its entity tasks */
+	private static forget(entity: Entity): void {
+		Cache.delete(ORM.getCacheKey(ORM.getMetadata(entity.constructor as Class), entity.id));
+		for (const task of ORM.entityTasks.get(entity) ?? []) {
+			if (task.remainingExecutions > 0) {
+				task.stop();
+			}
+		}
+		ORM.entityTasks.delete(entity);
+	}
+
+	/** Starts the entity tasks for the given entity (that was loaded or created), see {@link EntityTask} */
+	private static startEntityTasks(metadata: EntityMetadata, entity: Entity): void {
+		if (metadata.tasks.length < 1) {
+			return;
+		}
+		const tasks = metadata.tasks.map(TaskClass => {
+			const params = {name: TaskClass.name, ...TaskClass.params};
+			const task = new (TaskClass as unknown as new (entity: Entity, params: TaskParameters) => Task)(entity, params);
+			task.start();
+			return task;
+		});
+		ORM.entityTasks.set(entity, tasks);
+	}
+
+	/**
+	 * Notifies other processes about the given changed or removed entities, see {@link ORM.enableInvalidation}.
+	 * It is called in the flush transaction, so the notifications are only sent if it is committed
+	 */
+	private static async notifyChanges(db: Database, channel: string, entities: Entity[]): Promise<void> {
+		const idsByTable = new Map<string, string[]>;
+		for (const entity of entities) {
+			MapUtil.getArray(idsByTable, ORM.getMetadata(entity.constructor as Class).table).push(String(entity.id));
+		}
+		for (const [table, ids] of idsByTable) {
+			for (const chunk of _.chunk(ids, ORM.INVALIDATION_CHUNK_SIZE)) {
+				const message: InvalidationMessage = {sender: ORM.instanceId, table, ids: chunk};
+				await db.notify(channel, JSON.stringify(message));
+			}
+		}
+	}
+
+	/** Reloads or evicts the cached entities from the invalidation message of another process */
+	private static async invalidate(payload: string): Promise<void> {
+		const {sender, table, ids} = JSON.parse(payload) as InvalidationMessage;
+		const metadata = ORM.getAllMetadata().find(metadata => metadata.table == table);
+		if (!ORM.invalidation || sender == ORM.instanceId || !metadata) {
+			return;
+		}
+		const entities: Entity[] = [];
+		for (const id of ids) {
+			const cacheKey = ORM.getCacheKey(metadata, id);
+			const entity = Cache.peek<Entity>(cacheKey);
+			if (!entity) {
+				continue;
+			} else if (!ORM.invalidation.options.reload) {
+				Cache.delete(cacheKey);
+			} else if (
+				!ORM.newEntities.has(entity) && !ORM.changedProperties.has(entity) && !ORM.removedEntities.has(entity)
+			) {
+				entities.push(entity);
+			}
+		}
+		await Promise.all(entities.map(entity => ORM.reload(entity)));
+	}
+
+	/** Returns the key that is used to cache the entity with the given id, see {@link Cache} */
+	private static getCacheKey(metadata: EntityMetadata, id: DBValue): string {
+		return `${metadata.table}/${id}`;
+	}
+
+	/** Remembers that the given relation of the given entity was loaded or set */
+	private static markRelationAsLoaded(entity: Entity, propertyName: string): void {
+		const loadedRelations = ORM.loadedRelations.get(entity);
+		if (loadedRelations) {
+			loadedRelations.add(propertyName);
+		} else {
+			ORM.loadedRelations.set(entity, new Set([propertyName]));
+		}
+	}
+
+	/**
+	 * Adds the rows of the join table for the given many-to-many relation of the given entity.
+	 * If `replace` is `true`, the existing rows of this entity will be deleted first
+	 */
+	private static addJoinTableChanges(
+		joinTableChanges: Map<string, JoinTableChanges>, relation: RelationMetadata, entity: Entity, replace: boolean
+	): void {
+		const {joinTable, sourceColumn, targetColumn} = relation as Required<RelationMetadata>;
+		const changes = MapUtil.get(joinTableChanges, joinTable, {deletes: new Map, rows: new Map});
+		if (replace) {
+			MapUtil.getArray(changes.deletes, sourceColumn).push(entity.id);
+		}
+		const relatedEntities = Reflect.get(entity, relation.name) as Entity[] | undefined;
+		for (const relatedEntity of relatedEntities ?? []) {
+			const row = {[sourceColumn]: entity.id, [targetColumn]: relatedEntity.id};
+			const key = [sourceColumn, targetColumn].sort().map(column => `${column}=${row[column]}`).join(",");
+			changes.rows.set(key, row);
+		}
+	}
+
+	/** Queues again the changes that failed to be flushed, unless they were superseded by the newer changes */
+	private static requeue(
+		newEntities: Set<Entity>, changedProperties: Map<Entity, Set<string>>, removedEntities: Set<Entity>
+	): void {
+		for (const entity of newEntities) {
+			if (ORM.trackedEntities.has(entity)) {
+				ORM.newEntities.add(entity);
+				ORM.changedProperties.delete(entity);
+			} else {
+				ORM.removedEntities.delete(entity);
+			}
+		}
+		for (const [entity, propertyNames] of changedProperties) {
+			if (ORM.trackedEntities.has(entity) && !ORM.newEntities.has(entity)) {
+				SetUtil.merge(MapUtil.getSet(ORM.changedProperties, entity), propertyNames);
+			}
+		}
+		SetUtil.merge(ORM.removedEntities, removedEntities);
+	}
+
+	/** Transforms a single condition, see {@link ORM.toColumnConditions} */
+	private static toColumnCondition(metadata: EntityMetadata, condition: Condition): Condition {
+		const result: Condition = {};
+		for (const [key, value] of Object.entries(condition)) {
+			const property = metadata.properties.get(key);
+			if (!property) {
+				assert(
+					metadata.fields.some(field => field.name == key),
+					`Unknown property or column ${key} in conditions for ${metadata.EntityClass.name}.`
+				);
+				result[key] = value;
+				continue;
+			}
+			assert(
+				property.fields.length == 1,
+				`The property ${key} is stored in multiple columns, use the column names in conditions.`
+			);
+			result[property.fields[0].name] = value;
+		}
+		if (condition[and]) {
+			result[and] = condition[and].map(subcondition => ORM.toColumnCondition(metadata, subcondition));
+		}
+		if (condition[or]) {
+			result[or] = condition[or].map(subcondition => ORM.toColumnCondition(metadata, subcondition));
+		}
+		if (condition[negation]) {
+			result[negation] = condition[negation].map(subcondition => ORM.toColumnCondition(metadata, subcondition));
+		}
+		return result;
+	}
+
+	/** Reserves the given number of ids using the sequence of the primary key (so that they are unique) */
+	private static async reserveIds(metadata: EntityMetadata, count: number): Promise<unknown[]> {
+		const idProperty = metadata.properties.get("id");
+		assert(idProperty);
+		const ids = await ORM.getDB().reserveIds(metadata.table, idProperty.fields[0].name, count);
+		return ids.map(id => idProperty.fromDB([id]));
+	}
+
+	/** Transforms a class info from {@link TypeAnalyzer} to the entity info. Returns `null` in case of failure */
+	private static transform(EntityClass: typeof Entity, classInfo: ClassInfo): EntityMetadata | null {
+		if (!classInfo.exported) {
+			ORM.logger.warn(`The entity ${classInfo.name} is not exported, so it was skipped.`);
+			return null;
+		}
+
+		// Parent properties first, so that the columns of the base classes (such as id) are at the beginning
+		const classInfos: ClassInfo[] = [];
+		for (let current: ClassInfo | undefined = classInfo; current; current = current.getParent()) {
+			classInfos.unshift(current);
+		}
+		const propertyInfos = new Map<string, PropertyInfo>;
+		for (const current of classInfos) {
+			for (const property of current.properties) {
+				if (!property.static) {
+					propertyInfos.set(property.name, property);
+				}
+			}
+		}
+
+		const table = EntityClass.options.table ?? _.snakeCase(classInfo.name);
+		const metadata: EntityMetadata = {
+			EntityClass, table, properties: new Map, relations: new Map, fields: [], indexes: [], tasks: [],
+			softDelete: false, history: false,
+		};
+		for (const propertyInfo of propertyInfos.values()) {
+			const property = ORM.getPropertyMetadata(`${classInfo.name}.${propertyInfo.name}`, propertyInfo, metadata);
+			if (property) {
+				metadata.properties.set(property.name, property);
+				metadata.fields.push(...property.fields);
+			}
+		}
+
+		const id = metadata.properties.get("id");
+		if (!id || id.fields.length != 1) {
+			ORM.logger.error(`The entity ${classInfo.name} has no valid id, so it was skipped.`);
+			return null;
+		}
+		metadata.indexes.push({field: id.fields[0].name, type: IndexType.Primary});
+		if (EntityClass.options.versioned) {
+			const version = metadata.properties.get("version");
+			if (!version || version.fields.length != 1 || version.fields[0].type != FieldType.Int) {
+				ORM.logger.error(`The versioned entity ${classInfo.name} has no valid version (Int32), so it was skipped.`);
+				return null;
+			}
+			metadata.versionColumn = version.fields[0].name;
+		}
+		if (EntityClass.options.softDelete) {
+			metadata.softDelete = true;
+			metadata.fields.push({name: ORM.DELETED_AT, type: FieldType.TimestampTz, nullable: true});
+		}
+		metadata.history = !!EntityClass.options.history;
+		for (const relation of metadata.relations.values()) {
+			if (relation.type == RelationType.ManyToOne) {
+				metadata.indexes.push({field: metadata.properties.get(relation.name)!.fields[0].name});
+			}
+		}
+		return metadata;
+	}
+
+	/**
+	 * Finds the entity for each entity task using the type argument in `extends` (e.g. `Item` in `EntityTask<Item>`).
+	 * The task will be used for this entity and all entities derived from it
+	 */
+	private static registerEntityTasks(entities: ClassWithInfo[], entityTasks: ClassWithInfo[]): void {
+		for (const [TaskClass, taskInfo] of entityTasks) {
+			const entityName = ORM.getEntityNameOfTask(taskInfo);
+			const entityInfo = (entityName ? TypeAnalyzer.getByFullName(entityName) : undefined);
+			if (!(entityInfo instanceof ClassInfo) || !entityInfo.isDerivedOf(ORM.entityInfo!)) {
+				ORM.logger.error(`The entity task ${taskInfo.name} has no entity as type argument, so it was skipped.`);
+				continue;
+			}
+			for (const [EntityClass, classInfo] of entities) {
+				const metadata = ORM.metadataByClass.get(EntityClass);
+				if (metadata && (classInfo == entityInfo || classInfo.isDerivedOf(entityInfo))) {
+					metadata.tasks.push(TaskClass as typeof EntityTask);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Returns the full name of the first class type argument in the `extends` clauses of the given task
+	 * or its parents, e.g. `Item` for `class ItemTask extends EntityTask<Item>`
+	 */
+	private static getEntityNameOfTask(taskInfo: ClassInfo): string | undefined {
+		for (let current: ClassInfo | undefined = taskInfo; current; current = current.getParent()) {
+			const typeArgument = current.extendsTypeArguments[0];
+			if (typeArgument?.kind == Kind.Class) {
+				return typeArgument.fullName;
+			}
+		}
+	}
+
+	/**
+	 * Finds the related entities for all relations. For the relations with arrays, it decides whether it is
+	 * a one-to-many relation (if the related entity has a many-to-one relation that refers back)
+	 * or a many-to-many relation (otherwise). The relations that can't be resolved are skipped
+	 */
+	private static resolveRelations(metadataByName: Map<string, EntityMetadata>): void {
+		for (const metadata of ORM.metadataByClass.values()) {
+			for (const relation of metadata.relations.values()) {
+				relation.target = metadataByName.get(relation.targetName);
+				if (!relation.target) {
+					ORM.logger.error(
+						`${metadata.EntityClass.name}.${relation.name}: the related entity ${relation.targetName} ` +
+						"was not found, so the relation was skipped."
+					);
+					metadata.relations.delete(relation.name);
+				}
+			}
+		}
+
+		for (const metadata of ORM.metadataByClass.values()) {
+			for (const relation of metadata.relations.values()) {
+				if (relation.type != RelationType.ManyToOne && !ORM.resolveArrayRelation(metadata, relation)) {
+					metadata.relations.delete(relation.name);
+				}
+			}
+		}
+	}
+
+	/** Resolves a relation with an array, see {@link ORM.resolveRelations}. Returns `false` in case of failure */
+	private static resolveArrayRelation(metadata: EntityMetadata, relation: RelationMetadata): boolean {
+		const fullName = `${metadata.EntityClass.name}.${relation.name}`;
+		const target = relation.target!;
+		const options = metadata.EntityClass.options.relations?.[relation.name];
+		const candidates = (options?.inverse ?
+			[target.relations.get(options.inverse)] :
+			Array.from(target.relations.values()).filter(candidate => candidate.target == metadata && candidate != relation)
+		);
+		if (candidates.length > 1) {
+			ORM.logger.error(`${fullName}: the inverse relation is ambiguous, you should specify it in the options.`);
+			return false;
+		}
+		const inverse = candidates[0];
+		if (options?.inverse && !inverse) {
+			ORM.logger.error(`${fullName}: the inverse relation ${options.inverse} was not found.`);
+			return false;
+		} else if (inverse?.type == RelationType.ManyToOne) {
+			relation.type = RelationType.OneToMany;
+			relation.inverse = inverse.name;
+			return true;
+		} else if (target == metadata && inverse) {
+			ORM.logger.error(`${fullName}: bidirectional many-to-many relations of an entity with itself are not supported.`);
+			return false;
+		}
+
+		relation.type = RelationType.ManyToMany;
+		relation.inverse = inverse?.name;
+		const inverseOptions = (inverse ? target.EntityClass.options.relations?.[inverse.name] : undefined);
+		const defaultJoinTable = (target == metadata ?
+			`${metadata.table}_${_.snakeCase(relation.name)}` :
+			[metadata.table, target.table].sort().join("_")
+		);
+		relation.joinTable = options?.joinTable ?? inverseOptions?.joinTable ?? defaultJoinTable;
+		relation.sourceColumn = `${metadata.table}_id`;
+		relation.targetColumn = (target == metadata ? `${_.snakeCase(relation.name)}_id` : `${target.table}_id`);
+		return true;
+	}
+
+	/**
+	 * Transforms a property info from {@link TypeAnalyzer} to the info how it is stored in the database.
+	 * Returns `null` if the property should not be stored or in case of failure
+	 */
+	private static getPropertyMetadata(
+		fullName: string, propertyInfo: PropertyInfo, metadata: EntityMetadata
+	): PropertyMetadata | null {
+		assert(ORM.entityInfo);
+		let type = propertyInfo.type;
+		let nullable = propertyInfo.optional;
+		let nullValue: null | undefined = undefined;
+		if (type.kind == Kind.Union) {
+			const subtypes = type.subtypes.filter(subtype => subtype.kind != Kind.Null && subtype.kind != Kind.Undefined);
+			nullable ||= (subtypes.length < type.subtypes.length);
+			nullValue = (type.subtypes.some(subtype => subtype.kind == Kind.Null) ? null : undefined);
+			type = (subtypes.length == 1 ? subtypes[0] : type);
+		}
+		if (ORM.entityInfo.getFromFile("InMemory").equals(type) || type.kind == Kind.Function) {
+			return null;
+		}
+
+		const name = propertyInfo.name;
+		const column = _.snakeCase(name);
+		const fromDBValue = (value: DBValue, convert: (value: DBValue) => unknown): unknown => (
+			value === null ? nullValue : convert(value)
+		);
+
+		const relation = ORM.getRelationMetadata(name, type);
+		if (relation) {
+			metadata.relations.set(name, relation);
+			if (relation.type != RelationType.ManyToOne) {
+				return null;
+			}
+			return {
+				name, fields: [{name: `${column}_id`, type: FieldType.Int, nullable}],
+				toDB: value => [value ? (value as Entity).id : null],
+				// The related entity is loaded separately, see RelationLoader
+				fromDB: () => undefined,
+			};
+		}
+
+		const vector = ORM.vectors.find(([, vectorInfo]) => vectorInfo.equals(type));
+		if (vector) {
+			const VectorClass = vector[0] as VectorClass;
+			const components = (VectorClass == Vector2f || VectorClass == Vector2i ? ["x", "y"] : ["x", "y", "z"]);
+			const fieldType = (VectorClass == Vector2f || VectorClass == Vector3f ? FieldType.Float : FieldType.Int);
+			const fields = components.map(component => ({name: `${column}_${component}`, type: fieldType, nullable}));
+			return {
+				name, fields,
+				toDB: value => components.map(component => (
+					value ? (value as {[component: string]: number})[component] : null
+				)),
+				fromDB: values => (
+					values.some(value => value === null) ?
+						nullValue :
+						new (VectorClass as new (...components: number[]) => unknown)(...values.map(Number))
+				),
+			};
+		}
+
+		const isArray = (type.kind == Kind.Array);
+		const elementType = (isArray ? type.subtypes[0] : type);
+		const fieldType = ORM.getFieldType(fullName, elementType);
+		if (!fieldType) {
+			return null;
+		}
+		const isNumber = [FieldType.SmallInt, FieldType.Int, FieldType.Float, FieldType.Double].includes(fieldType) ||
+			ORM.typings!.getFromFile("UInt32").equals(elementType);
+		const convert = (value: DBValue): unknown => (isNumber ? Number(value) : value);
+		const field: FieldDefinition = {name: column, type: fieldType, nullable};
+		if (isArray) {
+			field.array = true;
+		}
+		if (fieldType == FieldType.Enum) {
+			field.enum = ORM.getEnumDefinition(elementType);
+		}
+		if (name == "id") {
+			assert(fieldType == FieldType.Int && !isArray, `${fullName} should be Int32.`);
+			field.type = FieldType.Serial;
+		}
+		return {
+			name, fields: [field],
+			toDB: value => [value === undefined ? null : value as DBValue],
+			fromDB: ([value]) => fromDBValue(value, value => (
+				isArray ? (value as DBValue[]).map(convert) : convert(value)
+			)),
+		};
+	}
+
+	/**
+	 * Returns the relation info if the given type is an entity (many-to-one relation) or an array of entities
+	 * (one-to-many or many-to-many relation, see {@link ORM.resolveRelations}). Otherwise, returns `null`
+	 */
+	private static getRelationMetadata(name: string, type: PropertyType): RelationMetadata | null {
+		assert(ORM.entityInfo);
+		const isArray = (type.kind == Kind.Array);
+		const targetType = (isArray ? type.subtypes[0] : type);
+		if (targetType?.kind != Kind.Class) {
+			return null;
+		}
+		const targetInfo = TypeAnalyzer.getByFullName(targetType.fullName);
+		if (!(targetInfo instanceof ClassInfo) || !targetInfo.isDerivedOf(ORM.entityInfo)) {
+			return null;
+		}
+		const relationType = (isArray ? RelationType.ManyToMany : RelationType.ManyToOne);
+		return {name, type: relationType, targetName: targetInfo.fullName};
+	}
+
+	/** Returns the field type for the given property type. Returns `null` in case of failure */
+	private static getFieldType(fullName: string, type: PropertyType): FieldType | null {
+		const typings = ORM.typings;
+		assert(typings);
+		if (typings.getFromFile("Int16").equals(type)) {
+			return FieldType.SmallInt;
+		} else if (typings.getFromFile("Int32").equals(type)) {
+			return FieldType.Int;
+		} else if (typings.getFromFile("UInt32").equals(type) || typings.getFromFile("Int64").equals(type)) {
+			return FieldType.BigInt;
+		} else if (typings.getFromFile("Float").equals(type)) {
+			return FieldType.Float;
+		} else if (typings.getFromFile("Double").equals(type)) {
+			return FieldType.Double;
+		} else if (typings.getFromFile("UInt64").equals(type)) {
+			ORM.logger.error(`${fullName}: UInt64 can't be stored in the database, you should use Int64 instead.`);
+			return null;
+		} else if ([Kind.Number, Kind.BigInt].includes(type.kind)) {
+			const kind = type.kind.toLowerCase();
+			ORM.logger.error(
+				`${fullName}: you should use typings from typings.ts (such as Float or Int32) instead of imprecise "${kind}".`
+			);
+			return null;
+		} else if (type.kind == Kind.Boolean) {
+			return FieldType.Bool;
+		} else if (type.kind == Kind.String) {
+			return FieldType.Text;
+		} else if (type.kind == Kind.BuiltInClass && type.name == "Date") {
+			return FieldType.TimestampTz;
+		} else if (type.kind == Kind.BuiltInClass && type.name == "Buffer") {
+			return FieldType.Bytes;
+		} else if (type.kind == Kind.Enum) {
+			const enumInfo = TypeAnalyzer.getByFullName(type.fullName);
+			if (enumInfo.properties.every(property => property.type.kind == Kind.Number)) {
+				return FieldType.Int;
+			} else if (enumInfo.properties.every(property => property.type.kind == Kind.String)) {
+				return FieldType.Enum;
+			}
+			ORM.logger.error(`${fullName}: only enums with either numeric or string values are allowed.`);
+			return null;
+		}
+		ORM.logger.error(`${fullName}: unknown field type "${type.kind}".`);
+		return null;
+	}
+
+	/** Returns the native enum type for the given string enum, its name is the enum name in snake case */
+	private static getEnumDefinition(type: PropertyType): EnumDefinition {
+		const enumInfo = TypeAnalyzer.getByFullName(type.fullName);
+		return {
+			name: _.snakeCase(enumInfo.name),
+			values: enumInfo.properties.map(property => JSON.parse(property.type.name) as string),
+		};
+	}
+}
\ No newline at end of file
@@ -0,0 +1,132 @@
+import {PropertiesOf} from "../core/typings.js";
+import EntityTask from "../game-loop/entity-task.js";
+import {DBValue, FieldDefinition, IndexDefinition} from "./db.typings.js";
+import Entity from "./entity.js";
+
+/** Entity options to customize how it is stored in the database */
+export interface EntityOptions {
+	/** The table name. By default, it is the class name in snake case (e.g. `guild_member` for `GuildMember`) */
+	table?: string;
+	/** The options for the relation properties (see {@link Entity} for details about relations) */
+	relations?: {[propertyName: string]: RelationOptions};
+	/**
+	 * Enables optimistic locking. The entity should then have the property `version` (e.g. `Int32`).
+	 * Each update checks that the version in the database is the same as in the entity and increments it.
+	 * If the entity was changed concurrently, {@link ORM.flush} throws {@link ConcurrencyConflictError}
+	 */
+	versioned?: boolean;
+	/**
+	 * Enables soft delete. The removed entities are not deleted from the database, instead the deletion time
+	 * is stored in the column `deleted_at`. Such entities are not loaded anymore, but can be restored with
+	 * {@link ORM.restore}
+	 */
+	softDelete?: boolean;
+	/**
+	 * Enables history tracking. Each insert, update and delete of the entity is recorded in the append-only table
+	 * `<table>_history` (in the same transaction): the operation (see {@link HistoryOperation}), the old and the new
+	 * values of the changed columns (`null` for inserts and deletes respectively), the time of the change
+	 * and the names of the services that made the change (see {@link Service})
+	 */
+	history?: boolean;
+	/**
+	 * The properties that are synchronized with the clients that observe the entity (see {@link Synchronizer}),
+	 * e.g. `["name", "position"]`. They can also be in-memory properties (see {@link InMemory})
+	 */
+	synced?: string[];
+}
+
+/** Relation options, see {@link EntityOptions.relations} */
+export interface RelationOptions {
+	/**
+	 * The property of the related entity that refers back to this entity.
+	 * It should only be specified if there are multiple such properties
+	 */
+	inverse?: string;
+	/**
+	 * The join table for a many-to-many relation. By default, it is the names of both tables
+	 * in alphabetical order joined by `_` (e.g. `character_guild`)
+	 */
+	joinTable?: string;
+}
+
+/** The relation type */
+export enum RelationType {ManyToOne, OneToMany, ManyToMany}
+
+/** The change that is recorded in the history table, see {@link EntityOptions.history} */
+export enum HistoryOperation {
+	Insert = "insert",
+	Update = "update",
+	Delete = "delete",
+}
+
+/** The parameters to create an entity. The id can be omitted, it will then be generated by the database */
+export type EntityParams<T extends Entity> = Omit<PropertiesOf<T>, "id"> & Partial<Pick<T, "id">>;
+
+/** The info about an entity property that is stored in the database */
+export interface PropertyMetadata {
+	/** The property name */
+	name: string;
+	/** The fields where the property is stored. It is usually one field, but e.g. vectors need multiple fields */
+	fields: FieldDefinition[];
+	/** Converts the property value to the values of its fields (in the same order as in `fields`) */
+	toDB: (value: unknown) => DBValue[];
+	/** Converts the values of the fields (in the same order as in `fields`) to the property value */
+	fromDB: (values: DBValue[]) => unknown;
+}
+
+/**
+ * The info about an entity relation property. Many-to-one relations are stored in the foreign key column
+ * (and also have {@link PropertyMetadata}), many-to-many relations are stored in the join table,
+ * one-to-many relations are not stored at all, as they are the inverse side of many-to-one relations
+ */
+export interface RelationMetadata {
+	name: string;
+	type: RelationType;
+	/** The full name of the related entity class (see {@link TypeAnalyzer}) */
+	targetName: string;
+	/** The info about the related entity. It is set after all entities are transformed */
+	target?: EntityMetadata;
+	/** The property of the related entity that refers back to this entity (for one-to-many relations) */
+	inverse?: string;
+	/** The join table (for many-to-many relations) */
+	joinTable?: string;
+	/** The column of the join table that refers to this entity (for many-to-many relations) */
+	sourceColumn?: string;
+	/** The column of the join table that refers to the related entity (for many-to-many relations) */
+	targetColumn?: string;
+}
+
+/** The info about an entity that is collected by {@link ORM} */
+export interface EntityMetadata {
+	/** The entity class */
+	EntityClass: typeof Entity;
+	table: string;
+	/** A map whose keys are property names and values are the info about these properties */
+	properties: Map<string, PropertyMetadata>;
+	/** A map whose keys are relation property names and values are the info about these relations */
+	relations: Map<string, RelationMetadata>;
+	/** All fields of the table, they can be used to create it */
+	fields: FieldDefinition[];
+	/** All indexes of the table, they can be used to create it */
+	indexes: IndexDefinition[];
+	/** The entity tasks that are started for each loaded or created entity, see {@link EntityTask} */
+	tasks: (typeof EntityTask)[];
+	/** The version column for optimistic locking, see {@link EntityOptions.versioned} */
+	versionColumn?: string;
+	/** See {@link EntityOptions.softDelete} */
+	softDelete: boolean;
+	/** See {@link EntityOptions.history} */
+	history: boolean;
+}
+
+/** The options of the cache invalidation between processes, see {@link ORM.enableInvalidation} */
+export interface InvalidationOptions {
+	/** The notification channel, all processes that share the database should use the same one */
+	channel: string;
+	/**
+	 * If `true`, the changed entities are reloaded in place, so that all references to them see the changes.
+	 * Otherwise, they are only evicted from the cache, so they are loaded again by the next {@link ORM.find}
+	 * (but the old instances that are still referenced somewhere are not updated)
+	 */
+	reload: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+import assert from "assert/strict";
+import {afterEach, test} from "node:test";
+import QueryStats from "./query-stats.js";
+
+afterEach(() => {
+	QueryStats.clear();
+});
+
+test("normalize", () => {
+	assert.equal(
+		QueryStats.normalize(`SELECT *\n\tFROM "user"  WHERE "id" IN ($1, $2, $3) AND "name"=$4`),
+		`SELECT * FROM "user" WHERE "id" IN (?...) AND "name"=?`
+	);
+	assert.equal(
+		QueryStats.normalize(`INSERT INTO "item" ("id", "name") VALUES ($1,$2),($3,$4),($5,$6)`),
+		`INSERT INTO "item" ("id", "name") VALUES (?...)...`
+	);
+	assert.equal(QueryStats.normalize(`SELECT ($1)`), QueryStats.normalize(`SELECT ($2)`));
+});
+
+test("statistics", () => {
+	assert.deepEqual(QueryStats.getStats(), []);
+	for (let i = 1; i <= 100; i++) {
+		QueryStats.record("SELECT 1", i);
+	}
+	QueryStats.record("SELECT 2", 500);
+	assert.deepEqual(QueryStats.getStats(), [
+		{statement: "SELECT 2", count: 1, p50: 500, p95: 500, max: 500},
+		{statement: "SELECT 1", count: 100, p50: 50, p95: 95, max: 100},
+	]);
+
+	// Only the last durations are used for the percentiles
+	for (let i = 0; i < QueryStats.WINDOW_SIZE; i++) {
+		QueryStats.record("SELECT 1", 1);
+	}
+	assert.deepEqual(QueryStats.getStats()[1], {
+		statement: "SELECT 1", count: 100 + QueryStats.WINDOW_SIZE, p50: 1, p95: 1, max: 1,
+	});
+});
\ No newline at end of file
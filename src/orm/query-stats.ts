@@ -0,0 +1,96 @@
+import Logger, {LogLevel} from "../core/logger.js";
+import {PoolStats, QueryStatistics} from "./db.typings.js";
+
+/** The durations of a statement. The last {@link QueryStats.WINDOW_SIZE} durations are kept in a ring buffer */
+interface StatementEntry {
+	count: number;
+	durations: number[];
+}
+
+/**
+ * This class collects the execution statistics of the queries executed by {@link DB.query}.
+ * The queries are grouped by their normalized SQL (see {@link QueryStats.normalize}),
+ * so the queries that differ only in parameters count as the same statement.
+ *
+ * The statistics can be read at runtime with {@link QueryStats.getStats},
+ * and {@link QueryStats.log} (that can be scheduled with a task) writes them to the log
+ */
+export default class QueryStats {
+	/** How many last durations of each statement are used to calculate the percentiles */
+	public static readonly WINDOW_SIZE = 1000;
+	/** How many statements are logged by {@link QueryStats.log} */
+	public static readonly LOG_LIMIT = 20;
+	private static readonly logger = new Logger(QueryStats, LogLevel.Info);
+	private static readonly entries = new Map<string, StatementEntry>;
+
+	/**
+	 * Returns the normalized SQL: the whitespace is collapsed, the placeholders are replaced with `?`,
+	 * the lists of placeholders (e.g. in `IN (...)`) are collapsed to `?...`
+	 * and the repeated rows (e.g. in multi-row `VALUES`) are collapsed to `(?...)...`
+	 */
+	public static normalize(sql: string): string {
+		return sql
+			.replace(/\s+/g, " ")
+			.trim()
+			.replace(/\$\d+/g, "?")
+			.replace(/\?(,\s*\?)+/g, "?...")
+			.replace(/(\(\?(?:\.\.\.)?\))(,\s*\1)+/g, "$1...");
+	}
+
+	/** Records the given duration (in ms) of the given normalized statement */
+	public static record(statement: string, duration: number): void {
+		let entry = QueryStats.entries.get(statement);
+		if (!entry) {
+			entry = {count: 0, durations: []};
+			QueryStats.entries.set(statement, entry);
+		}
+		entry.durations[entry.count % QueryStats.WINDOW_SIZE] = duration;
+		entry.count++;
+	}
+
+	/** Returns the statistics of all statements, sorted by the 95th percentile of the execution time (descending) */
+	public static getStats(): QueryStatistics[] {
+		const result: QueryStatistics[] = [];
+		for (const [statement, {count, durations}] of QueryStats.entries) {
+			const sorted = durations.slice().sort((a, b) => a - b);
+			result.push({
+				statement,
+				count,
+				p50: QueryStats.getPercentile(sorted, 0.5),
+				p95: QueryStats.getPercentile(sorted, 0.95),
+				max: sorted[sorted.length - 1],
+			});
+		}
+		return result.sort((a, b) => b.p95 - a.p95);
+	}
+
+	/**
+	 * Logs the statistics of the {@link QueryStats.LOG_LIMIT} slowest statements (see {@link QueryStats.getStats})
+	 * and the given usage of the connection pools (see {@link DB.getPoolStats})
+	 */
+	public static log(poolStats: PoolStats[] = []): void {
+		const stats = QueryStats.getStats();
+		if (stats.length > 0) {
+			const lines = stats.slice(0, QueryStats.LOG_LIMIT).map(({statement, count, p50, p95, max}) => (
+				`count ${count}, p50 ${p50.toFixed(1)} ms, p95 ${p95.toFixed(1)} ms, max ${max.toFixed(1)} ms: ${statement}`
+			));
+			QueryStats.logger.info(`Query statistics:\n${lines.join("\n")}`);
+		}
+		if (poolStats.length > 0) {
+			const lines = poolStats.map(({name, size, active, waiting, queries}) => (
+				`${name}: ${active}/${size} active, ${waiting} waiting, ${queries} queries`
+			));
+			QueryStats.logger.info(`Connection pools:\n${lines.join("\n")}`);
+		}
+	}
+
+	/** Deletes all collected statistics */
+	public static clear(): void {
+		QueryStats.entries.clear();
+	}
+
+	/** Returns the given percentile (from 0 to 1) of the given sorted values using the nearest-rank method */
+	private static getPercentile(sorted: number[], percentile: number): number {
+		return sorted[Math.max(0, Math.ceil(percentile * sorted.length) - 1)];
+	}
+}
\ No newline at end of file
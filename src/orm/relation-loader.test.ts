@@ -0,0 +1,122 @@
+import assert from "assert/strict";
+import {after, before, test} from "node:test";
+import {Typings} from "../core/typings.js";
+import ClassLoader from "../type-analyzer/class-loader.js";
+import TypeAnalyzer from "../type-analyzer/type-analyzer.js";
+import DB from "./db.js";
+import {Conditions, FieldType, IndexType, Row} from "./db.typings.js";
+import Entity from "./entity.js";
+import ORM from "./orm.js";
+import {EntityOptions, RelationType} from "./orm.typings.js";
+
+export class Guild extends Entity {
+	public static options: EntityOptions = {relations: {members: {inverse: "guilds"}}};
+	public name!: string;
+	public members?: Member[];
+}
+
+export class Member extends Entity {
+	public name!: string;
+	public guild?: Guild;
+	public items?: Loot[];
+	public guilds?: Guild[];
+}
+
+export class Loot extends Entity {
+	public owner!: Member;
+}
+
+const db = new DB("postgres://localhost/test-draco-ts");
+before(async () => {
+	TypeAnalyzer.init(["**/orm/*.d.ts", "**/typings.d.ts", "**/vector.d.ts"]);
+	const entities = await Promise.all([Guild, Member, Loot].map(ClassLoader.findOrThrowWithInfo));
+	await ORM.init(db, entities, await ClassLoader.findOrThrow(Typings));
+});
+
+after(async () => {
+	ORM.stop();
+	await db.close();
+});
+
+test("metadata", () => {
+	const memberMetadata = ORM.getMetadata(Member);
+	assert.deepEqual(memberMetadata.fields.map(field => field.name), ["id", "name", "guild_id"]);
+	assert.deepEqual(memberMetadata.indexes, [{field: "id", type: IndexType.Primary}, {field: "guild_id"}]);
+	assert.deepEqual(
+		Array.from(memberMetadata.relations.values()).map(({name, type, inverse}) => ({name, type, inverse})),
+		[
+			{name: "guild", type: RelationType.ManyToOne, inverse: undefined},
+			{name: "items", type: RelationType.OneToMany, inverse: "owner"},
+			{name: "guilds", type: RelationType.ManyToMany, inverse: "members"},
+		]
+	);
+	assert.equal(ORM.getMetadata(Guild).relations.get("members")?.joinTable, "guild_member");
+
+	assert.deepEqual(ORM.getTableDefinitions().find(table => table.name == "guild_member"), {
+		name: "guild_member",
+		fields: [{name: "guild_id", type: FieldType.Int}, {name: "member_id", type: FieldType.Int}],
+		indexes: [{fields: ["guild_id", "member_id"], type: IndexType.Primary}, {field: "member_id"}],
+	});
+});
+
+test("batched loading", async ctx => {
+	const select = ctx.mock.method(db, "select", (table: string, conditions?: Conditions) => {
+		const rows: {[table: string]: Row[]} = {
+			member: [{id: 1, name: "Luka", "guild_id": 10}, {id: 2, name: "Sama", "guild_id": 10}],
+			guild: [{id: 10, name: "Test"}, {id: 11, name: "Other"}],
+			loot: [{id: 100, "owner_id": 1}, {id: 101, "owner_id": 2}, {id: 102, "owner_id": 1}],
+			"guild_member": [{"member_id": 1, "guild_id": 10}, {"member_id": 1, "guild_id": 11}],
+		};
+		const [column, values] = Object.entries(conditions ?? {})[0] ?? [];
+		return Promise.resolve(
+			rows[table].filter(row => !column || (values as unknown[]).includes(row[column]))
+		);
+	});
+
+	const members = await Member.find();
+	await Promise.all(members.map(member => member.load("guild", "items", "guilds")));
+	assert.equal(select.mock.callCount(), 5);
+	assert.deepEqual(select.mock.calls[1].arguments.slice(0, 2), ["guild", {id: [10]}]);
+	assert.deepEqual(select.mock.calls[2].arguments.slice(0, 2), ["loot", {"owner_id": [1, 2]}]);
+	assert.deepEqual(select.mock.calls[3].arguments.slice(0, 2), ["guild_member", {"member_id": [1, 2]}]);
+	assert.deepEqual(select.mock.calls[4].arguments.slice(0, 2), ["guild", {id: [10, 11]}]);
+
+	const [luka, sama] = members;
+	assert(luka.guild && luka.guild == sama.guild);
+	assert.equal(luka.guild.name, "Test");
+	assert.deepEqual(luka.items?.map(item => item.id), [100, 102]);
+	assert.equal(luka.items[0].owner, luka);
+	assert.deepEqual(luka.guilds?.map(guild => guild.id), [10, 11]);
+	assert.deepEqual(sama.guilds, []);
+
+	await luka.load("guild");
+	assert.equal(select.mock.callCount(), 5);
+	await assert.rejects(luka.load("name"));
+});
+
+test("saving relations", async ctx => {
+	ctx.mock.method(db, "select", () => Promise.resolve([{id: 1, name: "Luka", "guild_id": null}]));
+	ctx.mock.method(db, "runTransaction", (cb: (db: DB) => Promise<void>) => cb(db));
+	const updateMany = ctx.mock.method(db, "updateMany", () => Promise.resolve(1));
+	const insert = ctx.mock.method(db, "insert", () => Promise.resolve(1));
+	const remove = ctx.mock.method(db, "delete", () => Promise.resolve(1));
+
+	const member = await Member.get(1);
+	assert(member);
+	const guild = await Guild.create({id: 10, name: "Test", members: [member]});
+	member.guild = guild;
+	member.guilds = [guild, guild];
+	await ORM.flush();
+	assert.deepEqual(insert.mock.calls.map(call => call.arguments), [
+		["guild", [{id: 10, name: "Test"}]],
+		["guild_member", [{"guild_id": 10, "member_id": 1}]],
+	]);
+	assert.deepEqual(updateMany.mock.calls[0].arguments, ["member", [{id: 1, "guild_id": 10}], "id"]);
+	assert.deepEqual(remove.mock.calls[0].arguments, ["guild_member", [{"member_id": [1]}]]);
+
+	member.remove();
+	await ORM.flush();
+	assert.deepEqual(remove.mock.calls.slice(1).map(call => call.arguments), [
+		["guild_member", [{"member_id": [1]}]], ["member", {id: [1]}],
+	]);
+});
\ No newline at end of file
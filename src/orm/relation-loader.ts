@@ -0,0 +1,107 @@
+import assert from "assert/strict";
+import MapUtil from "../collection-utils/map-util.js";
+import {Class, Constructor} from "../core/typings.js";
+import {DBValue} from "./db.typings.js";
+import Entity from "./entity.js";
+import ORM from "./orm.js";
+import {EntityMetadata, RelationMetadata, RelationType} from "./orm.typings.js";
+
+/** The values that are collected during a tick to be loaded with a single query */
+interface Batch<T> {
+	values: Set<DBValue>;
+	/** A map whose keys are the collected values and values are the loaded items for these values */
+	result: Promise<Map<DBValue, T[]>>;
+}
+
+/**
+ * This class loads the entity relations (see {@link Entity} for details about relations).
+ * The relations are loaded lazily, i.e. only when {@link Entity.load} is called.
+ *
+ * The loading is batched per tick: all relations of the same kind that were requested
+ * during the same tick are loaded with a single query with `WHERE ... IN (...)`.
+ * E.g., loading the guilds of 100 characters with `Promise.all` issues only one query
+ */
+export default class RelationLoader {
+	/** A map whose keys are the batch keys (the table and the column) and values are the batches */
+	private static readonly batches = new Map<string, Batch<unknown>>;
+
+	/** Loads the given relations of the given entity, unless they are already loaded */
+	public static async load(entity: Entity, propertyNames: string[]): Promise<void> {
+		const metadata = ORM.getMetadata(entity.constructor as Class);
+		await Promise.all(propertyNames.map(propertyName => {
+			const relation = metadata.relations.get(propertyName);
+			assert(relation, `${metadata.EntityClass.name}.${propertyName} is not a relation.`);
+			return (ORM.isRelationLoaded(entity, propertyName) ? undefined : RelationLoader.loadRelation(entity, relation));
+		}));
+	}
+
+	/** Loads the given relation of the given entity and sets it */
+	private static async loadRelation(entity: Entity, relation: RelationMetadata): Promise<void> {
+		const target = relation.target!;
+		let value: Entity | Entity[] | undefined;
+		if (relation.type == RelationType.ManyToOne) {
+			const foreignKey = ORM.getForeignKey(entity, relation.name);
+			value = (foreignKey === null ? undefined : (await RelationLoader.loadByProperty(target, "id", foreignKey))[0]);
+		} else if (relation.type == RelationType.OneToMany) {
+			value = await RelationLoader.loadByProperty(target, relation.inverse!, entity.id);
+			for (const relatedEntity of value) {
+				if (!ORM.isRelationLoaded(relatedEntity, relation.inverse!)) {
+					ORM.setLoadedRelation(relatedEntity, relation.inverse!, entity);
+				}
+			}
+		} else {
+			const {joinTable, sourceColumn, targetColumn} = relation as Required<RelationMetadata>;
+			const rows = await RelationLoader.loadBatched(
+				`${joinTable}.${sourceColumn}`, entity.id,
+				values => ORM.getDB().select(joinTable, {[sourceColumn]: values}),
+				row => row[sourceColumn]
+			);
+			const relatedEntities = await Promise.all(
+				rows.map(row => RelationLoader.loadByProperty(target, "id", row[targetColumn]))
+			);
+			value = relatedEntities.flat();
+		}
+
+		// The relation could be set while it was loading, the newer value should not be overwritten
+		if (!ORM.isRelationLoaded(entity, relation.name)) {
+			ORM.setLoadedRelation(entity, relation.name, value);
+		}
+	}
+
+	/** Loads (batched) the entities whose given property (or many-to-one relation) has the given value */
+	private static async loadByProperty(metadata: EntityMetadata, propertyName: string, value: DBValue): Promise<Entity[]> {
+		const EntityClass = metadata.EntityClass as unknown as Constructor<Entity>;
+		const isRelation = metadata.relations.has(propertyName);
+		return await RelationLoader.loadBatched(
+			`${metadata.table}.${propertyName}`, value,
+			values => ORM.find(EntityClass, {[propertyName]: values}),
+			entity => (isRelation ? ORM.getForeignKey(entity, propertyName) : Reflect.get(entity, propertyName))
+		);
+	}
+
+	/**
+	 * Adds the given value to the batch with the given key. The batch will be loaded on the next tick
+	 * using the `load` function, and the loaded items will be grouped by `getValue`.
+	 * Returns the loaded items for the given value
+	 */
+	private static async loadBatched<T>(
+		key: string, value: DBValue, load: (values: DBValue[]) => Promise<T[]>, getValue: (item: T) => DBValue
+	): Promise<T[]> {
+		let batch = RelationLoader.batches.get(key) as Batch<T> | undefined;
+		if (!batch) {
+			const values = new Set<DBValue>;
+			const result = new Promise(resolve => setImmediate(resolve)).then(async () => {
+				RelationLoader.batches.delete(key);
+				const itemsByValue = new Map<DBValue, T[]>;
+				for (const item of await load(Array.from(values))) {
+					MapUtil.getArray(itemsByValue, getValue(item)).push(item);
+				}
+				return itemsByValue;
+			});
+			batch = {values, result};
+			RelationLoader.batches.set(key, batch);
+		}
+		batch.values.add(value);
+		return (await batch.result).get(value) ?? [];
+	}
+}
\ No newline at end of file
@@ -0,0 +1,176 @@
+import assert from "assert/strict";
+import {after, test} from "node:test";
+import DB from "./db.js";
+import {FieldType, IndexMethod, IndexType, ReferentialAction} from "./db.typings.js";
+import SchemaSynchronizer from "./schema-synchronizer.js";
+import {SchemaChange, SchemaChangeType, TableDefinition} from "./schema-synchronizer.typings.js";
+
+const db = new DB("postgres://localhost/test-draco-ts");
+const tables: TableDefinition[] = [{
+	name: "user",
+	fields: [
+		{name: "id", type: FieldType.Serial},
+		{name: "name", type: FieldType.Varchar, limit: 20},
+		{name: "points", type: FieldType.Int, nullable: true},
+		{name: "created_at", type: FieldType.Date, default: "now()"},
+	],
+	indexes: [{field: "id", type: IndexType.Primary}, {field: "name", type: IndexType.Unique}],
+}, {
+	name: "guild",
+	fields: [{name: "id", type: FieldType.Serial}],
+	indexes: [{field: "id", type: IndexType.Primary}],
+}];
+
+after(async () => {
+	await db.close();
+});
+
+test("diff and plan", async ctx => {
+	ctx.mock.method(db, "getTables", () => Promise.resolve(["migrations", "user"]));
+	ctx.mock.method(db, "getFields", () => Promise.resolve([
+		{name: "id", type: FieldType.Serial, nullable: false},
+		{name: "name", type: FieldType.Varchar, limit: 10, nullable: false},
+		{name: "points", type: FieldType.Int, nullable: false, default: 100},
+		{name: "level", type: FieldType.Int, nullable: true},
+	]));
+	ctx.mock.method(db, "getIndexes", () => Promise.resolve([
+		{name: "user_pkey", fields: ["id"], type: IndexType.Primary, constraint: true},
+		{name: "user_name_points_key", fields: ["name", "points"], type: IndexType.Unique, constraint: true},
+	]));
+	ctx.mock.method(db, "getForeignKeys", () => Promise.resolve([]));
+	ctx.mock.method(db, "getChecks", () => Promise.resolve([]));
+
+	const changes = await SchemaSynchronizer.getDiff(db, tables);
+	assert.deepEqual(changes.map(change => change.type), [
+		SchemaChangeType.CreateTable,
+		SchemaChangeType.DropIndex,
+		SchemaChangeType.CreateColumn,
+		SchemaChangeType.AlterColumn,
+		SchemaChangeType.AlterColumn,
+		SchemaChangeType.DropColumn,
+		SchemaChangeType.CreateIndex,
+	]);
+	assert.deepEqual(changes[1], {
+		type: SchemaChangeType.DropIndex, table: "user",
+		index: {name: "user_name_points_key", fields: ["name", "points"], type: IndexType.Unique, constraint: true},
+	});
+	assert.deepEqual(changes[5], {type: SchemaChangeType.DropColumn, table: "user", field: "level"});
+
+	assert.equal(SchemaSynchronizer.getPlan(changes, ["user.points"]), [
+		"Create table guild: id serial not null; primary index (id)",
+		"Drop unique index user_name_points_key (name, points) on user",
+		"Create column user.created_at date default now() not null",
+		"Alter column user.name character varying(10) not null to name character varying(20) not null",
+		"Alter column user.points integer default 100 not null to points integer",
+		"Drop column user.level (blocked, not allowed)",
+		"Create unique index (name) on user",
+	].join("\n"));
+});
+
+test("apply", async ctx => {
+	ctx.mock.method(db, "runTransaction", (cb: (db: DB) => Promise<void>) => cb(db));
+	const createTable = ctx.mock.method(db, "createTable", () => Promise.resolve());
+	const dropConstraint = ctx.mock.method(db, "dropConstraint", () => Promise.resolve());
+	const dropColumn = ctx.mock.method(db, "dropColumn", () => Promise.resolve());
+	const changes: SchemaChange[] = [
+		{type: SchemaChangeType.CreateTable, table: "guild", fields: tables[1].fields, indexes: tables[1].indexes},
+		{
+			type: SchemaChangeType.DropIndex, table: "user",
+			index: {name: "user_name_key", fields: ["name"], type: IndexType.Unique, constraint: true},
+		},
+		{type: SchemaChangeType.DropColumn, table: "user", field: "level"},
+	];
+
+	await assert.rejects(SchemaSynchronizer.apply(db, changes));
+	await assert.rejects(SchemaSynchronizer.apply(db, changes, ["user.points"]));
+	assert.equal(createTable.mock.callCount(), 0);
+
+	await SchemaSynchronizer.apply(db, changes, ["user.level"]);
+	assert.deepEqual(createTable.mock.calls[0].arguments, ["guild", tables[1].fields, tables[1].indexes]);
+	assert.deepEqual(dropConstraint.mock.calls[0].arguments, ["user", "user_name_key"]);
+	assert.deepEqual(dropColumn.mock.calls[0].arguments, ["user", "level"]);
+});
+
+test("constraints and index types", async ctx => {
+	const item: TableDefinition = {
+		name: "item",
+		fields: [
+			{name: "id", type: FieldType.Serial},
+			{name: "name", type: FieldType.Varchar, limit: 20},
+			{name: "owner_id", type: FieldType.Int},
+			{name: "tags", type: FieldType.Jsonb},
+		],
+		indexes: [
+			{field: "id", type: IndexType.Primary},
+			{expression: "lower(name)", type: IndexType.Unique, where: "deleted_at IS NULL"},
+			{field: "tags", method: IndexMethod.GIN},
+			{field: "owner_id", include: ["name"]},
+		],
+		foreignKeys: [{fields: ["owner_id"], references: "user", onDelete: ReferentialAction.Cascade}],
+		checks: [{expression: "char_length(name) > 2"}],
+	};
+	ctx.mock.method(db, "getTables", () => Promise.resolve(["item"]));
+	ctx.mock.method(db, "getFields", () => Promise.resolve(item.fields.map(field => ({...field, nullable: false}))));
+	ctx.mock.method(db, "getIndexes", () => Promise.resolve([
+		{name: "item_pkey", fields: ["id"], type: IndexType.Primary, constraint: true},
+		{
+			name: "item_lower_idx", fields: ["lower((name)::text)"], type: IndexType.Unique, constraint: false,
+			where: "(deleted_at IS NULL)",
+		},
+		{name: "item_tags_idx", fields: ["tags"], type: IndexType.Index, constraint: false, method: IndexMethod.GIN},
+		{name: "item_owner_id_idx", fields: ["owner_id"], type: IndexType.Index, constraint: false},
+	]));
+	ctx.mock.method(db, "getForeignKeys", () => Promise.resolve([{
+		name: "item_owner_id_fkey", fields: ["owner_id"], references: "user", referencedFields: ["id"],
+		onDelete: ReferentialAction.Cascade, onUpdate: ReferentialAction.NoAction,
+	}]));
+	ctx.mock.method(db, "getChecks", () => Promise.resolve([
+		{name: "item_name_check", expression: "(char_length((name)::text) > 2)"},
+		{name: "item_old_check", expression: "(owner_id > 0)"},
+	]));
+
+	const changes = await SchemaSynchronizer.getDiff(db, [item, {
+		name: "loot", fields: [{name: "id", type: FieldType.Serial}], indexes: [],
+		foreignKeys: [{fields: ["id"], references: "item", name: "loot_item"}],
+	}]);
+	assert.equal(SchemaSynchronizer.getPlan(changes), [
+		"Create table loot: id serial not null",
+		"Drop check item_old_check ((owner_id > 0)) on item",
+		"Drop index index item_owner_id_idx (owner_id) on item",
+		"Create index index (owner_id) include (name) on item",
+		"Create foreign key loot_item (id) references item(id) on loot",
+	].join("\n"));
+
+	const createForeignKey = ctx.mock.method(db, "createForeignKey", () => Promise.resolve());
+	const dropConstraint = ctx.mock.method(db, "dropConstraint", () => Promise.resolve());
+	ctx.mock.method(db, "runTransaction", (cb: (db: DB) => Promise<void>) => cb(db));
+	ctx.mock.method(db, "createTable", () => Promise.resolve());
+	ctx.mock.method(db, "dropIndex", () => Promise.resolve());
+	ctx.mock.method(db, "createIndex", () => Promise.resolve());
+	await SchemaSynchronizer.apply(db, changes);
+	assert.deepEqual(dropConstraint.mock.calls[0].arguments, ["item", "item_old_check"]);
+	assert.deepEqual(createForeignKey.mock.calls[0].arguments, [
+		"loot", {fields: ["id"], references: "item", name: "loot_item"},
+	]);
+});
+
+test("enums", async ctx => {
+	const rarity = {name: "rarity", values: ["common", "rare", "epic"]};
+	const kind = {name: "kind", values: ["weapon", "armor"]};
+	ctx.mock.method(db, "getTables", () => Promise.resolve([]));
+	ctx.mock.method(db, "getEnums", () => Promise.resolve([{name: "rarity", values: ["common", "rare"]}]));
+	const changes = await SchemaSynchronizer.getDiff(db, [{
+		name: "item",
+		fields: [
+			{name: "rarity", type: FieldType.Enum, enum: rarity},
+			{name: "kinds", type: FieldType.Enum, enum: kind, array: true},
+			{name: "price", type: FieldType.Numeric, precision: 10, scale: 2},
+		],
+		indexes: [],
+	}]);
+	assert.equal(SchemaSynchronizer.getPlan(changes), [
+		"Create enum kind: weapon, armor",
+		"Add values to enum rarity: epic",
+		"Create table item: rarity \"rarity\" not null, kinds \"kind\"[] not null, price numeric(10, 2) not null",
+	].join("\n"));
+});
\ No newline at end of file
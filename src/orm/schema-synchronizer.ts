@@ -0,0 +1,346 @@
+import assert from "assert/strict";
+import Logger from "../core/logger.js";
+import DB from "./db.js";
+import {
+	CheckDefinition,
+	CheckInfo,
+	EnumDefinition,
+	FieldDefinition,
+	ForeignKeyDefinition,
+	ForeignKeyInfo,
+	IndexDefinition,
+	IndexInfo,
+	IndexMethod,
+	IndexType,
+	ReferentialAction
+} from "./db.typings.js";
+import {SchemaChange, SchemaChangeType, SchemaSyncOptions, TableDefinition} from "./schema-synchronizer.typings.js";
+
+/**
+ * This class synchronizes the database schema with the table definitions (e.g. derived from the entities).
+ * It reads the existing schema from `information_schema`, `pg_indexes` and `pg_constraint` (see {@link DB.getFields},
+ * {@link DB.getIndexes}, {@link DB.getForeignKeys} and {@link DB.getChecks}), compares it with the table definitions
+ * and produces an ordered list of changes. The changes can be printed as a plan (dry run) or applied.
+ *
+ * PostgreSQL reformats the raw SQL expressions (of expression indexes, partial indexes and check constraints),
+ * e.g. `lower(name)` becomes `lower((name)::text)`. So the expressions are compared loosely:
+ * without type casts, quotes, parentheses, whitespace and case.
+ *
+ * Tables that are not in the table definitions are never dropped (they can be used e.g. for migrations).
+ * Dropping columns is destructive, so it is blocked unless explicitly allowed, see {@link SchemaSyncOptions}
+ */
+export default class SchemaSynchronizer {
+	private static readonly logger = new Logger(SchemaSynchronizer);
+
+	/**
+	 * Synchronizes the database schema with the given table definitions using the given options.
+	 * The plan is logged before applying. Returns the changes that were applied (or that would be applied in a dry run)
+	 */
+	public static async sync(
+		db: DB, tables: TableDefinition[], options?: Partial<SchemaSyncOptions>
+	): Promise<SchemaChange[]> {
+		const changes = await SchemaSynchronizer.getDiff(db, tables);
+		if (changes.length < 1) {
+			return changes;
+		}
+		const allowDropColumns = options?.allowDropColumns ?? false;
+		const plan = SchemaSynchronizer.getPlan(changes, allowDropColumns);
+		SchemaSynchronizer.logger.info(`${options?.dryRun ? "Planned" : "Applying"} schema changes:\n${plan}`);
+		if (!options?.dryRun) {
+			await SchemaSynchronizer.apply(db, changes, allowDropColumns);
+		}
+		return changes;
+	}
+
+	/** Compares the existing database schema with the given table definitions and returns the ordered changes */
+	public static async getDiff(db: DB, tables: TableDefinition[]): Promise<SchemaChange[]> {
+		const existingTables = new Set(await db.getTables());
+		const changes = await SchemaSynchronizer.diffEnums(db, tables);
+		for (const table of tables) {
+			if (existingTables.has(table.name)) {
+				const fields = await db.getFields(table.name);
+				const indexes = await db.getIndexes(table.name);
+				const foreignKeys = await db.getForeignKeys(table.name);
+				const checks = await db.getChecks(table.name);
+				changes.push(
+					...SchemaSynchronizer.diffTable(table, fields, indexes),
+					...SchemaSynchronizer.diffConstraints(table, foreignKeys, checks)
+				);
+			} else {
+				changes.push({
+					type: SchemaChangeType.CreateTable, table: table.name, fields: table.fields, indexes: table.indexes
+				}, ...SchemaSynchronizer.diffConstraints(table, [], []));
+			}
+		}
+		// Stable sort, so that the changes of the same type keep the order of the tables and fields
+		return changes.sort((a, b) => a.type - b.type);
+	}
+
+	/**
+	 * Returns a human-readable plan of the given changes, one change per line.
+	 * The changes that are blocked by the destructive-change guard are marked as such
+	 */
+	public static getPlan(changes: SchemaChange[], allowDropColumns: boolean | string[] = false): string {
+		const blockedChanges = SchemaSynchronizer.getBlockedChanges(changes, allowDropColumns);
+		return changes.map(change => {
+			const description = SchemaSynchronizer.describe(change);
+			return (blockedChanges.includes(change) ? `${description} (blocked, not allowed)` : description);
+		}).join("\n");
+	}
+
+	/**
+	 * Applies the given changes in a single transaction. Throws an error without applying anything
+	 * if some of the changes are destructive and not allowed
+	 */
+	public static async apply(
+		db: DB, changes: SchemaChange[], allowDropColumns: boolean | string[] = false
+	): Promise<void> {
+		const blockedChanges = SchemaSynchronizer.getBlockedChanges(changes, allowDropColumns);
+		assert(
+			blockedChanges.length < 1,
+			"The schema synchronization was aborted because of the destructive changes that were not allowed:\n" +
+			blockedChanges.map(SchemaSynchronizer.describe).join("\n")
+		);
+
+		await db.runTransaction(async db => {
+			for (const change of changes) {
+				await SchemaSynchronizer.applyChange(db, change);
+			}
+		});
+	}
+
+	/** Returns the changes that are destructive and are not allowed by `allowDropColumns` */
+	public static getBlockedChanges(changes: SchemaChange[], allowDropColumns: boolean | string[]): SchemaChange[] {
+		return changes.filter(change => (
+			change.type == SchemaChangeType.DropColumn && allowDropColumns !== true &&
+			!(allowDropColumns instanceof Array && allowDropColumns.includes(`${change.table}.${change.field}`))
+		));
+	}
+
+	/** Compares the existing enum types with the enum types that are used by the fields and returns the changes */
+	private static async diffEnums(db: DB, tables: TableDefinition[]): Promise<SchemaChange[]> {
+		const enums = new Map<string, EnumDefinition>;
+		for (const field of tables.flatMap(table => table.fields)) {
+			if (field.enum) {
+				enums.set(field.enum.name, field.enum);
+			}
+		}
+		if (enums.size < 1) {
+			return [];
+		}
+
+		const changes: SchemaChange[] = [];
+		const existingEnums = new Map((await db.getEnums()).map(({name, values}) => [name, values]));
+		for (const enumDefinition of enums.values()) {
+			const existingValues = existingEnums.get(enumDefinition.name);
+			const values = enumDefinition.values.filter(value => !existingValues?.includes(value));
+			if (!existingValues) {
+				changes.push({type: SchemaChangeType.CreateEnum, enum: enumDefinition});
+			} else if (values.length > 0) {
+				changes.push({type: SchemaChangeType.AddEnumValues, enum: enumDefinition.name, values});
+			}
+		}
+		return changes;
+	}
+
+	/** Compares the existing fields and indexes of a table with its definition and returns the changes */
+	private static diffTable(table: TableDefinition, fields: FieldDefinition[], indexes: IndexInfo[]): SchemaChange[] {
+		const changes: SchemaChange[] = [];
+		const existingFields = new Map(fields.map(field => [field.name, field]));
+		const newFieldNames = new Set(table.fields.map(field => field.name));
+
+		for (const field of table.fields) {
+			const existingField = existingFields.get(field.name);
+			if (!existingField) {
+				changes.push({type: SchemaChangeType.CreateColumn, table: table.name, field});
+			} else if (!SchemaSynchronizer.fieldEquals(existingField, field)) {
+				changes.push({
+					type: SchemaChangeType.AlterColumn, table: table.name, oldField: existingField, newField: field
+				});
+			}
+		}
+		for (const field of fields) {
+			if (!newFieldNames.has(field.name)) {
+				changes.push({type: SchemaChangeType.DropColumn, table: table.name, field: field.name});
+			}
+		}
+
+		for (const index of indexes) {
+			if (!table.indexes.some(newIndex => SchemaSynchronizer.indexEquals(index, newIndex))) {
+				changes.push({type: SchemaChangeType.DropIndex, table: table.name, index});
+			}
+		}
+		for (const index of table.indexes) {
+			if (!indexes.some(existingIndex => SchemaSynchronizer.indexEquals(existingIndex, index))) {
+				changes.push({type: SchemaChangeType.CreateIndex, table: table.name, index});
+			}
+		}
+		return changes;
+	}
+
+	/** Compares the existing foreign keys and checks of a table with its definition and returns the changes */
+	private static diffConstraints(
+		table: TableDefinition, foreignKeys: ForeignKeyInfo[], checks: CheckInfo[]
+	): SchemaChange[] {
+		const changes: SchemaChange[] = [];
+		const newForeignKeys = table.foreignKeys ?? [];
+		const newChecks = table.checks ?? [];
+
+		for (const foreignKey of foreignKeys) {
+			if (!newForeignKeys.some(newForeignKey => SchemaSynchronizer.foreignKeyEquals(foreignKey, newForeignKey))) {
+				changes.push({type: SchemaChangeType.DropForeignKey, table: table.name, foreignKey});
+			}
+		}
+		for (const check of checks) {
+			if (!newChecks.some(newCheck => SchemaSynchronizer.checkEquals(check, newCheck))) {
+				changes.push({type: SchemaChangeType.DropCheck, table: table.name, check});
+			}
+		}
+		for (const check of newChecks) {
+			if (!checks.some(existingCheck => SchemaSynchronizer.checkEquals(existingCheck, check))) {
+				changes.push({type: SchemaChangeType.CreateCheck, table: table.name, check});
+			}
+		}
+		for (const foreignKey of newForeignKeys) {
+			if (!foreignKeys.some(existingKey => SchemaSynchronizer.foreignKeyEquals(existingKey, foreignKey))) {
+				changes.push({type: SchemaChangeType.CreateForeignKey, table: table.name, foreignKey});
+			}
+		}
+		return changes;
+	}
+
+	/** Returns whether the existing field matches the field definition (the name is not compared) */
+	private static fieldEquals(existingField: FieldDefinition, field: FieldDefinition): boolean {
+		return (
+			DB.getTypeName(existingField) == DB.getTypeName(field) &&
+			!!existingField.nullable == !!field.nullable &&
+			String(existingField.default) == String(field.default)
+		);
+	}
+
+	/** Returns whether the existing index matches the index definition (the name is not compared) */
+	private static indexEquals(existingIndex: IndexInfo, index: IndexDefinition): boolean {
+		const keys = (index.expression === undefined ? (index.fields ?? [index.field]).join(", ") : index.expression);
+		return (
+			existingIndex.type == (index.type ?? IndexType.Index) &&
+			(existingIndex.method ?? IndexMethod.BTree) == (index.method ?? IndexMethod.BTree) &&
+			SchemaSynchronizer.expressionEquals(existingIndex.fields.join(", "), keys) &&
+			SchemaSynchronizer.listEquals(existingIndex.include ?? [], index.include ?? []) &&
+			SchemaSynchronizer.expressionEquals(existingIndex.where ?? "", index.where ?? "")
+		);
+	}
+
+	/** Returns whether the existing foreign key matches the foreign key definition (the name is not compared) */
+	private static foreignKeyEquals(existingForeignKey: ForeignKeyInfo, foreignKey: ForeignKeyDefinition): boolean {
+		return (
+			SchemaSynchronizer.listEquals(existingForeignKey.fields, foreignKey.fields) &&
+			existingForeignKey.references == foreignKey.references &&
+			SchemaSynchronizer.listEquals(existingForeignKey.referencedFields, foreignKey.referencedFields ?? ["id"]) &&
+			existingForeignKey.onDelete == (foreignKey.onDelete ?? ReferentialAction.NoAction) &&
+			existingForeignKey.onUpdate == (foreignKey.onUpdate ?? ReferentialAction.NoAction)
+		);
+	}
+
+	/** Returns whether the existing check constraint matches the check definition (the name is not compared) */
+	private static checkEquals(existingCheck: CheckInfo, check: CheckDefinition): boolean {
+		return SchemaSynchronizer.expressionEquals(existingCheck.expression, check.expression);
+	}
+
+	/** Returns whether the given lists have the same items in the same order */
+	private static listEquals(a: string[], b: string[]): boolean {
+		return a.length == b.length && a.every((item, i) => item == b[i]);
+	}
+
+	/**
+	 * Returns whether the given raw SQL expressions are equal, ignoring type casts, quotes, parentheses,
+	 * whitespace and case (see the class description)
+	 */
+	private static expressionEquals(a: string, b: string): boolean {
+		const normalize = (expression: string): string => expression
+			.replace(/::(character varying|double precision|timestamp with(out)? time zone|\w+)(\[\])?/g, "")
+			.replace(/["()\s]/g, "")
+			.toLowerCase();
+		return normalize(a) == normalize(b);
+	}
+
+	/** Applies a single change using the given database connection */
+	private static async applyChange(db: DB, change: SchemaChange): Promise<void> {
+		if (change.type == SchemaChangeType.CreateEnum) {
+			await db.createEnum(change.enum);
+		} else if (change.type == SchemaChangeType.AddEnumValues) {
+			await db.addEnumValues(change.enum, change.values);
+		} else if (change.type == SchemaChangeType.CreateTable) {
+			await db.createTable(change.table, change.fields, change.indexes);
+		} else if (change.type == SchemaChangeType.DropForeignKey) {
+			await db.dropConstraint(change.table, change.foreignKey.name);
+		} else if (change.type == SchemaChangeType.DropCheck) {
+			await db.dropConstraint(change.table, change.check.name);
+		} else if (change.type == SchemaChangeType.DropIndex && change.index.constraint) {
+			await db.dropConstraint(change.table, change.index.name);
+		} else if (change.type == SchemaChangeType.DropIndex) {
+			await db.dropIndex(change.index.name);
+		} else if (change.type == SchemaChangeType.CreateColumn) {
+			await db.createColumn(change.table, change.field);
+		} else if (change.type == SchemaChangeType.AlterColumn) {
+			await db.alterColumn(change.table, change.oldField, change.newField);
+		} else if (change.type == SchemaChangeType.DropColumn) {
+			await db.dropColumn(change.table, change.field);
+		} else if (change.type == SchemaChangeType.CreateIndex) {
+			await db.createIndex(change.table, change.index);
+		} else if (change.type == SchemaChangeType.CreateCheck) {
+			await db.createCheck(change.table, change.check);
+		} else {
+			await db.createForeignKey(change.table, change.foreignKey);
+		}
+	}
+
+	/** Returns a human-readable description of the given change */
+	private static describe(change: SchemaChange): string {
+		const describeField = (field: FieldDefinition): string => (
+			`${field.name} ${DB.getTypeName(field)}` +
+			`${field.default !== undefined ? ` default ${field.default}` : ""}${field.nullable ? "" : " not null"}`
+		);
+		const describeIndex = (index: IndexDefinition): string => (
+			`${IndexType[index.type ?? IndexType.Index].toLowerCase()} index ` +
+			`${index.name ? `${index.name} ` : ""}${index.method ? `using ${index.method} ` : ""}` +
+			`(${index.expression ?? (index.fields ?? [index.field]).join(", ")})` +
+			`${index.include?.length ? ` include (${index.include.join(", ")})` : ""}` +
+			`${index.where ? ` where ${index.where}` : ""}`
+		);
+		const describeForeignKey = (foreignKey: ForeignKeyDefinition): string => (
+			`foreign key ${foreignKey.name ? `${foreignKey.name} ` : ""}(${foreignKey.fields.join(", ")}) ` +
+			`references ${foreignKey.references}(${(foreignKey.referencedFields ?? ["id"]).join(", ")})` +
+			`${foreignKey.onDelete ? ` on delete ${foreignKey.onDelete.toLowerCase()}` : ""}` +
+			`${foreignKey.onUpdate ? ` on update ${foreignKey.onUpdate.toLowerCase()}` : ""}`
+		);
+		const describeCheck = (check: CheckDefinition): string => (
+			`check ${check.name ? `${check.name} ` : ""}(${check.expression})`
+		);
+
+		if (change.type == SchemaChangeType.CreateEnum) {
+			return `Create enum ${change.enum.name}: ${change.enum.values.join(", ")}`;
+		} else if (change.type == SchemaChangeType.AddEnumValues) {
+			return `Add values to enum ${change.enum}: ${change.values.join(", ")}`;
+		} else if (change.type == SchemaChangeType.CreateTable) {
+			const indexes = (change.indexes.length > 0 ? `; ${change.indexes.map(describeIndex).join(", ")}` : "");
+			return `Create table ${change.table}: ${change.fields.map(describeField).join(", ")}${indexes}`;
+		} else if (change.type == SchemaChangeType.DropForeignKey) {
+			return `Drop ${describeForeignKey(change.foreignKey)} on ${change.table}`;
+		} else if (change.type == SchemaChangeType.DropCheck) {
+			return `Drop ${describeCheck(change.check)} on ${change.table}`;
+		} else if (change.type == SchemaChangeType.DropIndex) {
+			return `Drop ${describeIndex(change.index)} on ${change.table}`;
+		} else if (change.type == SchemaChangeType.CreateColumn) {
+			return `Create column ${change.table}.${describeField(change.field)}`;
+		} else if (change.type == SchemaChangeType.AlterColumn) {
+			return `Alter column ${change.table}.${describeField(change.oldField)} to ${describeField(change.newField)}`;
+		} else if (change.type == SchemaChangeType.DropColumn) {
+			return `Drop column ${change.table}.${change.field}`;
+		} else if (change.type == SchemaChangeType.CreateIndex) {
+			return `Create ${describeIndex(change.index)} on ${change.table}`;
+		} else if (change.type == SchemaChangeType.CreateCheck) {
+			return `Create ${describeCheck(change.check)} on ${change.table}`;
+		}
+		return `Create ${describeForeignKey(change.foreignKey)} on ${change.table}`;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,140 @@
+import {
+	CheckDefinition,
+	CheckInfo,
+	EnumDefinition,
+	FieldDefinition,
+	ForeignKeyDefinition,
+	ForeignKeyInfo,
+	IndexDefinition,
+	IndexInfo
+} from "./db.typings.js";
+
+/** The table definition that describes how the table should look like */
+export interface TableDefinition {
+	name: string;
+	fields: FieldDefinition[];
+	indexes: IndexDefinition[];
+	foreignKeys?: ForeignKeyDefinition[];
+	checks?: CheckDefinition[];
+}
+
+/**
+ * The type of schema change. The changes are applied in the same order as the types are listed here,
+ * e.g. the foreign keys are created in the end, when all referenced tables and unique indexes exist
+ */
+export enum SchemaChangeType {
+	CreateEnum,
+	AddEnumValues,
+	CreateTable,
+	DropForeignKey,
+	DropCheck,
+	DropIndex,
+	CreateColumn,
+	AlterColumn,
+	DropColumn,
+	CreateIndex,
+	CreateCheck,
+	CreateForeignKey,
+}
+
+/** The change that creates an enum type that is used by some fields */
+interface CreateEnumChange {
+	type: SchemaChangeType.CreateEnum;
+	enum: EnumDefinition;
+}
+
+/** The change that adds the missing values to an existing enum type (the values can't be removed) */
+interface AddEnumValuesChange {
+	type: SchemaChangeType.AddEnumValues;
+	enum: string;
+	values: string[];
+}
+
+/** The change that creates a table with all its fields and indexes (the constraints are created separately) */
+interface CreateTableChange {
+	type: SchemaChangeType.CreateTable;
+	table: string;
+	fields: FieldDefinition[];
+	indexes: IndexDefinition[];
+}
+
+/** The change that drops a foreign key that is not needed anymore */
+interface DropForeignKeyChange {
+	type: SchemaChangeType.DropForeignKey;
+	table: string;
+	foreignKey: ForeignKeyInfo;
+}
+
+/** The change that drops a check constraint that is not needed anymore */
+interface DropCheckChange {
+	type: SchemaChangeType.DropCheck;
+	table: string;
+	check: CheckInfo;
+}
+
+/** The change that drops an index (or a constraint, if the index belongs to it) that is not needed anymore */
+interface DropIndexChange {
+	type: SchemaChangeType.DropIndex;
+	table: string;
+	index: IndexInfo;
+}
+
+/** The change that adds a column to an existing table */
+interface CreateColumnChange {
+	type: SchemaChangeType.CreateColumn;
+	table: string;
+	field: FieldDefinition;
+}
+
+/** The change that alters the type, nullability or default value of a column */
+interface AlterColumnChange {
+	type: SchemaChangeType.AlterColumn;
+	table: string;
+	oldField: FieldDefinition;
+	newField: FieldDefinition;
+}
+
+/** The change that drops a column. It is destructive, so it should be allowed explicitly */
+interface DropColumnChange {
+	type: SchemaChangeType.DropColumn;
+	table: string;
+	field: string;
+}
+
+/** The change that creates an index in an existing table */
+interface CreateIndexChange {
+	type: SchemaChangeType.CreateIndex;
+	table: string;
+	index: IndexDefinition;
+}
+
+/** The change that adds a check constraint to a table */
+interface CreateCheckChange {
+	type: SchemaChangeType.CreateCheck;
+	table: string;
+	check: CheckDefinition;
+}
+
+/** The change that adds a foreign key to a table */
+interface CreateForeignKeyChange {
+	type: SchemaChangeType.CreateForeignKey;
+	table: string;
+	foreignKey: ForeignKeyDefinition;
+}
+
+/** A single change that is needed to synchronize the database schema with the table definitions */
+export type SchemaChange =
+	CreateEnumChange | AddEnumValuesChange | CreateTableChange | DropForeignKeyChange | DropCheckChange |
+	DropIndexChange | CreateColumnChange | AlterColumnChange | DropColumnChange | CreateIndexChange |
+	CreateCheckChange | CreateForeignKeyChange;
+
+/** The options for {@link SchemaSynchronizer.sync} */
+export interface SchemaSyncOptions {
+	/** If `true`, the changes will be only logged as a plan, but not applied */
+	dryRun: boolean;
+	/**
+	 * Either `true` to allow dropping any column or the list of columns in the format `table.column`
+	 * that are allowed to be dropped. By default, dropping columns is blocked, as it causes data loss
+	 */
+	allowDropColumns: boolean | string[];
+}
\ No newline at end of file
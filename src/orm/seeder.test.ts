@@ -0,0 +1,79 @@
+import assert from "assert/strict";
+import fs from "fs/promises";
+import {after, test} from "node:test";
+import os from "os";
+import path from "path";
+import DB from "./db.js";
+import {Row} from "./db.typings.js";
+import Seeder from "./seeder.js";
+
+const db = new DB("postgres://localhost/test-draco-ts");
+after(async () => {
+	await db.close();
+});
+
+test("load", async () => {
+	const fixtureDir = await fs.mkdtemp(path.join(os.tmpdir(), "fixtures-"));
+	process.env.FIXTURE_DIR = fixtureDir;
+	try {
+		await fs.mkdir(path.join(fixtureDir, "dev"));
+		await fs.mkdir(path.join(fixtureDir, "test-combat"));
+		await fs.writeFile(path.join(fixtureDir, "dev", "guilds.yaml"), "guild:\n  dragons: {name: Dragons}\n");
+		await fs.writeFile(
+			path.join(fixtureDir, "test-combat", "users.json"), `{"user": {"luka": {"guild_id": "@dragons"}}}`
+		);
+		await fs.writeFile(path.join(fixtureDir, "test-combat", "readme.txt"), "Not a fixture");
+		assert.deepEqual(await Seeder.load(["dev", "test-combat"]), {
+			guild: {dragons: {name: "Dragons"}},
+			user: {luka: {"guild_id": "@dragons"}},
+		});
+		await assert.rejects(Seeder.load(["dev", "dev"]), /multiple times/);
+	} finally {
+		delete process.env.FIXTURE_DIR;
+		await fs.rm(fixtureDir, {recursive: true});
+	}
+});
+
+test("seedData", async ctx => {
+	const inserted: [string, Row[]][] = [];
+	let lastId = 0;
+	const returnRows = (table: string, rows: Row[]): Promise<Row[]> => {
+		inserted.push([table, rows]);
+		return Promise.resolve(rows.map(row => ({id: ++lastId, ...row})));
+	};
+	ctx.mock.method(db, "runTransaction", (cb: (db: DB) => Promise<void>) => cb(db));
+	const insert = ctx.mock.method(db, "insert", returnRows);
+	const upsert = ctx.mock.method(db, "upsert", returnRows);
+	const syncSequence = ctx.mock.method(db, "syncSequence", () => Promise.resolve());
+
+	const result = await Seeder.seedData(db, {
+		user: {
+			luka: {name: "Luka", "guild_id": "@dragons", title: "@@sama"},
+			sama: {name: "Sama", "guild_id": "@dragons"},
+		},
+		guild: {dragons: {id: 10, name: "Dragons", "owner_id": null}},
+	});
+	assert.deepEqual(inserted, [
+		["guild", [{id: 10, name: "Dragons", "owner_id": null}]],
+		["user", [{name: "Luka", "guild_id": 10, title: "@sama"}]],
+		["user", [{name: "Sama", "guild_id": 10}]],
+	]);
+	assert.deepEqual(Array.from(result.keys()), ["dragons", "luka", "sama"]);
+	assert.equal(insert.mock.callCount(), 3);
+	assert.deepEqual(syncSequence.mock.calls.map(call => call.arguments), [["guild", "id"]]);
+
+	inserted.length = 0;
+	await Seeder.seedData(db, {guild: {dragons: {name: "Dragons"}}}, {upsert: true, conflictTargets: {guild: ["name"]}});
+	assert.deepEqual(upsert.mock.calls[0].arguments, ["guild", [{name: "Dragons"}], ["name"], ["name"], {returning: ["*"]}]);
+	await assert.rejects(
+		Seeder.seedData(db, {guild: {dragons: {name: "Dragons"}}}, {upsert: true}),
+		/dragons should specify id to be upserted/
+	);
+	assert.equal(upsert.mock.callCount(), 1);
+
+	await assert.rejects(Seeder.seedData(db, {user: {luka: {"guild_id": "@dragons"}}}), /unknown fixture dragons/);
+	await assert.rejects(
+		Seeder.seedData(db, {user: {luka: {"friend_id": "@sama"}, sama: {"friend_id": "@luka"}}}),
+		/circular references/
+	);
+});
\ No newline at end of file
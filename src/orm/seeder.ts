@@ -0,0 +1,312 @@
+import assert from "assert/strict";
+import "dotenv/config";
+import fs from "fs/promises";
+import _ from "lodash";
+import path from "path";
+import YAML from "yaml";
+import MapUtil from "../collection-utils/map-util.js";
+import Logger from "../core/logger.js";
+import DB from "./db.js";
+import {DBValue, Row} from "./db.typings.js";
+import ORM from "./orm.js";
+import {EntityMetadata, RelationMetadata, RelationType} from "./orm.typings.js";
+
+/**
+ * The fixtures. A map whose keys are entity class names (or table names) and values are maps
+ * whose keys are the symbolic keys of the fixtures and values are the fixtures (property or column values)
+ */
+export interface FixtureData {
+	[entityOrTable: string]: {[key: string]: {[propertyOrColumn: string]: unknown}};
+}
+
+/** The seeding options, see {@link Seeder.seed} */
+export interface SeedOptions {
+	/**
+	 * If `true`, the fixtures are upserted instead of inserted, so that the seeding can be repeated.
+	 * The rows are identified by the primary key, unless a conflict target is specified
+	 * in {@link SeedOptions.conflictTargets}. Each fixture should specify the columns of its conflict target
+	 * (e.g. the id), otherwise the seeding fails, since such fixtures would be duplicated on every seeding
+	 */
+	upsert: boolean;
+	/** A map whose keys are tables and values are the columns (with a unique index) that identify the rows on upsert */
+	conflictTargets: {[table: string]: string[]};
+}
+
+/** A reference to another fixture by its symbolic key, e.g. `@luka` */
+class FixtureReference {
+	public constructor(public readonly key: string) {
+	}
+}
+
+/** A fixture that should be inserted */
+interface Fixture {
+	key: string;
+	table: string;
+	/** The info about the entity, if the fixture is specified for an entity class rather than a table */
+	metadata?: EntityMetadata;
+	/** The property or column values, the references are resolved before inserting */
+	values: {[propertyOrColumn: string]: unknown};
+	/** The keys of the fixtures that should be inserted before this one */
+	dependencies: Set<string>;
+}
+
+/** The rows of a join table that should be inserted after all fixtures */
+interface JoinTableRows {
+	/** The columns of the primary key */
+	columns: string[];
+	rows: Row[];
+}
+
+/**
+ * This class seeds the database with fixtures, e.g. to set up a test world or a fresh development database.
+ *
+ * The fixtures are stored in the named fixture sets: the directories in `FIXTURE_DIR` (by default `fixtures/`)
+ * with JSON or YAML files, e.g. `fixtures/dev/guilds.yaml`. Each file contains the fixtures keyed by entity class name
+ * (the property names are used then) or by table name (the column names are used then), for example:
+ * ```yaml
+ * Guild:
+ *   dragons: {name: Dragons}
+ * Member:
+ *   luka: {name: Luka, guild: "@dragons", friends: ["@sama"]}
+ *   sama: {name: Sama, guild: "@dragons"}
+ * guild_log:
+ *   founded: {guild_id: "@dragons", text: Founded}
+ * ```
+ * Each fixture has a symbolic key that is unique in all loaded sets. Any string value that starts with `@`
+ * is a reference to the fixture with this key, it is replaced with its id (use `@@` for a string that starts with `@`).
+ * The referenced fixtures are inserted first, and the many-to-many relations are inserted in the end.
+ * All fixtures are inserted in one transaction
+ */
+export default class Seeder {
+	private static readonly logger = new Logger(Seeder);
+
+	/**
+	 * Loads the given fixture sets and inserts them in the dependency order (see {@link Seeder}).
+	 * Returns a map whose keys are the symbolic keys and values are the inserted rows
+	 */
+	public static async seed(db: DB, sets: string[], options?: Partial<SeedOptions>): Promise<Map<string, Row>> {
+		const result = await Seeder.seedData(db, await Seeder.load(sets), options);
+		Seeder.logger.info(`Seeded ${result.size} fixture(s) from ${sets.join(", ")}.`);
+		return result;
+	}
+
+	/** Loads and merges the fixtures of the given sets from `FIXTURE_DIR` */
+	public static async load(sets: string[]): Promise<FixtureData> {
+		const fixtureDir = process.env.FIXTURE_DIR || "fixtures/";
+		const result: FixtureData = {};
+		for (const set of sets) {
+			const setDir = path.join(fixtureDir, set);
+			const fileNames = (await fs.readdir(setDir)).filter(fileName => /\.(json|ya?ml)$/.test(fileName)).sort();
+			for (const fileName of fileNames) {
+				const text = await fs.readFile(path.join(setDir, fileName), "utf8");
+				const data = (fileName.endsWith(".json") ? JSON.parse(text) : YAML.parse(text)) as FixtureData | null;
+				for (const [entityOrTable, fixtures] of Object.entries(data ?? {})) {
+					result[entityOrTable] ??= {};
+					for (const [key, values] of Object.entries(fixtures)) {
+						assert(!(key in result[entityOrTable]), `The fixture ${key} is specified multiple times.`);
+						result[entityOrTable][key] = values;
+					}
+				}
+			}
+		}
+		return result;
+	}
+
+	/** Inserts the given fixtures, see {@link Seeder.seed} */
+	public static async seedData(db: DB, data: FixtureData, options?: Partial<SeedOptions>): Promise<Map<string, Row>> {
+		const fixtures = Seeder.prepare(data);
+		if (options?.upsert) {
+			fixtures.forEach(fixture => Seeder.checkConflictTarget(fixture, options));
+		}
+		const inserted = new Map<string, Row>;
+		const joinTables = new Map<string, JoinTableRows>;
+		await db.runTransaction(async db => {
+			for (const wave of Seeder.sort(fixtures)) {
+				const groups = new Map<string, {table: string, fixtures: Fixture[], rows: Row[]}>;
+				for (const fixture of wave) {
+					const row = Seeder.toRow(fixture, inserted);
+					const groupKey = `${fixture.table}/${Object.keys(row).sort().join(",")}`;
+					const group = MapUtil.get(groups, groupKey, {table: fixture.table, fixtures: [], rows: []});
+					group.fixtures.push(fixture);
+					group.rows.push(row);
+				}
+				for (const {table, fixtures, rows} of groups.values()) {
+					const insertedRows = await Seeder.insert(db, table, rows, options);
+					fixtures.forEach((fixture, i) => inserted.set(fixture.key, insertedRows[i]));
+				}
+			}
+
+			for (const fixture of fixtures.values()) {
+				Seeder.addJoinTableRows(fixture, inserted, joinTables);
+			}
+			for (const [table, {columns, rows}] of joinTables) {
+				await (options?.upsert ? db.upsert(table, rows, columns, []) : db.insert(table, rows));
+			}
+			for (const table of new Set(Array.from(fixtures.values())
+				.filter(fixture => "id" in fixture.values)
+				.map(fixture => fixture.table))
+			) {
+				await db.syncSequence(table, "id");
+			}
+		});
+		return inserted;
+	}
+
+	/** Transforms the given data to the fixtures: finds the entities and the references */
+	private static prepare(data: FixtureData): Map<string, Fixture> {
+		const entities = new Map(ORM.getAllMetadata().map(metadata => [metadata.EntityClass.name, metadata]));
+		const result = new Map<string, Fixture>;
+		for (const [entityOrTable, fixtures] of Object.entries(data)) {
+			const metadata = entities.get(entityOrTable);
+			for (const [key, rawValues] of Object.entries(fixtures)) {
+				assert(!result.has(key), `The fixture ${key} is specified multiple times.`);
+				const values = _.mapValues(rawValues, Seeder.parseValue);
+				const dependencies = new Set<string>;
+				for (const [name, value] of Object.entries(values)) {
+					if (metadata?.relations.get(name)?.type == RelationType.ManyToMany) {
+						continue;
+					}
+					for (const item of (value instanceof Array ? value : [value])) {
+						if (item instanceof FixtureReference) {
+							dependencies.add(item.key);
+						}
+					}
+				}
+				result.set(key, {key, table: metadata?.table ?? entityOrTable, metadata, values, dependencies});
+			}
+		}
+
+		for (const fixture of result.values()) {
+			for (const dependency of fixture.dependencies) {
+				assert(result.has(dependency), `The fixture ${fixture.key} refers to the unknown fixture ${dependency}.`);
+			}
+		}
+		return result;
+	}
+
+	/** Asserts that the given fixture specifies the columns that identify its row on upsert, see {@link SeedOptions} */
+	private static checkConflictTarget(fixture: Fixture, options: Partial<SeedOptions>): void {
+		const conflictTarget = options.conflictTargets?.[fixture.table] ?? ["id"];
+		const columns = Object.keys(fixture.values).flatMap(name => (
+			fixture.metadata?.properties.get(name)?.fields.map(field => field.name) ?? [name]
+		));
+		assert(
+			conflictTarget.every(column => columns.includes(column)),
+			`The fixture ${fixture.key} should specify ${conflictTarget.join(", ")} to be upserted (or set conflictTargets).`
+		);
+	}
+
+	/** Replaces the strings like `@key` (also in arrays) with the references. `@@` is replaced with `@` */
+	private static parseValue(value: unknown): unknown {
+		if (value instanceof Array) {
+			return value.map(Seeder.parseValue);
+		} else if (typeof value == "string" && value.startsWith("@@")) {
+			return value.slice(1);
+		} else if (typeof value == "string" && value.startsWith("@")) {
+			return new FixtureReference(value.slice(1));
+		}
+		return value;
+	}
+
+	/**
+	 * Sorts the fixtures in the dependency order. Returns the waves: each wave contains the fixtures
+	 * whose dependencies are in the previous waves
+	 */
+	private static sort(fixtures: Map<string, Fixture>): Fixture[][] {
+		const result: Fixture[][] = [];
+		const sorted = new Set<string>;
+		let pending = Array.from(fixtures.values());
+		while (pending.length > 0) {
+			const wave = pending.filter(fixture => Array.from(fixture.dependencies).every(key => sorted.has(key)));
+			assert(
+				wave.length > 0,
+				`The fixtures ${pending.map(fixture => fixture.key).join(", ")} have circular references.`
+			);
+			for (const fixture of wave) {
+				sorted.add(fixture.key);
+			}
+			pending = pending.filter(fixture => !sorted.has(fixture.key));
+			result.push(wave);
+		}
+		return result;
+	}
+
+	/** Returns the row to insert for the given fixture. The referenced fixtures should be already inserted */
+	private static toRow(fixture: Fixture, inserted: Map<string, Row>): Row {
+		const {metadata} = fixture;
+		const row: Row = {};
+		for (const [name, value] of Object.entries(fixture.values)) {
+			const resolved = Seeder.resolve(value, inserted);
+			const relation = metadata?.relations.get(name);
+			const property = metadata?.properties.get(name);
+			if (!metadata) {
+				row[name] = resolved as DBValue;
+			} else if (relation) {
+				assert(
+					relation.type != RelationType.OneToMany,
+					`Set ${metadata.EntityClass.name}.${name} in the fixtures of the related entity instead.`
+				);
+				if (relation.type == RelationType.ManyToOne) {
+					row[property!.fields[0].name] = resolved as DBValue;
+				}
+			} else if (property) {
+				const values = property.toDB(resolved);
+				property.fields.forEach((field, i) => row[field.name] = values[i]);
+			} else {
+				assert(
+					metadata.fields.some(field => field.name == name),
+					`Unknown property or column ${name} in the fixture ${fixture.key}.`
+				);
+				row[name] = resolved as DBValue;
+			}
+		}
+		if (metadata?.versionColumn && row[metadata.versionColumn] === undefined) {
+			row[metadata.versionColumn] = 1;
+		}
+		return row;
+	}
+
+	/** Replaces the references in the given value (or array) with the ids of the inserted fixtures */
+	private static resolve(value: unknown, inserted: Map<string, Row>): unknown {
+		if (value instanceof Array) {
+			return value.map(item => Seeder.resolve(item, inserted));
+		} else if (value instanceof FixtureReference) {
+			const row = inserted.get(value.key);
+			assert(row, `The fixture ${value.key} should be inserted before it is referenced.`);
+			assert(row.id !== undefined, `The fixture ${value.key} is referenced, but it has no id.`);
+			return row.id;
+		}
+		return value;
+	}
+
+	/** Inserts (or upserts) the given rows of the same table. Returns the inserted rows in the same order */
+	private static async insert(db: DB, table: string, rows: Row[], options?: Partial<SeedOptions>): Promise<Row[]> {
+		if (!options?.upsert) {
+			return await db.insert(table, rows, {returning: ["*"]});
+		}
+		const conflictTarget = options.conflictTargets?.[table] ?? ["id"];
+		const columns = Object.keys(rows[0]).filter(column => !conflictTarget.includes(column));
+		// Without the columns to update, the existing rows would not be returned
+		const updateColumns = (columns.length > 0 ? columns : conflictTarget);
+		return await db.upsert(table, rows, conflictTarget, updateColumns, {returning: ["*"]});
+	}
+
+	/** Adds the join table rows for the many-to-many relations of the given fixture */
+	private static addJoinTableRows(
+		fixture: Fixture, inserted: Map<string, Row>, joinTables: Map<string, JoinTableRows>
+	): void {
+		for (const [name, value] of Object.entries(fixture.values)) {
+			const relation = fixture.metadata?.relations.get(name);
+			if (relation?.type != RelationType.ManyToMany) {
+				continue;
+			}
+			assert(value instanceof Array, `The fixture ${fixture.key} should contain an array of references in ${name}.`);
+			const {joinTable, sourceColumn, targetColumn} = relation as Required<RelationMetadata>;
+			const id = inserted.get(fixture.key)!.id;
+			const joinTableRows = MapUtil.get(joinTables, joinTable, {columns: [sourceColumn, targetColumn], rows: []});
+			for (const relatedId of Seeder.resolve(value, inserted) as DBValue[]) {
+				joinTableRows.rows.push({[sourceColumn]: id, [targetColumn]: relatedId});
+			}
+		}
+	}
+}
\ No newline at end of file
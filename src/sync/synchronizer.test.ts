@@ -0,0 +1,102 @@
+import assert from "assert/strict";
+import _ from "lodash";
+import {before, test} from "node:test";
+import {Int32, Typings} from "../core/typings.js";
+import {Vec2i, Vector2i} from "../math/vector.js";
+import Message from "../net/message.js";
+import Protobuf from "../net/protobuf.js";
+import Session from "../net/session.js";
+import Entity from "../orm/entity.js";
+import {EntityOptions} from "../orm/orm.typings.js";
+import ClassLoader from "../type-analyzer/class-loader.js";
+import TypeAnalyzer from "../type-analyzer/type-analyzer.js";
+import Synchronizer from "./synchronizer.js";
+import Zone from "./zone.js";
+
+export class TestUnit extends Entity {
+	public static options: EntityOptions = {synced: ["name", "hp", "position"]};
+	public name!: string;
+	public hp!: Int32;
+	public position!: Vector2i;
+	public secret!: string;
+	public session?: Session;
+}
+
+before(async () => {
+	TypeAnalyzer.init(["**/sync/*.d.ts", "**/orm/*.d.ts", "**/typings.d.ts", "**/vector.d.ts"]);
+	const typings = await ClassLoader.findOrThrow(Typings);
+	Protobuf.init([await ClassLoader.findOrThrowWithInfo(Vector2i)], [], [], 1, typings);
+	Synchronizer.init([await ClassLoader.findOrThrowWithInfo(TestUnit)], typings);
+});
+
+test("init", () => {
+	const typeInfo = Protobuf.typeInfos.find(typeInfo => typeInfo.name == "TestUnitSyncMessage");
+	assert.deepEqual(typeInfo?.fields.map(field => field.name), ["id", "name", "hp", "position", "removed"]);
+});
+
+test("observe, synchronize and unobserve", async ctx => {
+	const session = await Session.create();
+	const sent: Message[] = [];
+	ctx.mock.method(session, "send", (message: Message) => sent.push(message));
+	const getSent = (): object[] => sent.map(message => _.omitBy({...message}, (value, key) => (
+		value === undefined || key == "created"
+	)));
+	const unit = Object.assign(new TestUnit, {id: 1, name: "Luka", hp: 100, position: Vec2i(1, 2), secret: "Sama"});
+	unit.hp = 90;
+	Synchronizer.synchronize();
+	assert.equal(sent.length, 0);
+
+	Synchronizer.observe(session, unit);
+	Synchronizer.observe(session, unit);
+	assert.equal(sent[0].constructor.name, "TestUnitSyncMessage");
+	assert.deepEqual(getSent(), [{id: 1, name: "Luka", hp: 90, position: Vec2i(1, 2)}]);
+
+	unit.secret = "Test";
+	unit.hp = 80;
+	unit.hp = 70;
+	Synchronizer.synchronize();
+	Synchronizer.synchronize();
+	assert.deepEqual(getSent().slice(1), [{id: 1, hp: 70}]);
+	// The unchanged properties are not encoded at all
+	assert(Protobuf.encode(sent[1]).length < Protobuf.encode(sent[0]).length);
+
+	Synchronizer.unobserve(session, unit);
+	unit.hp = 60;
+	Synchronizer.synchronize();
+	assert.deepEqual(getSent().slice(2), [{id: 1, removed: true}]);
+
+	Synchronizer.observe(session, unit);
+	session.close();
+	assert.equal(Synchronizer.getObservers(unit).size, 0);
+	assert.equal(sent.length, 4);
+});
+test("syncNewZones", async ctx => {
+	const session = await Session.create();
+	const sent: [number, boolean][] = [];
+	ctx.mock.method(session, "send", (message: Message) => {
+		const {id, removed} = message as unknown as TestUnit & {removed: boolean};
+		sent.push([id, removed]);
+	});
+	const player = Object.assign(new TestUnit, {id: 1, session});
+	const unit = Object.assign(new TestUnit, {id: 2});
+	Zone.place(player, Vec2i(0, 0));
+	Zone.place(unit, Vec2i(40, 40));
+	Synchronizer.syncNewZones();
+	assert.deepEqual(sent, [[1, undefined], [2, undefined]]);
+
+	Zone.place(unit, Vec2i(50, 50));
+	Synchronizer.syncNewZones();
+	assert.equal(sent.length, 2);
+	Zone.place(unit, Vec2i(70, 0));
+	Synchronizer.syncNewZones();
+	assert.deepEqual(sent.slice(2), [[2, true]]);
+	Zone.place(player, Vec2i(40, 0));
+	Synchronizer.syncNewZones();
+	assert.deepEqual(sent.slice(3), [[2, undefined]]);
+
+	Zone.remove(player);
+	Synchronizer.syncNewZones();
+	assert.deepEqual(sent.slice(4), [[1, true], [2, true]]);
+	assert.equal(Synchronizer.getObservers(unit).size, 0);
+	Zone.stop();
+});
\ No newline at end of file
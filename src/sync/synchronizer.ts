@@ -0,0 +1,281 @@
+import assert from "assert/strict";
+import MapUtil from "../collection-utils/map-util.js";
+import Logger from "../core/logger.js";
+import {Class, Constructor} from "../core/typings.js";
+import Message from "../net/message.js";
+import Protobuf from "../net/protobuf.js";
+import Session from "../net/session.js";
+import Entity from "../orm/entity.js";
+import ClassInfo, {ClassWithInfo} from "../type-analyzer/class-info.js";
+import {Kind, PropertyInfo} from "../type-analyzer/type-analyzer.typings.js";
+import Zone from "./zone.js";
+
+/** The info about an entity class with synced properties */
+interface SyncedClass {
+	/** The generated message class, see {@link Synchronizer} */
+	MessageClass: typeof Message & Constructor<Message>;
+	/** The names of the synced properties */
+	properties: string[];
+}
+
+/** The entities that a session observes because they are in its area of interest, see {@link Synchronizer.syncNewZones} */
+interface Interest {
+	/** The zone of the authorized entity of the session when the interest was updated */
+	zone: Zone;
+	entities: Set<Entity>;
+}
+
+/**
+ * This class synchronizes the entities with the clients. The changes of the synced properties of the entities
+ * (see {@link EntityOptions.synced}) are collected as they happen, and {@link Synchronizer.synchronize}
+ * (that should be called periodically, see {@link AppConfig.syncFrequency}) sends them to the sessions
+ * that observe these entities.
+ *
+ * For each entity class with synced properties, the message `<Entity>SyncMessage` is generated.
+ * It contains the id, the synced properties and the flag `removed`. An update only contains the changed properties
+ * (other fields are not encoded at all). The full state is sent when a session starts observing an entity,
+ * and the message with `removed` set is sent when it stops observing the entity or the entity is removed.
+ * Example of use:
+ * ```ts
+ * export class Unit extends Entity {
+ *   public static options: EntityOptions = {synced: ["name", "position"]};
+ *   public name!: string;
+ *   public position!: Vector2i;
+ * }
+ *
+ * Synchronizer.observe(session, unit); // UnitSyncMessage {id, name, position} is sent
+ * unit.position = Vec2i(1, 2); // UnitSyncMessage {id, position} is sent on the next sync
+ * Synchronizer.unobserve(session, unit); // UnitSyncMessage {id, removed} is sent
+ * ```
+ * The sessions can also observe the entities automatically, see {@link Synchronizer.syncNewZones}.
+ */
+export default class Synchronizer {
+	private static readonly logger = new Logger(Synchronizer);
+	/** A map whose keys are entity classes and values are the info about their synced properties */
+	private static readonly syncedClasses = new Map<Class, SyncedClass>;
+	/** A map whose keys are the observed entities and values are the sessions that observe them */
+	private static readonly observers = new Map<Entity, Set<Session>>;
+	/** A map whose keys are sessions and values are the entities that they observe */
+	private static readonly observedEntities = new Map<Session, Set<Entity>>;
+	/** A map whose keys are the observed entities and values are their properties changed since the last sync */
+	private static readonly changes = new Map<Entity, Set<string>>;
+	/** A map whose keys are sessions and values are the entities that they observe because they are nearby */
+	private static readonly interests = new Map<Session, Interest>;
+	/** The zones that entities entered or left since the last {@link Synchronizer.syncNewZones} */
+	private static readonly changedZones = new Set<Zone>;
+
+	/**
+	 * Generates the sync messages for the given entities that have synced properties
+	 * and adds them to {@link Protobuf}, so it should be called before the users are connected
+	 */
+	public static init(entities: ClassWithInfo[], typings: ClassInfo): void {
+		for (const [EntityClass, classInfo] of entities) {
+			const synced = (EntityClass as typeof Entity).options.synced ?? [];
+			if (synced.length < 1 || Synchronizer.syncedClasses.has(EntityClass)) {
+				continue;
+			}
+			// The properties of the class override the properties of its parents
+			const propertyInfos = new Map(
+				classInfo.getAllProperties().slice().reverse().map(property => [property.name, property])
+			);
+			const properties: PropertyInfo[] = [];
+			const syncedNames: string[] = [];
+			for (const name of new Set(["id", ...synced])) {
+				const property = propertyInfos.get(name);
+				if (!property || property.static) {
+					Synchronizer.logger.error(`The synced property ${classInfo.name}.${name} was not found.`);
+					continue;
+				}
+				// Any field can be omitted in an update
+				properties.push({...property, optional: true});
+				if (name != "id") {
+					syncedNames.push(name);
+				}
+			}
+			properties.push({
+				name: "removed", optional: true, static: false,
+				type: {name: "boolean", fullName: "boolean", kind: Kind.Boolean, subtypes: []},
+			});
+
+			const name = `${classInfo.name}SyncMessage`;
+			const MessageClass = {[name]: class extends Message {}}[name];
+			Protobuf.addMessage(MessageClass, properties, typings);
+			Synchronizer.syncedClasses.set(EntityClass, {MessageClass, properties: syncedNames});
+		}
+		Zone.on("enter", Synchronizer.zoneChanged);
+		Zone.on("leave", Synchronizer.zoneChanged);
+	}
+
+	/** Forgets all observers and the collected changes */
+	public static stop(): void {
+		Zone.off("enter", Synchronizer.zoneChanged);
+		Zone.off("leave", Synchronizer.zoneChanged);
+		Synchronizer.observers.clear();
+		Synchronizer.observedEntities.clear();
+		Synchronizer.changes.clear();
+		Synchronizer.interests.clear();
+		Synchronizer.changedZones.clear();
+	}
+
+	/**
+	 * Remembers that the given property of the given entity was changed, so that it will be sent on the next sync
+	 * if it is synced and the entity is observed. It is called by {@link ORM.trackChange}
+	 */
+	public static trackChange(entity: Entity, propertyName: string): void {
+		if (
+			Synchronizer.observers.has(entity) &&
+			Synchronizer.syncedClasses.get(entity.constructor as Class)?.properties.includes(propertyName)
+		) {
+			MapUtil.getSet(Synchronizer.changes, entity).add(propertyName);
+		}
+	}
+
+	/** Sends the changes of the observed entities since the last sync to the sessions that observe them */
+	public static synchronize(): void {
+		for (const [entity, propertyNames] of Synchronizer.changes) {
+			const sessions = Synchronizer.observers.get(entity);
+			if (sessions) {
+				Synchronizer.createMessage(entity, propertyNames).send(sessions);
+			}
+		}
+		Synchronizer.changes.clear();
+	}
+
+	/**
+	 * Starts sending the changes of the given entity to the given session. The full state is sent immediately.
+	 * The entity class should have synced properties
+	 */
+	public static observe(session: Session, entity: Entity): void {
+		const {properties} = Synchronizer.getSyncedClass(entity);
+		const sessions = MapUtil.getSet(Synchronizer.observers, entity);
+		if (sessions.has(session)) {
+			return;
+		}
+		sessions.add(session);
+		MapUtil.getSet(Synchronizer.observedEntities, session).add(entity);
+		Synchronizer.createMessage(entity, properties).send(session);
+	}
+
+	/** Stops sending the changes of the given entity to the given session. The removal message is sent */
+	public static unobserve(session: Session, entity: Entity): void {
+		if (Synchronizer.stopObserving(session, entity)) {
+			Synchronizer.createMessage(entity, [], true).send(session);
+		}
+	}
+
+	/**
+	 * Stops sending the changes of the given entity to all sessions (e.g. when it is removed).
+	 * The removal messages are sent. It is called by {@link ORM.remove}
+	 */
+	public static unobserveEntity(entity: Entity): void {
+		for (const session of Array.from(Synchronizer.observers.get(entity) ?? [])) {
+			Synchronizer.unobserve(session, entity);
+		}
+	}
+
+	/**
+	 * Makes the sessions observe the entities with synced properties in their areas of interest
+	 * (i.e. near the zones of their authorized entities, see {@link Zone}) and stop observing the entities
+	 * that are no longer there. The area of interest of a session is only recalculated if its entity moved
+	 * to another zone or some entity entered or left a zone nearby. It should be called periodically
+	 */
+	public static syncNewZones(): void {
+		const sessions = new Set<Session>;
+		for (const zone of Zone.getAll()) {
+			for (const session of zone.getSessions()) {
+				sessions.add(session);
+				const interest = Synchronizer.interests.get(session);
+				if (
+					interest?.zone == zone &&
+					!Array.from(Synchronizer.changedZones).some(changedZone => zone.isNearby(changedZone.position))
+				) {
+					continue;
+				}
+				const entities = Array.from(zone.getNearbyEntities())
+					.filter(entity => Synchronizer.syncedClasses.has(entity.constructor as Class));
+				Synchronizer.updateInterest(session, new Set(entities), zone);
+			}
+		}
+		for (const session of Array.from(Synchronizer.interests.keys())) {
+			if (!sessions.has(session)) {
+				Synchronizer.updateInterest(session, new Set);
+			}
+		}
+		Synchronizer.changedZones.clear();
+	}
+
+	/** Stops sending the changes to the given session without sending any messages, it is called when it is closed */
+	public static forgetSession(session: Session): void {
+		Synchronizer.interests.delete(session);
+		for (const entity of Array.from(Synchronizer.observedEntities.get(session) ?? [])) {
+			Synchronizer.stopObserving(session, entity);
+		}
+	}
+
+	/** Returns the sessions that observe the given entity */
+	public static getObservers(entity: Entity): ReadonlySet<Session> {
+		return Synchronizer.observers.get(entity) ?? new Set;
+	}
+
+	/** Remembers the zone that an entity entered or left, see {@link Synchronizer.syncNewZones} */
+	private static zoneChanged(entity: Entity, zone: Zone): void {
+		Synchronizer.changedZones.add(zone);
+	}
+
+	/**
+	 * Makes the given session observe the given nearby entities instead of the ones that were nearby before.
+	 * If the zone is not specified, the session no longer has an area of interest
+	 */
+	private static updateInterest(session: Session, entities: Set<Entity>, zone?: Zone): void {
+		const previousEntities = Synchronizer.interests.get(session)?.entities ?? new Set<Entity>;
+		for (const entity of previousEntities) {
+			if (!entities.has(entity)) {
+				Synchronizer.unobserve(session, entity);
+			}
+		}
+		for (const entity of entities) {
+			if (!previousEntities.has(entity)) {
+				Synchronizer.observe(session, entity);
+			}
+		}
+		if (zone) {
+			Synchronizer.interests.set(session, {zone, entities});
+		} else {
+			Synchronizer.interests.delete(session);
+		}
+	}
+
+	/** Removes the given session from the observers of the given entity. Returns `false` if it was not observing */
+	private static stopObserving(session: Session, entity: Entity): boolean {
+		const sessions = Synchronizer.observers.get(entity);
+		if (!sessions?.delete(session)) {
+			return false;
+		}
+		if (sessions.size < 1) {
+			Synchronizer.observers.delete(entity);
+			Synchronizer.changes.delete(entity);
+		}
+		const entities = Synchronizer.observedEntities.get(session)!;
+		entities.delete(entity);
+		if (entities.size < 1) {
+			Synchronizer.observedEntities.delete(session);
+		}
+		return true;
+	}
+
+	/** Creates the sync message with the id and the given properties of the given entity */
+	private static createMessage(entity: Entity, propertyNames: Iterable<string>, removed?: boolean): Message {
+		const params: {[propertyName: string]: unknown} = {id: entity.id, removed};
+		for (const propertyName of propertyNames) {
+			params[propertyName] = Reflect.get(entity, propertyName);
+		}
+		return Synchronizer.getSyncedClass(entity).MessageClass.create(params);
+	}
+
+	/** Returns the info about the synced properties of the class of the given entity */
+	private static getSyncedClass(entity: Entity): SyncedClass {
+		const syncedClass = Synchronizer.syncedClasses.get(entity.constructor as Class);
+		assert(syncedClass, `The entity ${entity.constructor.name} has no synced properties.`);
+		return syncedClass;
+	}
+}
\ No newline at end of file
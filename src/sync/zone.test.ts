@@ -0,0 +1,74 @@
+import assert from "assert/strict";
+import {afterEach, test} from "node:test";
+import {Vec2i} from "../math/vector.js";
+import Message from "../net/message.js";
+import Session from "../net/session.js";
+import Entity from "../orm/entity.js";
+import Zone, {ZoneEvent} from "./zone.js";
+
+class TestEntity extends Entity {
+	public session?: Session;
+}
+
+afterEach(() => {
+	Zone.stop();
+});
+
+test("place and remove", () => {
+	const events: [ZoneEvent, Entity, string][] = [];
+	Zone.on("enter", (entity, zone) => events.push(["enter", entity, zone.position.toString()]));
+	Zone.on("leave", (entity, zone) => events.push(["leave", entity, zone.position.toString()]));
+	const entity = new TestEntity;
+	const zone = Zone.place(entity, Vec2i(40, -1));
+	assert.deepEqual(zone.position, Vec2i(1, -1));
+	assert.equal(Zone.getAt(Vec2i(63, -32)), zone);
+	assert.equal(Zone.getByEntity(entity), zone);
+	assert.deepEqual(Array.from(zone.getEntities()), [entity]);
+	assert.equal(Zone.place(entity, Vec2i(33, -10)), zone);
+	assert.deepEqual(events, [["enter", entity, "(1, -1)"]]);
+
+	const nextZone = Zone.place(entity, Vec2i(64, 0));
+	assert.deepEqual(nextZone.position, Vec2i(2, 0));
+	assert.equal(Zone.get(Vec2i(1, -1)), undefined);
+	Zone.remove(entity);
+	Zone.remove(entity);
+	assert.equal(Zone.getByEntity(entity), undefined);
+	assert.deepEqual(Array.from(Zone.getAll()), []);
+	assert.deepEqual(events.slice(1), [
+		["leave", entity, "(1, -1)"],
+		["enter", entity, "(2, 0)"],
+		["leave", entity, "(2, 0)"],
+	]);
+});
+
+test("area of interest", ctx => {
+	const session = {send: ctx.mock.fn()} as unknown as Session;
+	const farSession = {send: ctx.mock.fn()} as unknown as Session;
+	const player = Object.assign(new TestEntity, {session});
+	const farPlayer = Object.assign(new TestEntity, {session: farSession});
+	const loggedOutPlayer = new TestEntity;
+	const item = new TestEntity;
+	const zone = Zone.place(player, Vec2i(0, 0));
+	Zone.place(farPlayer, Vec2i(64, 64));
+	Zone.place(loggedOutPlayer, Vec2i(-1, -1));
+	Zone.place(item, Vec2i(32, 32));
+
+	assert.deepEqual(Array.from(zone.getSessions()), [session]);
+	assert(zone.isNearby(Vec2i(-1, 1)));
+	assert(!zone.isNearby(Vec2i(2, 0)));
+	assert.deepEqual(
+		zone.getNearbyZones().map(nearbyZone => nearbyZone.position), [Vec2i(-1, -1), Vec2i(0, 0), Vec2i(1, 1)]
+	);
+	assert.deepEqual(zone.getNearbyEntities(), new Set([loggedOutPlayer, player, item]));
+	assert.deepEqual(Zone.getByEntity(item)?.getNearbySessions(), new Set([session, farSession]));
+	const send = ctx.mock.fn();
+	zone.broadcast({send} as unknown as Message);
+	assert.deepEqual(send.mock.calls.map(call => call.arguments), [[new Set([session])]]);
+
+	Zone.interestRadius = 2;
+	try {
+		assert.deepEqual(zone.getNearbySessions(), new Set([session, farSession]));
+	} finally {
+		Zone.interestRadius = 1;
+	}
+});
\ No newline at end of file
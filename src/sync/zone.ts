@@ -0,0 +1,197 @@
+import Logger from "../core/logger.js";
+import {Vec2i, Vector2i} from "../math/vector.js";
+import Message from "../net/message.js";
+import Session from "../net/session.js";
+import {AuthorizableEntity} from "../orm/authorizable-entity.js";
+import Entity from "../orm/entity.js";
+
+/** The zone events: `enter` is fired when an entity enters a zone, `leave` when it leaves a zone */
+export type ZoneEvent = "enter" | "leave";
+/** The listener of the zone events, see {@link Zone.on} */
+export type ZoneListener = (entity: Entity, zone: Zone) => void;
+
+/**
+ * The world is partitioned into zones, i.e. the cells of the fixed size {@link Zone.size}.
+ * The zone with the position `(x, y)` contains the entities whose world positions are
+ * from `(x * size.x, y * size.y)` inclusive to `((x + 1) * size.x, (y + 1) * size.y)` exclusive.
+ *
+ * The zones only know about the entities that were placed with {@link Zone.place}, you should call it
+ * whenever an entity moves (it is cheap if the entity stays in the same zone). The entities are removed from the zones
+ * with {@link Zone.remove}, it is called automatically when the entity is removed (see {@link ORM.remove}).
+ *
+ * The area of interest of a zone (and of the authorized sessions whose entities are in it) is the zone itself
+ * and the zones around it within {@link Zone.interestRadius}. The sessions observe the entities with synced properties
+ * in their areas of interest (see {@link Synchronizer.syncNewZones}), and the messages can be broadcast
+ * to the nearby sessions only with {@link Zone.broadcast}. Example of use:
+ * ```ts
+ * Zone.on("enter", (entity, zone) => logger.info(`${entity.id} entered ${zone.position}`));
+ * Zone.place(character, character.position);
+ * Zone.getByEntity(character)?.broadcast(ChatMessage.create({text: "Hello!"}));
+ * ```
+ * The empty zones are not stored, so {@link Zone.get} returns `undefined` for them.
+ */
+export default class Zone {
+	/** The size of the zones in the world units */
+	public static size = Vec2i(32, 32);
+	/** The area of interest of a zone contains the zones that are not farther than `interestRadius` zones from it */
+	public static interestRadius = 1;
+	private static readonly logger = new Logger(Zone);
+	/** A map whose keys are the zone positions (see {@link Vector.toString}) and values are the non-empty zones */
+	private static readonly zones = new Map<string, Zone>;
+	/** A map whose keys are the placed entities and values are their zones */
+	private static readonly zoneByEntity = new Map<Entity, Zone>;
+	private static readonly listeners: Record<ZoneEvent, Set<ZoneListener>> = {enter: new Set, leave: new Set};
+	private readonly entities = new Set<Entity>;
+
+	/** Creates a zone with the given position (in zones, not in the world units) */
+	private constructor(public readonly position: Vector2i) {}
+
+	/** Returns the position of the zone (in zones) that contains the given world position */
+	public static getPosition(worldPosition: Vector2i): Vector2i {
+		return Vec2i(Math.floor(worldPosition.x / Zone.size.x), Math.floor(worldPosition.y / Zone.size.y));
+	}
+
+	/** Returns the zone with the given position (in zones) or `undefined` if the zone is empty */
+	public static get(position: Vector2i): Zone | undefined {
+		return Zone.zones.get(position.toString());
+	}
+
+	/** Returns the zone that contains the given world position or `undefined` if the zone is empty */
+	public static getAt(worldPosition: Vector2i): Zone | undefined {
+		return Zone.get(Zone.getPosition(worldPosition));
+	}
+
+	/** Returns the zone of the given entity or `undefined` if it was not placed */
+	public static getByEntity(entity: Entity): Zone | undefined {
+		return Zone.zoneByEntity.get(entity);
+	}
+
+	/** Returns all non-empty zones */
+	public static getAll(): IterableIterator<Zone> {
+		return Zone.zones.values();
+	}
+
+	/**
+	 * Places the given entity into the zone that contains the given world position.
+	 * If the entity was in another zone, the `leave` event is fired for it, then the `enter` event for the new zone
+	 */
+	public static place(entity: Entity, worldPosition: Vector2i): Zone {
+		const position = Zone.getPosition(worldPosition);
+		const previousZone = Zone.zoneByEntity.get(entity);
+		if (previousZone?.position.equals(position)) {
+			return previousZone;
+		}
+		if (previousZone) {
+			Zone.leave(entity, previousZone);
+		}
+		const key = position.toString();
+		let zone = Zone.zones.get(key);
+		if (!zone) {
+			zone = new Zone(position);
+			Zone.zones.set(key, zone);
+		}
+		zone.entities.add(entity);
+		Zone.zoneByEntity.set(entity, zone);
+		Zone.emit("enter", entity, zone);
+		return zone;
+	}
+
+	/** Removes the given entity from its zone (if it was placed), the `leave` event is fired */
+	public static remove(entity: Entity): void {
+		const zone = Zone.zoneByEntity.get(entity);
+		if (zone) {
+			Zone.leave(entity, zone);
+		}
+	}
+
+	/** Adds the listener of the given event */
+	public static on(event: ZoneEvent, listener: ZoneListener): void {
+		Zone.listeners[event].add(listener);
+	}
+
+	/** Removes the listener of the given event */
+	public static off(event: ZoneEvent, listener: ZoneListener): void {
+		Zone.listeners[event].delete(listener);
+	}
+
+	/** Removes all entities from the zones (without firing the events) and removes all listeners */
+	public static stop(): void {
+		Zone.zones.clear();
+		Zone.zoneByEntity.clear();
+		Zone.listeners.enter.clear();
+		Zone.listeners.leave.clear();
+	}
+
+	/** Removes the given entity from the given zone, the zone is forgotten if it becomes empty */
+	private static leave(entity: Entity, zone: Zone): void {
+		zone.entities.delete(entity);
+		Zone.zoneByEntity.delete(entity);
+		if (zone.entities.size < 1) {
+			Zone.zones.delete(zone.position.toString());
+		}
+		Zone.emit("leave", entity, zone);
+	}
+
+	/** Calls the listeners of the given event. The errors are logged, so that they don't affect other listeners */
+	private static emit(event: ZoneEvent, entity: Entity, zone: Zone): void {
+		for (const listener of Zone.listeners[event]) {
+			try {
+				listener(entity, zone);
+			} catch (e) {
+				Zone.logger.error(e);
+			}
+		}
+	}
+
+	/** Returns the entities in this zone */
+	public getEntities(): ReadonlySet<Entity> {
+		return this.entities;
+	}
+
+	/** Returns the sessions of the authorized entities (see {@link AuthorizableEntity}) in this zone */
+	public getSessions(): Set<Session> {
+		const sessions = new Set<Session>;
+		for (const entity of this.entities) {
+			const {session} = entity as Partial<AuthorizableEntity>;
+			if (session) {
+				sessions.add(session);
+			}
+		}
+		return sessions;
+	}
+
+	/** Returns `true` if the zone with the given position (in zones) is in the area of interest of this zone */
+	public isNearby(position: Vector2i): boolean {
+		const distance = position.sub(this.position).abs();
+		return distance.x <= Zone.interestRadius && distance.y <= Zone.interestRadius;
+	}
+
+	/** Returns the non-empty zones in the area of interest of this zone (including this zone) */
+	public getNearbyZones(): Zone[] {
+		const zones: Zone[] = [];
+		for (let dx = -Zone.interestRadius; dx <= Zone.interestRadius; dx++) {
+			for (let dy = -Zone.interestRadius; dy <= Zone.interestRadius; dy++) {
+				const zone = Zone.get(Vec2i(this.position.x + dx, this.position.y + dy));
+				if (zone) {
+					zones.push(zone);
+				}
+			}
+		}
+		return zones;
+	}
+
+	/** Returns the entities in the area of interest of this zone */
+	public getNearbyEntities(): Set<Entity> {
+		return new Set(this.getNearbyZones().flatMap(zone => Array.from(zone.entities)));
+	}
+
+	/** Returns the sessions of the authorized entities in the area of interest of this zone */
+	public getNearbySessions(): Set<Session> {
+		return new Set(this.getNearbyZones().flatMap(zone => Array.from(zone.getSessions())));
+	}
+
+	/** Sends the given message to the sessions in the area of interest of this zone */
+	public broadcast(message: Message): void {
+		message.send(this.getNearbySessions());
+	}
+}
\ No newline at end of file
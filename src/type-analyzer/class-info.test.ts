@@ -43,6 +43,8 @@ class ClassInfoTest<T extends string | number> {
 }
 export {ClassInfoTest as ExportedClassInfoTest};
 
+export class GenericChildClassInfoTest extends ClassInfoTest<string> {}
+
 let classInfo: ClassInfo, baseClassInfo: ClassInfo, childClassInfo: ClassInfo, grandchildClassInfo: ClassInfo;
 before(() => {
 	const fileName = path.basename(import.meta.url).replace(".js", ".d.ts");
@@ -249,6 +251,15 @@ test("getAllProperties", () => {
 	assert.deepEqual(grandchildClassInfo.getAllProperties(), properties);
 });
 
+test("extendsTypeArguments", () => {
+	const genericChildClassInfo = TypeAnalyzer.findByName("GenericChildClassInfoTest", ClassInfo);
+	assert.equal(genericChildClassInfo.fullExtends, classInfo.fullName);
+	assert.deepEqual(genericChildClassInfo.extendsTypeArguments, [
+		{name: "string", fullName: "string", kind: Kind.String, subtypes: []}
+	]);
+	assert.deepEqual(grandchildClassInfo.extendsTypeArguments, []);
+});
+
 test("getParent", () => {
 	assert.equal(baseClassInfo.getParent(), undefined);
 	assert.equal(childClassInfo.getParent(), baseClassInfo);
@@ -4,7 +4,7 @@ import {Class} from "../core/typings.js";
 import BaseTypeInfo from "./base-type-info.js";
 import SourceInfo from "./source-info.js";
 import TypeAnalyzer from "./type-analyzer.js";
-import {Kind, PropertyInfo} from "./type-analyzer.typings.js";
+import {Kind, PropertyInfo, PropertyType} from "./type-analyzer.typings.js";
 
 /** The arbitrary class with the info about this class */
 export type ClassWithInfo = [Class, ClassInfo];
@@ -18,6 +18,11 @@ export default class ClassInfo extends BaseTypeInfo {
 	 * (see {@link BaseTypeInfo.fullName})
 	 */
 	public fullExtends?: string;
+	/**
+	 * If this is a child class of a generic class, it will contain the type arguments of the parent class,
+	 * e.g. the info about `Item` for `class ItemTask extends EntityTask<Item>`
+	 */
+	public extendsTypeArguments: PropertyType[];
 	/** Whether the class is abstract or not */
 	public abstract: boolean;
 
@@ -40,6 +45,9 @@ export default class ClassInfo extends BaseTypeInfo {
 		this.abstract = node.hasModifier(SyntaxKind.AbstractKeyword);
 
 		const typeParameters = node.getTypeParameters().map(typeParameter => typeParameter.getName());
+		this.extendsTypeArguments = (node.getExtends()?.getTypeArguments() ?? []).map(
+			typeArgument => this.getPropertyType(typeArgument, typeParameters)
+		);
 		for (const propertyNode of node.getStaticProperties()) {
 			const propertyInfo = this.getPropertyInfo(propertyNode, typeParameters, true);
 			if (propertyInfo) {